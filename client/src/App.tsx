@@ -22,9 +22,16 @@ import ChevronLeftIcon from '@mui/icons-material/ChevronLeft';
 import CalculateIcon from '@mui/icons-material/Calculate';
 import InsightsIcon from '@mui/icons-material/Insights';
 import TrendingUpIcon from '@mui/icons-material/TrendingUp';
+import AccountCircleIcon from '@mui/icons-material/AccountCircle';
+import LogoutIcon from '@mui/icons-material/Logout';
 import CompoundCalculatorPage from './pages/CompoundCalculatorPage';
 import PortfolioInsightsPage from './pages/PortfolioInsightsPage';
+import LoginPage from './pages/LoginPage';
 import ScrollToTopButton from './components/ScrollToTopButton';
+import PortfolioSwitcher from './components/PortfolioSwitcher';
+import ProtectedRoute from './components/ProtectedRoute';
+import { PortfolioProvider } from './context/PortfolioContext';
+import { AuthProvider, useAuth } from './context/AuthContext';
 
 const drawerWidth = 280;
 const miniDrawerWidth = 64;
@@ -47,6 +54,36 @@ function ScrollToTop() {
   return null;
 }
 
+// Drawer section for the signed-in user: their portfolios, then who is signed in
+function AccountSection({ expanded }: { expanded: boolean }) {
+  const { user, logout } = useAuth();
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <>
+      <Divider sx={{ mx: 2, my: 1 }} />
+      <PortfolioSwitcher expanded={expanded} />
+      <Divider sx={{ mx: 2, my: 1 }} />
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: expanded ? 'space-between' : 'center', gap: 1, px: 3, py: 1 }}>
+        <AccountCircleIcon sx={{ color: 'grey.600', fontSize: 24 }} />
+        {expanded && (
+          <Typography variant="body2" color="text.secondary" noWrap sx={{ flex: 1 }}>
+            {user.email}
+          </Typography>
+        )}
+        {expanded && (
+          <IconButton size="small" onClick={logout} title="Sign out">
+            <LogoutIcon fontSize="small" />
+          </IconButton>
+        )}
+      </Box>
+    </>
+  );
+}
+
 const theme = createTheme({
   palette: {
     primary: {
@@ -199,6 +236,7 @@ export default function App() {
           </ListItemButton>
         </ListItem>
       </List>
+      <AccountSection expanded={isDrawerExpanded} />
     </Box>
   );
 
@@ -206,107 +244,112 @@ export default function App() {
     <Router>
       <ScrollToTop />
       <ThemeProvider theme={theme}>
-        <CssBaseline />
-        <Box sx={{ display: 'flex', height: '100vh' }}>
-          {/* App Bar */}
-          <AppBar
-            position="fixed"
-            sx={{
-              width: `calc(100% - ${isDrawerExpanded ? drawerWidth : miniDrawerWidth}px)`,
-            ml: `${isDrawerExpanded ? drawerWidth : miniDrawerWidth}px`,
-              transition: theme.transitions.create(['width', 'margin'], {
-                easing: theme.transitions.easing.sharp,
-                duration: theme.transitions.duration.leavingScreen,
-              }),
-            }}
-          >
-            <Toolbar>
-            </Toolbar>
-          </AppBar>
+        <AuthProvider>
+          <PortfolioProvider>
+            <CssBaseline />
+            <Box sx={{ display: 'flex', height: '100vh' }}>
+              {/* App Bar */}
+              <AppBar
+                position="fixed"
+                sx={{
+                  width: `calc(100% - ${isDrawerExpanded ? drawerWidth : miniDrawerWidth}px)`,
+                ml: `${isDrawerExpanded ? drawerWidth : miniDrawerWidth}px`,
+                  transition: theme.transitions.create(['width', 'margin'], {
+                    easing: theme.transitions.easing.sharp,
+                    duration: theme.transitions.duration.leavingScreen,
+                  }),
+                }}
+              >
+                <Toolbar>
+                </Toolbar>
+              </AppBar>
 
-          {/* Drawer */}
-          <Drawer
-            variant="permanent"
-            anchor="left"
-            onMouseEnter={handleMouseEnter}
-            onMouseLeave={handleMouseLeave}
-            sx={{
-              width: isDrawerExpanded ? drawerWidth : miniDrawerWidth,
-              flexShrink: 0,
-              '& .MuiDrawer-paper': {
-                width: isDrawerExpanded ? drawerWidth : miniDrawerWidth,
-                boxSizing: 'border-box',
-                transition: theme.transitions.create('width', {
-                  easing: theme.transitions.easing.sharp,
-                  duration: theme.transitions.duration.enteringScreen,
-                }),
-                overflowX: 'hidden',
-                zIndex: hoverOpen ? 1300 : 'auto',
-              },
-            }}
-          >
-            {drawer}
-          </Drawer>
+              {/* Drawer */}
+              <Drawer
+                variant="permanent"
+                anchor="left"
+                onMouseEnter={handleMouseEnter}
+                onMouseLeave={handleMouseLeave}
+                sx={{
+                  width: isDrawerExpanded ? drawerWidth : miniDrawerWidth,
+                  flexShrink: 0,
+                  '& .MuiDrawer-paper': {
+                    width: isDrawerExpanded ? drawerWidth : miniDrawerWidth,
+                    boxSizing: 'border-box',
+                    transition: theme.transitions.create('width', {
+                      easing: theme.transitions.easing.sharp,
+                      duration: theme.transitions.duration.enteringScreen,
+                    }),
+                    overflowX: 'hidden',
+                    zIndex: hoverOpen ? 1300 : 'auto',
+                  },
+                }}
+              >
+                {drawer}
+              </Drawer>
 
-          {/* Main Content */}
-          <Box
-            component="main"
-            sx={{
-              flexGrow: 1,
-              display: 'flex',
-              flexDirection: 'column',
-              width: `calc(100% - ${isDrawerExpanded ? drawerWidth : miniDrawerWidth}px)`,
-              transition: theme.transitions.create('width', {
-                easing: theme.transitions.easing.sharp,
-                duration: theme.transitions.duration.leavingScreen,
-              }),
-            }}
-          >
-            {/* Toolbar spacer */}
-            <Toolbar />
+              {/* Main Content */}
+              <Box
+                component="main"
+                sx={{
+                  flexGrow: 1,
+                  display: 'flex',
+                  flexDirection: 'column',
+                  width: `calc(100% - ${isDrawerExpanded ? drawerWidth : miniDrawerWidth}px)`,
+                  transition: theme.transitions.create('width', {
+                    easing: theme.transitions.easing.sharp,
+                    duration: theme.transitions.duration.leavingScreen,
+                  }),
+                }}
+              >
+                {/* Toolbar spacer */}
+                <Toolbar />
             
-            {/* Page Content */}
-            <Box 
-              data-main-content
-              sx={{ 
-                flexGrow: 1, 
-                p: 3, 
-                bgcolor: 'background.default',
-                overflow: 'auto'
-              }}
-            >
-              <Routes>
-                <Route path="/" element={<CompoundCalculatorPage />} />
-                <Route path="/insights" element={<PortfolioInsightsPage />} />
-              </Routes>
-            </Box>
+                {/* Page Content */}
+                <Box 
+                  data-main-content
+                  sx={{ 
+                    flexGrow: 1, 
+                    p: 3, 
+                    bgcolor: 'background.default',
+                    overflow: 'auto'
+                  }}
+                >
+                  <Routes>
+                    <Route path="/login" element={<LoginPage />} />
+                    <Route path="/" element={<ProtectedRoute><CompoundCalculatorPage /></ProtectedRoute>} />
+                    <Route path="/insights" element={<ProtectedRoute><PortfolioInsightsPage /></ProtectedRoute>} />
+                  </Routes>
+                </Box>
 
-            {/* Footer */}
-            <Paper 
-              component="footer" 
-              elevation={0}
-              sx={{ 
-                mt: 'auto',
-                py: 2, 
-                px: 3,
-                bgcolor: 'background.paper',
-                borderTop: '1px solid rgba(102, 126, 234, 0.1)'
-              }}
-            >
-              <Typography 
-                variant="body2" 
-                color="text.secondary" 
-                align="center"
-                sx={{ fontWeight: 500 }}
-              >
-                © 2024 Wealth Metrics. Built for smart financial planning.
-              </Typography>
-            </Paper>
-          </Box>
+                {/* Footer */}
+                <Paper 
+                  component="footer" 
+                  elevation={0}
+                  sx={{ 
+                    mt: 'auto',
+                    py: 2, 
+                    px: 3,
+                    bgcolor: 'background.paper',
+                    borderTop: '1px solid rgba(102, 126, 234, 0.1)'
+                  }}
+                >
+                  <Typography 
+                    variant="body2" 
+                    color="text.secondary" 
+                    align="center"
+                    sx={{ fontWeight: 500 }}
+                  >
+                    © 2024 Wealth Metrics. Built for smart financial planning.
+                  </Typography>
+                </Paper>
+              </Box>
           
-          {/* Scroll to Top Button */}
-          <ScrollToTopButton />
-        </Box>
+              {/* Scroll to Top Button */}
+              <ScrollToTopButton />
+            </Box>
+          </PortfolioProvider>
+        </AuthProvider>
       </ThemeProvider>
     </Router>
   );
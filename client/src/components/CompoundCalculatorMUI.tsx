@@ -14,7 +14,7 @@ import {
 import {
   Add as AddIcon
 } from '@mui/icons-material';
-import { Transaction as SharedTransaction } from '../shared-types';
+import { Transaction as SharedTransaction, CurrencyCode } from '../shared-types';
 import { DatePicker } from '@mui/x-date-pickers/DatePicker';
 import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
 import { AdapterDayjs } from '@mui/x-date-pickers/AdapterDayjs';
@@ -48,6 +48,8 @@ interface CompoundCalculatorProps {
   sp500Data?: SP500Data;
   compact?: boolean;
   transactions?: Transaction[];
+  // Currency the amounts are entered in
+  currency?: CurrencyCode;
 }
 
 const CompoundCalculatorMUI: React.FC<CompoundCalculatorProps> = ({
@@ -56,7 +58,8 @@ const CompoundCalculatorMUI: React.FC<CompoundCalculatorProps> = ({
   loading,
   sp500Data,
   compact = false,
-  transactions: propTransactions
+  transactions: propTransactions,
+  currency = 'USD'
 }) => {
   // Use transactions from props if provided, otherwise load from localStorage
   const [localTransactions, setLocalTransactions] = useState<Transaction[]>(() => {
@@ -165,12 +168,14 @@ const CompoundCalculatorMUI: React.FC<CompoundCalculatorProps> = ({
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'USD',
+      currency,
       minimumFractionDigits: 0,
       maximumFractionDigits: 0
     }).format(value);
   };
 
+  const currencySymbol = formatCurrency(0).replace(/[\d\s.,]/g, '');
+
   const getInvestmentPeriod = () => {
     if (transactions.length === 0) return null;
     const sortedTransactions = transactions.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
@@ -253,7 +258,7 @@ const CompoundCalculatorMUI: React.FC<CompoundCalculatorProps> = ({
                     fullWidth
                     size="small"
                     InputProps={{
-                      startAdornment: <InputAdornment position="start">$</InputAdornment>,
+                      startAdornment: <InputAdornment position="start">{currencySymbol}</InputAdornment>,
                     }}
                     inputProps={{ min: 0, step: 100 }}
                   />
@@ -342,7 +347,7 @@ const CompoundCalculatorMUI: React.FC<CompoundCalculatorProps> = ({
                     fullWidth
                     size="small"
                     InputProps={{
-                      startAdornment: <InputAdornment position="start">$</InputAdornment>,
+                      startAdornment: <InputAdornment position="start">{currencySymbol}</InputAdornment>,
                     }}
                     inputProps={{ min: 0, step: 100 }}
                   />
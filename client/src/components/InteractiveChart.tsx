@@ -13,7 +13,8 @@ import {
 } from 'chart.js';
 import { Line } from 'react-chartjs-2';
 import { useTheme, alpha } from '@mui/material/styles';
-import { CalculationResult, MarketDataResponse as MarketData } from '../shared-types';
+import { CalculationResult, BatchCalculationItem, CurrencyCode, MarketDataResponse as MarketData, RealValues } from '../shared-types';
+import { annualToMonthlyReturn } from '../returns';
 import './InteractiveChart.css';
 
 ChartJS.register(
@@ -33,14 +34,19 @@ interface InteractiveChartProps {
   marketData?: Record<string, MarketData>;
   selectedIndices?: string[];
   primaryIndex?: string;
+  // The same cash flows invested in other indices, drawn as comparison lines
+  comparisons?: BatchCalculationItem[];
+  currency?: CurrencyCode;
   onStatsUpdate?: (stats: any) => void;
 }
 
 const InteractiveChart: React.FC<InteractiveChartProps> = ({ 
-  data, 
+  data: calculation, 
   marketData = {}, 
   selectedIndices = ['sp500'], 
   primaryIndex = 'sp500',
+  comparisons = [],
+  currency = 'USD',
   onStatsUpdate
 }) => {
   const theme = useTheme();
@@ -52,18 +58,45 @@ const InteractiveChart: React.FC<InteractiveChartProps> = ({
   const [autoProjectionEnabled, setAutoProjectionEnabled] = useState(false);
   const [showNetInvestment, setShowNetInvestment] = useState(false); // Default to false
   const [showNoWithdrawals, setShowNoWithdrawals] = useState(false); // Default to false
+  const [showDrawdown, setShowDrawdown] = useState(false);
+  const [showRealTerms, setShowRealTerms] = useState(false);
+  const [showWithoutFees, setShowWithoutFees] = useState(false);
+  const [showRecurring, setShowRecurring] = useState(true);
+  const [showComparisons, setShowComparisons] = useState(true);
   const [legendItems, setLegendItems] = useState<LegendItem[]>([]);
   const chartRef = useRef<ChartJS<'line'> | null>(null);
 
+  // Swap in the CPI-deflated figures so every series and stat below follows the nominal/real toggle
+  const data = useMemo<CalculationResult>(() => {
+    const real = calculation.summary.real;
+    if (!showRealTerms || !real) {
+      return calculation;
+    }
+    const toReal = <T extends { real?: RealValues }>(point: T): T => (point.real ? { ...point, ...point.real } : point);
+    return {
+      ...calculation,
+      summary: {
+        ...calculation.summary,
+        finalAmount: real.amount,
+        totalContributions: real.contributions,
+        totalWithdrawals: real.contributions - real.netInvestment,
+        netInvestment: real.netInvestment,
+        totalGains: real.gains
+      },
+      monthlyData: calculation.monthlyData.map(toReal),
+      yearlyData: calculation.yearlyData.map(toReal)
+    };
+  }, [calculation, showRealTerms]);
+
   // Memoize formatCurrency to prevent unnecessary re-creation
   const formatCurrency = useCallback((value: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'USD',
+      currency,
       minimumFractionDigits: 0,
       maximumFractionDigits: 0
     }).format(value);
-  }, []);
+  }, [currency]);
 
   // Handle custom legend item clicks
   const handleLegendClick = useCallback((item: LegendItem) => {
@@ -243,7 +276,7 @@ const InteractiveChart: React.FC<InteractiveChartProps> = ({
     const lastYear = data.yearlyData[data.yearlyData.length - 1];
      // Use consistent market data - fallback to S&P 500's return if primary index not found
      const selectedMarketReturn = marketData[primaryIndex]?.averageReturn || marketData['sp500']?.averageReturn || 0.10;
-     const monthlyReturn = selectedMarketReturn / 12;
+     const monthlyReturn = annualToMonthlyReturn(selectedMarketReturn);
      const monthlyContribution = ((lastYear.netInvestment || lastYear.contributions) - (data.summary.netInvestment || data.summary.totalContributions)) / (lastYear.year * 12) || 0;
 
     const labels: string[] = [];
@@ -355,7 +388,7 @@ const InteractiveChart: React.FC<InteractiveChartProps> = ({
     
     // Get the selected market return for growth calculation
     const selectedMarketReturn = marketData[primaryIndex]?.averageReturn || marketData['sp500']?.averageReturn || 0.10;
-    const monthlyReturn = selectedMarketReturn / 12;
+    const monthlyReturn = annualToMonthlyReturn(selectedMarketReturn);
     
     // Calculate what the portfolio would be worth without withdrawals
     return baseData.map((point, index) => {
@@ -408,7 +441,8 @@ const InteractiveChart: React.FC<InteractiveChartProps> = ({
            contributions: lastMonthlyData.contributions,
            netInvestment: lastMonthlyData.netInvestment,
            gains: lastMonthlyData.gains,
-           roi: lastMonthlyData.gains / (lastMonthlyData.netInvestment || lastMonthlyData.contributions || 1)
+           roi: lastMonthlyData.gains / (lastMonthlyData.netInvestment || lastMonthlyData.contributions || 1),
+           valueWithoutFees: lastMonthlyData.valueWithoutFees
          };
          currentBaseData = [...(currentBaseData as typeof data.yearlyData), partialYearData];
        }
@@ -453,6 +487,54 @@ const InteractiveChart: React.FC<InteractiveChartProps> = ({
      const noWithdrawalsData = calculateNoWithdrawalsDataFromBase(currentBaseData);
      const filteredNoWithdrawalsData = filterDataByPeriod(noWithdrawalsData);
      const historicalNoWithdrawalsValues = filteredNoWithdrawalsData.map((item) => item.amount);
+     const historicalWithoutFeesValues = filteredData.map((item) => item.valueWithoutFees ?? null);
+
+     // YYYY or YYYY-MM of a plotted point, for lining other series up with it
+     const periodKey = (item: { year: number; monthOfYear?: number; month?: number }) => (viewMode === 'yearly'
+       ? `${item.year}`
+       : `${item.year}-${String(item.monthOfYear || item.month).padStart(2, '0')}`);
+
+     // Net amount of recurring-rule occurrences in each plotted month or year
+     const recurringByPeriod = new Map<string, number>();
+     (data.recurringOccurrences || []).forEach(occurrence => {
+       const key = viewMode === 'yearly' ? occurrence.date.slice(0, 4) : occurrence.date.slice(0, 7);
+       const signed = occurrence.type === 'deposit' ? occurrence.amount : -occurrence.amount;
+       recurringByPeriod.set(key, (recurringByPeriod.get(key) || 0) + signed);
+     });
+     const recurringAmounts = filteredData.map((item) => recurringByPeriod.get(periodKey(item)) ?? null);
+
+     // Each comparison's value in every plotted month or year. In yearly view the last month of a
+     // year stands in until the year is complete, matching the partial-year point above.
+     const comparisonColors = [
+       theme.palette.success.main,
+       theme.palette.info.main,
+       theme.palette.secondary.dark,
+       theme.palette.warning.main,
+       theme.palette.error.light
+     ];
+     const comparisonDatasets = comparisons.map((comparison, i) => {
+       const valueOf = (point: { amount: number; real?: RealValues }) => (showRealTerms && point.real ? point.real.amount : point.amount);
+       const byPeriod = new Map<string, number>();
+       comparison.result.monthlyData.forEach(point => byPeriod.set(periodKey(point), valueOf(point)));
+       if (viewMode === 'yearly') {
+         comparison.result.yearlyData.forEach(point => byPeriod.set(periodKey(point), valueOf(point)));
+       }
+       const color = comparisonColors[i % comparisonColors.length];
+       return {
+         label: `Invested in ${comparison.label}`,
+         data: filteredData.map((item) => byPeriod.get(periodKey(item)) ?? null),
+         borderColor: color,
+         backgroundColor: alpha(color, 0.1),
+         tension: 0.4,
+         borderWidth: 2,
+         pointRadius: 2,
+         pointBackgroundColor: color,
+         pointBorderColor: 'white',
+         pointBorderWidth: 1,
+         borderDash: [4, 3] as number[],
+         fill: false,
+       };
+     });
 
     // Create separate datasets for historical and projected data
     const historicalDataset = {
@@ -539,7 +621,7 @@ const InteractiveChart: React.FC<InteractiveChartProps> = ({
        const periodsFromNow = index + 1;
        const withdrawalGrowthFactor = viewMode === 'yearly' 
          ? Math.pow(1 + selectedMarketReturn, periodsFromNow)
-         : Math.pow(1 + selectedMarketReturn / 12, periodsFromNow);
+         : Math.pow(1 + annualToMonthlyReturn(selectedMarketReturn), periodsFromNow);
        
        return amount + (totalWithdrawals * withdrawalGrowthFactor);
      }) : [];
@@ -559,6 +641,41 @@ const InteractiveChart: React.FC<InteractiveChartProps> = ({
        fill: false,
      };
 
+     // Same cash flows with no fees; the gap to Portfolio Value is what the fees cost
+     const historicalWithoutFeesDataset = {
+       label: 'Value Without Fees',
+       data: historicalWithoutFeesValues,
+       borderColor: theme.palette.secondary.main,
+       backgroundColor: alpha(theme.palette.secondary.main, 0.1),
+       tension: 0.4,
+       borderWidth: 2,
+       pointRadius: 2,
+       pointBackgroundColor: theme.palette.secondary.main,
+       pointBorderColor: 'white',
+       pointBorderWidth: 1,
+       borderDash: [] as number[],
+       fill: false,
+     };
+
+     // Markers on the value line wherever a recurring rule paid in or out
+     const recurringDataset = {
+       label: 'Recurring Transactions',
+       data: filteredData.map((item, index) => (recurringAmounts[index] !== null ? item.amount : null)),
+       recurringAmounts,
+       borderColor: theme.palette.warning.dark,
+       backgroundColor: theme.palette.warning.main,
+       tension: 0,
+       borderWidth: 0,
+       showLine: false,
+       pointStyle: 'triangle',
+       pointRadius: 5,
+       pointBackgroundColor: theme.palette.warning.main,
+       pointBorderColor: theme.palette.warning.dark,
+       pointBorderWidth: 1,
+       borderDash: [] as number[],
+       fill: false,
+     };
+
     const datasets = [historicalDataset];
     
     // Only add projected datasets if there's projection data
@@ -586,6 +703,18 @@ const InteractiveChart: React.FC<InteractiveChartProps> = ({
        }
      }
     
+    if (showWithoutFees && data.summary.fees) {
+      datasets.push(historicalWithoutFeesDataset);
+    }
+    
+    if (showRecurring && recurringByPeriod.size > 0) {
+      datasets.push(recurringDataset);
+    }
+    
+    if (showComparisons) {
+      datasets.push(...comparisonDatasets);
+    }
+    
     // Add market index data if available and MAX period is selected
 
 
@@ -593,7 +722,7 @@ const InteractiveChart: React.FC<InteractiveChartProps> = ({
       labels: allLabels,
       datasets: datasets,
     };
-  }, [viewMode, data, selectedPeriod, showNetInvestment, showNoWithdrawals, showProjection, filterDataByPeriod, generateProjectionData, calculateNoWithdrawalsDataFromBase, marketData, primaryIndex, theme]);
+  }, [viewMode, data, selectedPeriod, showNetInvestment, showNoWithdrawals, showWithoutFees, showRecurring, showComparisons, comparisons, showRealTerms, showProjection, filterDataByPeriod, generateProjectionData, calculateNoWithdrawalsDataFromBase, marketData, primaryIndex, theme]);
 
   // Capture legend items from chart
   useEffect(() => {
@@ -637,6 +766,12 @@ const InteractiveChart: React.FC<InteractiveChartProps> = ({
         callbacks: {
           label: (context) => {
             const label = context.dataset.label || '';
+            // Recurring markers report the amount paid in or out, not the portfolio value they sit on
+            const recurringAmounts = (context.dataset as { recurringAmounts?: (number | null)[] }).recurringAmounts;
+            if (recurringAmounts) {
+              const amount = recurringAmounts[context.dataIndex] || 0;
+              return `${label}: ${amount >= 0 ? '+' : '-'}${formatCurrency(Math.abs(amount))}`;
+            }
             const value = formatCurrency(context.parsed.y);
             return `${label}: ${value}`;
           },
@@ -711,6 +846,66 @@ const InteractiveChart: React.FC<InteractiveChartProps> = ({
     },
   }), [viewMode, formatCurrency, selectedPeriod, theme.palette.text.primary, theme.palette.text.secondary, theme.palette.background.paper, theme.palette.grey]);
 
+  // Drawdown subplot data, plotted monthly from the risk block
+  const drawdownChartData = useMemo(() => {
+    const series = data.risk?.drawdownSeries || [];
+    return {
+      labels: series.map(point => new Date(`${point.date}T12:00:00`).toLocaleDateString('en-US', { month: 'short', year: 'numeric' })),
+      datasets: [{
+        label: 'Drawdown',
+        data: series.map(point => point.drawdown),
+        borderColor: theme.palette.error.main,
+        backgroundColor: alpha(theme.palette.error.main, 0.15),
+        tension: 0.2,
+        borderWidth: 1.5,
+        pointRadius: 0,
+        fill: true,
+      }],
+    };
+  }, [data.risk, theme]);
+
+  const drawdownChartOptions = useMemo((): ChartOptions<'line'> => ({
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        display: false,
+      },
+      tooltip: {
+        mode: 'index',
+        intersect: false,
+        callbacks: {
+          label: (context) => `Drawdown: ${context.parsed.y.toFixed(2)}%`,
+        },
+      },
+    },
+    scales: {
+      x: {
+        ticks: {
+          color: theme.palette.text.secondary,
+          maxTicksLimit: 12,
+        },
+        grid: {
+          display: false,
+        },
+      },
+      y: {
+        max: 0,
+        ticks: {
+          color: theme.palette.text.secondary,
+          callback: function(value) {
+            return `${value}%`;
+          },
+        },
+        title: {
+          display: true,
+          text: 'Drawdown (%)',
+          color: theme.palette.text.primary,
+        },
+      },
+    },
+  }), [theme.palette.text.primary, theme.palette.text.secondary]);
+
   // Memoize view toggle handler
   const handleViewModeChange = useCallback((mode: 'yearly' | 'monthly') => {
     setViewMode(mode);
@@ -871,6 +1066,23 @@ const InteractiveChart: React.FC<InteractiveChartProps> = ({
           </button>
         </div>
         
+        {calculation.summary.real && (
+          <div className="view-toggle">
+            <button
+              className={!showRealTerms ? 'active' : ''}
+              onClick={() => setShowRealTerms(false)}
+            >
+              Nominal
+            </button>
+            <button
+              className={showRealTerms ? 'active' : ''}
+              onClick={() => setShowRealTerms(true)}
+            >
+              Real ({calculation.summary.real.baseYear} $)
+            </button>
+          </div>
+        )}
+        
         <div className="period-selector">
           {getAvailablePeriods().map((period) => (
             <button
@@ -908,6 +1120,46 @@ const InteractiveChart: React.FC<InteractiveChartProps> = ({
             />
             Portfolio Without Withdrawals
           </label>
+          {data.summary.fees && (
+            <label className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={showWithoutFees}
+                onChange={(e) => setShowWithoutFees(e.target.checked)}
+              />
+              Value Without Fees
+            </label>
+          )}
+          {data.recurringOccurrences && data.recurringOccurrences.length > 0 && (
+            <label className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={showRecurring}
+                onChange={(e) => setShowRecurring(e.target.checked)}
+              />
+              Recurring Transactions
+            </label>
+          )}
+          {comparisons.length > 0 && (
+            <label className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={showComparisons}
+                onChange={(e) => setShowComparisons(e.target.checked)}
+              />
+              Compare Indices
+            </label>
+          )}
+          {data.risk && data.risk.drawdownSeries.length > 0 && (
+            <label className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={showDrawdown}
+                onChange={(e) => setShowDrawdown(e.target.checked)}
+              />
+              Drawdown
+            </label>
+          )}
         </div>
       </div>
         
@@ -920,7 +1172,7 @@ const InteractiveChart: React.FC<InteractiveChartProps> = ({
           fontFamily: 'Google Sans, Roboto, sans-serif',
           color: theme.palette.text.primary,
         }}>
-          Investment Growth Over Time ({viewMode === 'yearly' ? 'Yearly' : 'Monthly'} View)
+          Investment Growth Over Time ({viewMode === 'yearly' ? 'Yearly' : 'Monthly'} View{showRealTerms && data.summary.real ? `, ${data.summary.real.baseYear} Dollars` : ''})
         </div>
         
         {/* Custom Legend */}
@@ -968,6 +1220,12 @@ const InteractiveChart: React.FC<InteractiveChartProps> = ({
         <Line ref={chartRef} data={chartData} options={chartOptions} />
       </div>
       
+      {showDrawdown && data.risk && data.risk.drawdownSeries.length > 0 && (
+        <div className="drawdown-container">
+          <Line data={drawdownChartData} options={drawdownChartOptions} />
+        </div>
+      )}
+      
       {autoProjectionEnabled && (
         <div className="projection-notice">
           <p className="auto-projection-notice">🔮 Future projection automatically enabled due to limited data points in selected time window</p>
@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  TextField,
+  Button,
+  Select,
+  MenuItem,
+  FormControl,
+  InputLabel,
+  Alert,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions
+} from '@mui/material';
+import axios from 'axios';
+import { AccountType, CurrencyCode, MarketIndexInfo, PortfolioRequest, PortfolioSummary } from '../shared-types';
+import { ACCOUNT_TYPE_LABELS, usePortfolios } from '../context/PortfolioContext';
+
+interface PortfolioDialogProps {
+  open: boolean;
+  // The portfolio being edited, or null to create one
+  portfolio: PortfolioSummary | null;
+  onClose: () => void;
+}
+
+const emptyForm = (): PortfolioRequest => ({
+  name: '',
+  accountType: 'taxable',
+  baseCurrency: 'USD',
+  marketIndex: 'sp500'
+});
+
+const PortfolioDialog: React.FC<PortfolioDialogProps> = ({ open, portfolio, onClose }) => {
+  const { createPortfolio, updatePortfolio, deletePortfolio } = usePortfolios();
+  const [form, setForm] = useState<PortfolioRequest>(emptyForm);
+  const [indices, setIndices] = useState<MarketIndexInfo[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+    setError(null);
+    setForm(portfolio ? {
+      name: portfolio.name,
+      ...(portfolio.description && { description: portfolio.description }),
+      accountType: portfolio.accountType,
+      baseCurrency: portfolio.baseCurrency,
+      marketIndex: portfolio.marketIndex
+    } : emptyForm());
+    if (indices.length === 0) {
+      axios.get<MarketIndexInfo[]>('/api/market-indices')
+        .then(response => setIndices(response.data))
+        .catch(err => console.error('Error fetching market indices:', err));
+    }
+  }, [open, portfolio, indices.length]);
+
+  // Runs a change against the server, keeping the dialog open with the server's message if it fails
+  const submit = async (change: () => Promise<unknown>) => {
+    setSaving(true);
+    try {
+      await change();
+      onClose();
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to save the portfolio');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const save = () => submit(() => {
+    const request = { ...form, name: form.name.trim() };
+    return portfolio ? updatePortfolio(portfolio.id, request) : createPortfolio(request);
+  });
+
+  const remove = () => {
+    if (portfolio && window.confirm(`Delete ${portfolio.name} and its ${portfolio.transactionCount} transactions?`)) {
+      submit(() => deletePortfolio(portfolio.id));
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>{portfolio ? 'Edit Portfolio' : 'New Portfolio'}</DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+          {error && <Alert severity="error">{error}</Alert>}
+          <TextField
+            label="Name"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            fullWidth
+            size="small"
+            autoFocus
+          />
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            <FormControl fullWidth size="small">
+              <InputLabel>Account type</InputLabel>
+              <Select
+                value={form.accountType}
+                label="Account type"
+                onChange={(e) => setForm({ ...form, accountType: e.target.value as AccountType })}
+              >
+                {(Object.keys(ACCOUNT_TYPE_LABELS) as AccountType[]).map(type => (
+                  <MenuItem key={type} value={type}>{ACCOUNT_TYPE_LABELS[type]}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <FormControl fullWidth size="small">
+              <InputLabel>Base currency</InputLabel>
+              <Select
+                value={form.baseCurrency}
+                label="Base currency"
+                onChange={(e) => setForm({ ...form, baseCurrency: e.target.value as CurrencyCode })}
+              >
+                {(['USD', 'GBP', 'JPY', 'EUR'] as CurrencyCode[]).map(currency => (
+                  <MenuItem key={currency} value={currency}>{currency}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Box>
+          <FormControl fullWidth size="small">
+            <InputLabel>Default index</InputLabel>
+            <Select
+              value={indices.some(index => index.id === form.marketIndex) ? form.marketIndex : ''}
+              label="Default index"
+              onChange={(e) => setForm({ ...form, marketIndex: e.target.value })}
+            >
+              {indices.map(index => (
+                <MenuItem key={index.id} value={index.id}>{index.name}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        {portfolio && (
+          <Button color="error" onClick={remove} disabled={saving} sx={{ mr: 'auto' }}>
+            Delete
+          </Button>
+        )}
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={save} disabled={saving || !form.name.trim()}>
+          {portfolio ? 'Save' : 'Create'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default PortfolioDialog;
@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Typography,
+  IconButton,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  Tooltip
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  AccountBalanceWallet as WalletIcon,
+  Layers as LayersIcon
+} from '@mui/icons-material';
+import { PortfolioSummary } from '../shared-types';
+import { ALL_PORTFOLIOS, ACCOUNT_TYPE_LABELS, usePortfolios } from '../context/PortfolioContext';
+import PortfolioDialog from './PortfolioDialog';
+
+interface PortfolioSwitcherProps {
+  // False while the drawer is collapsed to icons
+  expanded: boolean;
+}
+
+const itemSx = (expanded: boolean) => ({
+  borderRadius: 2,
+  minHeight: 44,
+  justifyContent: expanded ? 'initial' : 'center',
+  px: 2,
+  '&.Mui-selected': {
+    backgroundColor: 'rgba(102, 126, 234, 0.12)'
+  }
+});
+
+const iconSx = (expanded: boolean) => ({
+  minWidth: 0,
+  mr: expanded ? 2 : 'auto',
+  justifyContent: 'center'
+});
+
+// Drawer section listing the portfolios, with "All portfolios" for the combined view
+const PortfolioSwitcher: React.FC<PortfolioSwitcherProps> = ({ expanded }) => {
+  const { portfolios, selectedPortfolioId, selectPortfolio, error } = usePortfolios();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<PortfolioSummary | null>(null);
+
+  const openDialog = (portfolio: PortfolioSummary | null) => {
+    setEditing(portfolio);
+    setDialogOpen(true);
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', px: 3, pt: 1, minHeight: 40 }}>
+        {expanded && (
+          <Typography variant="overline" color="text.secondary" sx={{ fontWeight: 600 }}>
+            Portfolios
+          </Typography>
+        )}
+        {expanded && (
+          <IconButton size="small" onClick={() => openDialog(null)} title="New portfolio">
+            <AddIcon fontSize="small" />
+          </IconButton>
+        )}
+      </Box>
+      {expanded && error && (
+        <Typography variant="caption" color="error" sx={{ px: 3, display: 'block' }}>
+          {error}
+        </Typography>
+      )}
+      <List sx={{ px: 1 }}>
+        {portfolios.length > 1 && (
+          <ListItem disablePadding>
+            <Tooltip title={expanded ? '' : 'All portfolios'} placement="right">
+              <ListItemButton
+                selected={selectedPortfolioId === ALL_PORTFOLIOS}
+                onClick={() => selectPortfolio(ALL_PORTFOLIOS)}
+                sx={itemSx(expanded)}
+              >
+                <ListItemIcon sx={iconSx(expanded)}>
+                  <LayersIcon sx={{ color: 'grey.600', fontSize: 22 }} />
+                </ListItemIcon>
+                {expanded && (
+                  <ListItemText
+                    primary="All portfolios"
+                    secondary={`${portfolios.length} combined`}
+                    primaryTypographyProps={{ fontWeight: 500 }}
+                  />
+                )}
+              </ListItemButton>
+            </Tooltip>
+          </ListItem>
+        )}
+        {portfolios.map(portfolio => (
+          <ListItem
+            key={portfolio.id}
+            disablePadding
+            secondaryAction={expanded && (
+              <IconButton edge="end" size="small" onClick={() => openDialog(portfolio)} title="Edit portfolio">
+                <EditIcon fontSize="small" />
+              </IconButton>
+            )}
+          >
+            <Tooltip title={expanded ? '' : portfolio.name} placement="right">
+              <ListItemButton
+                selected={selectedPortfolioId === portfolio.id}
+                onClick={() => selectPortfolio(portfolio.id)}
+                sx={itemSx(expanded)}
+              >
+                <ListItemIcon sx={iconSx(expanded)}>
+                  <WalletIcon sx={{ color: 'grey.600', fontSize: 22 }} />
+                </ListItemIcon>
+                {expanded && (
+                  <ListItemText
+                    primary={portfolio.name}
+                    secondary={`${ACCOUNT_TYPE_LABELS[portfolio.accountType]} · ${portfolio.baseCurrency}`}
+                    primaryTypographyProps={{ fontWeight: 500, noWrap: true }}
+                  />
+                )}
+              </ListItemButton>
+            </Tooltip>
+          </ListItem>
+        ))}
+      </List>
+      <PortfolioDialog open={dialogOpen} portfolio={editing} onClose={() => setDialogOpen(false)} />
+    </Box>
+  );
+};
+
+export default PortfolioSwitcher;
@@ -0,0 +1,298 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Card,
+  Typography,
+  TextField,
+  Button,
+  Select,
+  MenuItem,
+  FormControl,
+  InputLabel,
+  InputAdornment,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  Repeat as RepeatIcon
+} from '@mui/icons-material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { AdapterDayjs } from '@mui/x-date-pickers/AdapterDayjs';
+import dayjs, { Dayjs } from 'dayjs';
+import { CurrencyCode, RecurringTransaction, RecurrenceFrequency } from '../shared-types';
+
+// Recurring rule with an id for client-side management, like the one-off transactions
+export interface RecurringRule extends RecurringTransaction {
+  id: string;
+}
+
+export const newRuleId = () => Date.now().toString() + Math.random().toString(36).substr(2, 9);
+
+// The rule as the calculation request expects it
+export const toRecurringTransaction = (rule: RecurringRule): RecurringTransaction => ({
+  type: rule.type,
+  amount: rule.amount,
+  frequency: rule.frequency,
+  startDate: rule.startDate,
+  ...(rule.endDate && { endDate: rule.endDate }),
+  ...(rule.annualStepUp && { annualStepUp: rule.annualStepUp }),
+  ...(rule.currency && { currency: rule.currency })
+});
+
+interface RecurringRulesCardProps {
+  rules: RecurringRule[];
+  onRulesChange: (rules: RecurringRule[]) => void;
+  // Lists the rules without letting them be added, edited or deleted
+  readOnly?: boolean;
+}
+
+const FREQUENCY_LABELS: { [frequency in RecurrenceFrequency]: string } = {
+  weekly: 'Weekly',
+  biweekly: 'Every 2 weeks',
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  annual: 'Annually'
+};
+
+interface RuleForm {
+  type: 'deposit' | 'withdrawal';
+  amount: string;
+  frequency: RecurrenceFrequency;
+  startDate: Dayjs | null;
+  endDate: Dayjs | null;
+  // Percent, as typed
+  annualStepUp: string;
+}
+
+const emptyForm = (): RuleForm => ({
+  type: 'deposit',
+  amount: '',
+  frequency: 'monthly',
+  startDate: dayjs().startOf('month'),
+  endDate: null,
+  annualStepUp: ''
+});
+
+const formatCurrency = (value: number, currency: CurrencyCode = 'USD') => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0
+  }).format(value);
+};
+
+const describeRule = (rule: RecurringRule): string => {
+  const period = `${dayjs(rule.startDate).format('MMM YYYY')} – ${rule.endDate ? dayjs(rule.endDate).format('MMM YYYY') : 'ongoing'}`;
+  const stepUp = rule.annualStepUp ? ` · +${(rule.annualStepUp * 100).toFixed(1)}%/yr` : '';
+  return `${FREQUENCY_LABELS[rule.frequency]} · ${period}${stepUp}`;
+};
+
+const RecurringRulesCard: React.FC<RecurringRulesCardProps> = ({ rules, onRulesChange, readOnly = false }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<RuleForm>(emptyForm);
+
+  const openNew = () => {
+    setEditingId(null);
+    setForm(emptyForm());
+    setDialogOpen(true);
+  };
+
+  const openEdit = (rule: RecurringRule) => {
+    setEditingId(rule.id);
+    setForm({
+      type: rule.type,
+      amount: rule.amount.toString(),
+      frequency: rule.frequency,
+      startDate: dayjs(rule.startDate),
+      endDate: rule.endDate ? dayjs(rule.endDate) : null,
+      annualStepUp: rule.annualStepUp ? (rule.annualStepUp * 100).toString() : ''
+    });
+    setDialogOpen(true);
+  };
+
+  const amount = parseFloat(form.amount);
+  const stepUp = form.annualStepUp === '' ? 0 : parseFloat(form.annualStepUp);
+  const isValid = amount > 0 &&
+    !!form.startDate?.isValid() &&
+    (!form.endDate || (form.endDate.isValid() && !form.endDate.isBefore(form.startDate))) &&
+    !isNaN(stepUp) && stepUp > -100;
+
+  const saveRule = () => {
+    if (!isValid || !form.startDate) {
+      return;
+    }
+    // An edited rule keeps the currency it was entered in
+    const currency = rules.find(existing => existing.id === editingId)?.currency;
+    const rule: RecurringRule = {
+      id: editingId || newRuleId(),
+      type: form.type,
+      amount,
+      frequency: form.frequency,
+      startDate: form.startDate.format('YYYY-MM-DD'),
+      ...(form.endDate && { endDate: form.endDate.format('YYYY-MM-DD') }),
+      ...(stepUp !== 0 && { annualStepUp: stepUp / 100 }),
+      ...(currency && { currency })
+    };
+    onRulesChange(editingId ? rules.map(existing => (existing.id === editingId ? rule : existing)) : [...rules, rule]);
+    setDialogOpen(false);
+  };
+
+  return (
+    <LocalizationProvider dateAdapter={AdapterDayjs}>
+      <Card sx={{ p: { xs: 2, sm: 3 }, height: 'fit-content' }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+          <Typography variant="h3" sx={{ color: 'text.primary', fontSize: { xs: '1rem', sm: '1.25rem' } }}>
+            Recurring ({rules.length})
+          </Typography>
+          {!readOnly && (
+            <Button variant="outlined" size="small" startIcon={<AddIcon />} onClick={openNew}>
+              Add Rule
+            </Button>
+          )}
+        </Box>
+
+        {rules.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            {readOnly ? 'No recurring rules' : 'Add a rule such as $500 every month instead of entering each deposit by hand'}
+          </Typography>
+        ) : (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+            {rules.map(rule => (
+              <Box
+                key={rule.id}
+                sx={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: 1.5,
+                  p: 1.5,
+                  bgcolor: 'grey.50',
+                  borderRadius: 2
+                }}
+              >
+                <RepeatIcon fontSize="small" sx={{ color: rule.type === 'deposit' ? 'success.main' : 'error.main' }} />
+                <Box sx={{ flex: 1, minWidth: 0 }}>
+                  <Typography variant="body2" sx={{ fontWeight: 600, color: rule.type === 'deposit' ? 'success.main' : 'error.main' }}>
+                    {rule.type === 'deposit' ? '+' : '-'}{formatCurrency(rule.amount, rule.currency)}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary" noWrap component="div">
+                    {describeRule(rule)}
+                  </Typography>
+                </Box>
+                {!readOnly && (
+                  <>
+                    <IconButton size="small" onClick={() => openEdit(rule)} title="Edit rule">
+                      <EditIcon fontSize="small" />
+                    </IconButton>
+                    <IconButton
+                      size="small"
+                      onClick={() => onRulesChange(rules.filter(existing => existing.id !== rule.id))}
+                      title="Delete rule"
+                      sx={{ color: 'error.main' }}
+                    >
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </>
+                )}
+              </Box>
+            ))}
+          </Box>
+        )}
+
+        <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="xs" fullWidth>
+          <DialogTitle>{editingId ? 'Edit Recurring Rule' : 'New Recurring Rule'}</DialogTitle>
+          <DialogContent>
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+              <Box sx={{ display: 'flex', gap: 2 }}>
+                <FormControl fullWidth size="small">
+                  <InputLabel>Type</InputLabel>
+                  <Select
+                    value={form.type}
+                    label="Type"
+                    onChange={(e) => setForm({ ...form, type: e.target.value as 'deposit' | 'withdrawal' })}
+                  >
+                    <MenuItem value="deposit">Deposit</MenuItem>
+                    <MenuItem value="withdrawal">Withdrawal</MenuItem>
+                  </Select>
+                </FormControl>
+                <TextField
+                  label="Amount"
+                  type="number"
+                  value={form.amount}
+                  onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                  fullWidth
+                  size="small"
+                  InputProps={{
+                    startAdornment: <InputAdornment position="start">$</InputAdornment>,
+                  }}
+                  inputProps={{ min: 0, step: 100 }}
+                />
+              </Box>
+              <Box sx={{ display: 'flex', gap: 2 }}>
+                <FormControl fullWidth size="small">
+                  <InputLabel>Frequency</InputLabel>
+                  <Select
+                    value={form.frequency}
+                    label="Frequency"
+                    onChange={(e) => setForm({ ...form, frequency: e.target.value as RecurrenceFrequency })}
+                  >
+                    {(Object.keys(FREQUENCY_LABELS) as RecurrenceFrequency[]).map(frequency => (
+                      <MenuItem key={frequency} value={frequency}>{FREQUENCY_LABELS[frequency]}</MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+                <TextField
+                  label="Annual step-up"
+                  type="number"
+                  value={form.annualStepUp}
+                  onChange={(e) => setForm({ ...form, annualStepUp: e.target.value })}
+                  fullWidth
+                  size="small"
+                  InputProps={{
+                    endAdornment: <InputAdornment position="end">%</InputAdornment>,
+                  }}
+                  inputProps={{ step: 0.5 }}
+                />
+              </Box>
+              <Box sx={{ display: 'flex', gap: 2 }}>
+                <DatePicker
+                  label="Start"
+                  value={form.startDate}
+                  onChange={(newValue) => setForm({ ...form, startDate: newValue })}
+                  minDate={dayjs('1990-01-01')}
+                  slotProps={{ textField: { fullWidth: true, size: 'small' } }}
+                />
+                <DatePicker
+                  label="End (optional)"
+                  value={form.endDate}
+                  onChange={(newValue) => setForm({ ...form, endDate: newValue })}
+                  minDate={form.startDate || undefined}
+                  slotProps={{
+                    textField: { fullWidth: true, size: 'small' },
+                    field: { clearable: true }
+                  }}
+                />
+              </Box>
+            </Box>
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button variant="contained" onClick={saveRule} disabled={!isValid}>
+              {editingId ? 'Save' : 'Add'}
+            </Button>
+          </DialogActions>
+        </Dialog>
+      </Card>
+    </LocalizationProvider>
+  );
+};
+
+export default RecurringRulesCard;
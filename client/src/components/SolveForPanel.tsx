@@ -0,0 +1,231 @@
+import React, { useState } from 'react';
+import axios from 'axios';
+import {
+  Box,
+  Card,
+  Typography,
+  TextField,
+  Button,
+  Select,
+  MenuItem,
+  FormControl,
+  InputLabel,
+  InputAdornment,
+  Alert
+} from '@mui/material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { AdapterDayjs } from '@mui/x-date-pickers/AdapterDayjs';
+import dayjs, { Dayjs } from 'dayjs';
+import { Transaction, RecurringTransaction, CurrencyCode, SolveFor, SolveRequest, SolveResult } from '../shared-types';
+
+interface SolveForPanelProps {
+  transactions: Transaction[];
+  recurringTransactions: RecurringTransaction[];
+  // Date of the first transaction or rule; the solve starts today when there is none
+  startDate?: string;
+  marketIndex: string;
+  // Currency the target is in and the result is reported in; transactions may carry their own
+  currency: CurrencyCode;
+}
+
+const SOLVE_FOR_LABELS: { [key in SolveFor]: string } = {
+  contribution: 'Monthly deposit',
+  annualReturn: 'Annual return',
+  targetDate: 'Target date'
+};
+
+const formatCurrency = (value: number, currency: CurrencyCode) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0
+  }).format(value);
+};
+
+const SolveForPanel: React.FC<SolveForPanelProps> = ({ transactions, recurringTransactions, startDate, marketIndex, currency }) => {
+  const [solveFor, setSolveFor] = useState<SolveFor>('contribution');
+  const [targetValue, setTargetValue] = useState('1000000');
+  const [endDate, setEndDate] = useState<Dayjs | null>(dayjs().add(20, 'year'));
+  const [monthlyDeposit, setMonthlyDeposit] = useState('500');
+  const [result, setResult] = useState<SolveResult | null>(null);
+  // The end date the current result was solved for, so later edits don't relabel it
+  const [solvedBy, setSolvedBy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [solving, setSolving] = useState(false);
+
+  const target = parseFloat(targetValue);
+  const needsEndDate = solveFor !== 'targetDate';
+  const canSolve = target > 0 && (!needsEndDate || !!endDate?.isValid()) && !solving;
+  const currencySymbol = formatCurrency(0, currency).replace(/[\d\s.,]/g, '');
+
+  const handleSolve = async () => {
+    const today = dayjs().format('YYYY-MM-DD');
+    const request: SolveRequest = {
+      solveFor,
+      targetValue: target,
+      initialAmount: 0,
+      transactions: transactions.map(({ date, amount, type, currency }) => ({ date, amount, type, currency })),
+      recurringTransactions,
+      // Past transactions stay as they are; the recurring deposit starts today
+      startDate: startDate && startDate < today ? startDate : today,
+      contributionStartDate: today,
+      contributionPlan: {
+        amount: solveFor === 'contribution' ? 0 : parseFloat(monthlyDeposit) || 0,
+        frequency: 'monthly'
+      },
+      marketIndex,
+      reportingCurrency: currency,
+      ...(needsEndDate && endDate && { endDate: endDate.format('YYYY-MM-DD') })
+    };
+
+    setSolving(true);
+    setError(null);
+    try {
+      const response = await axios.post('/api/solve', request);
+      setResult(response.data);
+      setSolvedBy(request.endDate ? dayjs(request.endDate).format('MMM YYYY') : null);
+    } catch (err: any) {
+      console.error('Error solving for target:', err);
+      setResult(null);
+      setError(err.response?.data?.error || 'Solve failed. Please try again.');
+    } finally {
+      setSolving(false);
+    }
+  };
+
+  const describeResult = (solved: SolveResult): string => {
+    const goal = formatCurrency(solved.targetValue, solved.reportingCurrency);
+    const by = solvedBy || '';
+    if (!solved.reachable) {
+      return solved.solveFor === 'targetDate'
+        ? `${goal} is not reached within 100 years`
+        : `${goal} is out of reach by ${by}`;
+    }
+    switch (solved.solveFor) {
+      case 'contribution':
+        return `Deposit ${formatCurrency(solved.contributionAmount ?? 0, solved.reportingCurrency)} a month to reach ${goal} by ${by}`;
+      case 'annualReturn':
+        return `A constant ${solved.annualReturn?.toFixed(2)}% annual return reaches ${goal} by ${by}`;
+      default:
+        return `${goal} is reached by ${dayjs(solved.targetDate).format('MMM YYYY')}`;
+    }
+  };
+
+  return (
+    <LocalizationProvider dateAdapter={AdapterDayjs}>
+      <Card sx={{ p: 3, mt: 3 }}>
+        {/* Header */}
+        <Box sx={{ mb: 2 }}>
+          <Typography variant="h3" sx={{ color: 'text.primary', mb: 1 }}>
+            Solve for…
+          </Typography>
+          <Typography variant="body1" color="text.secondary">
+            Find the deposit, return or date that gets your portfolio to a target value
+          </Typography>
+        </Box>
+
+        <Box sx={{
+          p: { xs: 2, sm: 3 },
+          bgcolor: 'grey.50',
+          borderRadius: 2,
+          mb: 2
+        }}>
+          <Box sx={{
+            display: 'flex',
+            flexWrap: 'wrap',
+            gap: { xs: 1.5, sm: 2 },
+            alignItems: 'end'
+          }}>
+            <Box sx={{ flex: '1 1 160px' }}>
+              <FormControl fullWidth size="small">
+                <InputLabel>Solve for</InputLabel>
+                <Select
+                  value={solveFor}
+                  label="Solve for"
+                  onChange={(e) => {
+                    setSolveFor(e.target.value as SolveFor);
+                    setResult(null);
+                  }}
+                >
+                  {(Object.keys(SOLVE_FOR_LABELS) as SolveFor[]).map(key => (
+                    <MenuItem key={key} value={key}>{SOLVE_FOR_LABELS[key]}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Box>
+            <Box sx={{ flex: '1 1 160px' }}>
+              <TextField
+                label="Target value"
+                type="number"
+                value={targetValue}
+                onChange={(e) => setTargetValue(e.target.value)}
+                fullWidth
+                size="small"
+                InputProps={{
+                  startAdornment: <InputAdornment position="start">{currencySymbol}</InputAdornment>,
+                }}
+                inputProps={{ min: 0, step: 1000 }}
+              />
+            </Box>
+            {needsEndDate && (
+              <Box sx={{ flex: '1 1 160px' }}>
+                <DatePicker
+                  label="By"
+                  value={endDate}
+                  onChange={(newValue) => setEndDate(newValue)}
+                  minDate={dayjs().add(1, 'month')}
+                  slotProps={{
+                    textField: {
+                      fullWidth: true,
+                      size: 'small'
+                    }
+                  }}
+                />
+              </Box>
+            )}
+            {solveFor !== 'contribution' && (
+              <Box sx={{ flex: '1 1 160px' }}>
+                <TextField
+                  label="Monthly deposit"
+                  type="number"
+                  value={monthlyDeposit}
+                  onChange={(e) => setMonthlyDeposit(e.target.value)}
+                  fullWidth
+                  size="small"
+                  InputProps={{
+                    startAdornment: <InputAdornment position="start">{currencySymbol}</InputAdornment>,
+                  }}
+                  inputProps={{ min: 0, step: 100 }}
+                />
+              </Box>
+            )}
+            <Box sx={{ flex: '0 0 auto' }}>
+              <Button
+                variant="contained"
+                onClick={handleSolve}
+                disabled={!canSolve}
+                size="small"
+                sx={{ height: 40, minWidth: '120px' }}
+              >
+                {solving ? 'Solving…' : 'Solve'}
+              </Button>
+            </Box>
+          </Box>
+        </Box>
+
+        {error && (
+          <Alert severity="error">{error}</Alert>
+        )}
+        {result && !error && (
+          <Alert severity={result.reachable ? 'success' : 'warning'}>
+            {describeResult(result)}
+          </Alert>
+        )}
+      </Card>
+    </LocalizationProvider>
+  );
+};
+
+export default SolveForPanel;
@@ -0,0 +1,101 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import axios from 'axios';
+import { AuthSession, Credentials, User } from '../shared-types';
+
+const AUTH_TOKEN_KEY = 'wealth-metrics-auth-token';
+
+interface AuthContextValue {
+  // Null while signed out or until a saved session has been checked
+  user: User | null;
+  // True while a saved session is being checked
+  loading: boolean;
+  login: (credentials: Credentials) => Promise<void>;
+  register: (credentials: Credentials) => Promise<void>;
+  logout: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue | undefined>(undefined);
+
+// Every API request carries the session token once signed in
+function applyToken(token: string | null) {
+  if (token) {
+    localStorage.setItem(AUTH_TOKEN_KEY, token);
+    axios.defaults.headers.common.Authorization = `Bearer ${token}`;
+  } else {
+    localStorage.removeItem(AUTH_TOKEN_KEY);
+    delete axios.defaults.headers.common.Authorization;
+  }
+}
+
+export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [user, setUser] = useState<User | null>(null);
+  // A token saved by an earlier visit is applied before the first request goes out
+  const [savedToken] = useState(() => {
+    const token = localStorage.getItem(AUTH_TOKEN_KEY);
+    applyToken(token);
+    return token;
+  });
+  const [loading, setLoading] = useState(!!savedToken);
+
+  const clearSession = useCallback(() => {
+    applyToken(null);
+    setUser(null);
+  }, []);
+
+  useEffect(() => {
+    if (!savedToken) {
+      return;
+    }
+    axios.get<User>('/api/auth/me')
+      .then(response => setUser(response.data))
+      .catch(() => clearSession())
+      .then(() => setLoading(false));
+  }, [savedToken, clearSession]);
+
+  // A session that expires or is signed out elsewhere sends the user back to the login page
+  useEffect(() => {
+    const interceptor = axios.interceptors.response.use(undefined, error => {
+      if (error.response?.status === 401 && !error.config?.url?.startsWith('/api/auth/')) {
+        clearSession();
+      }
+      return Promise.reject(error);
+    });
+    return () => axios.interceptors.response.eject(interceptor);
+  }, [clearSession]);
+
+  const startSession = useCallback((session: AuthSession) => {
+    applyToken(session.token);
+    setUser(session.user);
+  }, []);
+
+  const login = useCallback(async (credentials: Credentials) => {
+    const { data } = await axios.post<AuthSession>('/api/auth/login', credentials);
+    startSession(data);
+  }, [startSession]);
+
+  const register = useCallback(async (credentials: Credentials) => {
+    const { data } = await axios.post<AuthSession>('/api/auth/register', credentials);
+    startSession(data);
+  }, [startSession]);
+
+  const logout = useCallback(async () => {
+    try {
+      await axios.post('/api/auth/logout');
+    } catch (error) {
+      console.error('Error signing out:', error);
+    }
+    clearSession();
+  }, [clearSession]);
+
+  const value = useMemo(() => ({ user, loading, login, register, logout }), [user, loading, login, register, logout]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+export function useAuth(): AuthContextValue {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used inside an AuthProvider');
+  }
+  return context;
+}
@@ -0,0 +1,166 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import axios from 'axios';
+import { AccountType, PortfolioRequest, PortfolioSummary } from '../shared-types';
+import { useAuth } from './AuthContext';
+
+// Selection value for the view that combines every portfolio
+export const ALL_PORTFOLIOS = 'all';
+
+export const ACCOUNT_TYPE_LABELS: { [type in AccountType]: string } = {
+  taxable: 'Taxable',
+  ira: 'IRA',
+  'roth-ira': 'Roth IRA',
+  '401k': '401(k)',
+  other: 'Other'
+};
+
+const SELECTED_PORTFOLIO_KEY = 'wealth-metrics-selected-portfolio';
+// Where transactions and recurring rules lived before portfolios moved to the server
+const LEGACY_TRANSACTIONS_KEY = 'compound-calculator-transactions';
+const LEGACY_RECURRING_RULES_KEY = 'compound-calculator-recurring-rules';
+
+interface PortfolioContextValue {
+  portfolios: PortfolioSummary[];
+  // A portfolio id or ALL_PORTFOLIOS; null until the list has loaded
+  selectedPortfolioId: string | null;
+  selectedPortfolio: PortfolioSummary | null;
+  loading: boolean;
+  error: string | null;
+  selectPortfolio: (id: string) => void;
+  refreshPortfolios: () => Promise<void>;
+  createPortfolio: (request: PortfolioRequest) => Promise<PortfolioSummary>;
+  updatePortfolio: (id: string, request: PortfolioRequest) => Promise<PortfolioSummary>;
+  deletePortfolio: (id: string) => Promise<void>;
+}
+
+const PortfolioContext = createContext<PortfolioContextValue | undefined>(undefined);
+
+// For an account with no portfolios yet, moves any transactions and recurring rules saved in this
+// browser into a first portfolio so nothing entered before is lost
+async function createFirstPortfolio(): Promise<PortfolioSummary> {
+  const { data: portfolio } = await axios.post<PortfolioSummary>('/api/portfolios', { name: 'My Portfolio' });
+  try {
+    const saved = localStorage.getItem(LEGACY_TRANSACTIONS_KEY);
+    const legacy: any[] = saved ? JSON.parse(saved) : [];
+    if (legacy.length > 0) {
+      await axios.put(`/api/portfolios/${portfolio.id}/transactions`, legacy.map(({ date, amount, type, description }) => ({
+        date: new Date(date).toISOString().split('T')[0],
+        amount,
+        type,
+        ...(description && { description })
+      })));
+    }
+    localStorage.removeItem(LEGACY_TRANSACTIONS_KEY);
+  } catch (error) {
+    console.error('Error moving saved transactions to the server:', error);
+  }
+  try {
+    const saved = localStorage.getItem(LEGACY_RECURRING_RULES_KEY);
+    const legacy: any[] = saved ? JSON.parse(saved) : [];
+    if (legacy.length > 0) {
+      await axios.put(`/api/portfolios/${portfolio.id}/recurring-rules`, legacy.map(({ id, ...rule }) => rule));
+    }
+    localStorage.removeItem(LEGACY_RECURRING_RULES_KEY);
+  } catch (error) {
+    console.error('Error moving saved recurring rules to the server:', error);
+  }
+  const { data } = await axios.get<PortfolioSummary>(`/api/portfolios/${portfolio.id}`);
+  return data;
+}
+
+// The signed-in user's portfolios; empty while signed out
+export const PortfolioProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [portfolios, setPortfolios] = useState<PortfolioSummary[]>([]);
+  const [selectedPortfolioId, setSelectedPortfolioId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Shared by overlapping loads so only one first portfolio is ever created
+  const firstPortfolioRef = useRef<Promise<PortfolioSummary> | null>(null);
+
+  const selectPortfolio = useCallback((id: string) => {
+    setSelectedPortfolioId(id);
+    localStorage.setItem(SELECTED_PORTFOLIO_KEY, id);
+  }, []);
+
+  const refreshPortfolios = useCallback(async () => {
+    try {
+      const { data } = await axios.get<PortfolioSummary[]>('/api/portfolios');
+      if (data.length === 0 && !firstPortfolioRef.current) {
+        firstPortfolioRef.current = createFirstPortfolio().catch(error => {
+          // Forget the failed attempt so the next load tries again
+          firstPortfolioRef.current = null;
+          throw error;
+        });
+      }
+      const list = data.length > 0 ? data : [await firstPortfolioRef.current as PortfolioSummary];
+      setPortfolios(list);
+      setError(null);
+      // Keep the current selection while it still exists, else fall back to the remembered one or the first
+      setSelectedPortfolioId(current => {
+        const remembered = current || localStorage.getItem(SELECTED_PORTFOLIO_KEY);
+        return remembered === ALL_PORTFOLIOS || list.some(portfolio => portfolio.id === remembered)
+          ? remembered
+          : list[0].id;
+      });
+    } catch (err) {
+      console.error('Error loading portfolios:', err);
+      setError('Failed to load portfolios');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!user) {
+      setPortfolios([]);
+      setSelectedPortfolioId(null);
+      setLoading(false);
+      firstPortfolioRef.current = null;
+      return;
+    }
+    setLoading(true);
+    refreshPortfolios();
+  }, [user, refreshPortfolios]);
+
+  const createPortfolio = useCallback(async (request: PortfolioRequest) => {
+    const { data } = await axios.post<PortfolioSummary>('/api/portfolios', request);
+    await refreshPortfolios();
+    selectPortfolio(data.id);
+    return data;
+  }, [refreshPortfolios, selectPortfolio]);
+
+  const updatePortfolio = useCallback(async (id: string, request: PortfolioRequest) => {
+    const { data } = await axios.put<PortfolioSummary>(`/api/portfolios/${id}`, request);
+    await refreshPortfolios();
+    return data;
+  }, [refreshPortfolios]);
+
+  const deletePortfolio = useCallback(async (id: string) => {
+    await axios.delete(`/api/portfolios/${id}`);
+    await refreshPortfolios();
+  }, [refreshPortfolios]);
+
+  const value = useMemo(() => ({
+    portfolios,
+    selectedPortfolioId,
+    selectedPortfolio: portfolios.find(portfolio => portfolio.id === selectedPortfolioId) || null,
+    loading,
+    error,
+    selectPortfolio,
+    refreshPortfolios,
+    createPortfolio,
+    updatePortfolio,
+    deletePortfolio
+  }), [portfolios, selectedPortfolioId, loading, error, selectPortfolio, refreshPortfolios, createPortfolio, updatePortfolio, deletePortfolio]);
+
+  return <PortfolioContext.Provider value={value}>{children}</PortfolioContext.Provider>;
+};
+
+export function usePortfolios(): PortfolioContextValue {
+  const context = useContext(PortfolioContext);
+  if (!context) {
+    throw new Error('usePortfolios must be used inside a PortfolioProvider');
+  }
+  return context;
+}
@@ -2,12 +2,23 @@ import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import axios from 'axios';
 import CompoundCalculatorMUI from '../components/CompoundCalculatorMUI';
 import InteractiveChart from '../components/InteractiveChart';
+import SolveForPanel from '../components/SolveForPanel';
+import RecurringRulesCard, { RecurringRule, newRuleId, toRecurringTransaction } from '../components/RecurringRulesCard';
 import {
   Transaction as SharedTransaction,
   CalculationResult,
+  BatchCalculationItem,
+  BatchCalculationResult,
   MarketDataResponse as MarketData,
-  MarketIndexInfo as MarketIndex
+  MarketIndexInfo as MarketIndex,
+  CurrencyCode,
+  CurrencyHedging,
+  MarketIndexCategory,
+  PortfolioTransaction,
+  PortfolioTransactionRequest,
+  RecurringTransaction
 } from '../shared-types';
+import { ALL_PORTFOLIOS, usePortfolios } from '../context/PortfolioContext';
 import { ThemeProvider, createTheme } from '@mui/material/styles';
 import { useRef } from 'react';
 import { 
@@ -20,7 +31,13 @@ import {
   IconButton,
   Chip,
   Skeleton,
-  Checkbox
+  Checkbox,
+  Select,
+  MenuItem,
+  FormControl,
+  InputLabel,
+  FormControlLabel,
+  ListSubheader
 } from '@mui/material';
 import {
   TrendingUp as TrendingUpIcon,
@@ -149,6 +166,27 @@ interface Transaction extends SharedTransaction {
   description?: string;
 }
 
+// The transaction as the portfolio stores it; amounts are already in the portfolio's base currency
+const toPortfolioTransaction = (transaction: Transaction): PortfolioTransactionRequest => ({
+  id: transaction.id,
+  date: transaction.date,
+  amount: transaction.amount,
+  type: transaction.type,
+  ...(transaction.description && { description: transaction.description })
+});
+
+// A rule as the portfolio stores it, in the portfolio's base currency
+const toPortfolioRecurringRule = ({ currency, ...rule }: RecurringRule): RecurringTransaction => toRecurringTransaction(rule);
+
+// Index picker groups, in display order
+const INDEX_CATEGORY_LABELS: Record<MarketIndexCategory, string> = {
+  equity: 'Equities',
+  bond: 'Bonds',
+  cash: 'Cash',
+  alternative: 'Alternatives',
+  'multi-asset': 'Multi-asset'
+};
+
 // Legacy interface for backward compatibility
 interface SP500Data {
   averageReturn: number;
@@ -162,18 +200,26 @@ interface SP500Data {
 
 const CompoundCalculatorPage: React.FC = () => {
   const [calculationResult, setCalculationResult] = useState<CalculationResult | null>(null);
+  // The same cash flows invested in each of the other selected indices
+  const [comparisonResults, setComparisonResults] = useState<BatchCalculationItem[]>([]);
   const [loading, setLoading] = useState(false);
   const [initialLoading, setInitialLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [transactions, setTransactions] = useState<Transaction[]>(() => {
-    try {
-      const savedTransactions = localStorage.getItem('compound-calculator-transactions');
-      return savedTransactions ? JSON.parse(savedTransactions) : [];
-    } catch (error) {
-      console.error('Error loading transactions from localStorage:', error);
-      return [];
-    }
-  });
+  const { portfolios, selectedPortfolioId } = usePortfolios();
+  // Every portfolio's transactions together, each in its own currency; read-only
+  const isCombinedView = selectedPortfolioId === ALL_PORTFOLIOS;
+  // The selected portfolio's transactions, or every portfolio's in the combined view
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  // The portfolio the list was loaded from and the list as last sent to the server, so that only
+  // edits are saved back; null while loading and in the combined view
+  const loadedTransactionsRef = useRef<{ portfolioId: string; serialized: string } | null>(null);
+  // Saves go out one after another so an older list never lands after a newer one
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
+  // The selected portfolio's recurring rules, or every portfolio's in the combined view, each
+  // tagged with its portfolio's currency
+  const [recurringRules, setRecurringRules] = useState<RecurringRule[]>([]);
+  // As loadedTransactionsRef, for the recurring rules
+  const loadedRulesRef = useRef<{ portfolioId: string; serialized: string } | null>(null);
   const [sp500Data, setSP500Data] = useState<SP500Data | undefined>(undefined);
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
   
@@ -182,7 +228,20 @@ const CompoundCalculatorPage: React.FC = () => {
   const [selectedIndices, setSelectedIndices] = useState<string[]>(['sp500']); // Default to S&P 500
   const [marketDataCache, setMarketDataCache] = useState<Record<string, MarketData>>({});
   const [primaryIndex, setPrimaryIndex] = useState<string>('sp500'); // For calculations
+  // Cash flows are entered and results reported in this currency
+  const [reportingCurrency, setReportingCurrency] = useState<CurrencyCode>('USD');
+  const [currencyHedging, setCurrencyHedging] = useState<CurrencyHedging>('unhedged');
+  // Index or stored benchmark the portfolio is measured against; empty for none
+  const [benchmark, setBenchmark] = useState<string>('');
   const hasCalculatedRef = useRef(false);
+
+  // Available indices grouped by asset class, leaving out empty groups
+  const indexGroups = useMemo(() => (Object.keys(INDEX_CATEGORY_LABELS) as MarketIndexCategory[])
+    .map(category => ({
+      category,
+      indices: availableIndices.filter(index => (index.category || 'equity') === category)
+    }))
+    .filter(group => group.indices.length > 0), [availableIndices]);
   
   // Bulk delete functionality
   const [selectedTransactionIds, setSelectedTransactionIds] = useState<Set<string>>(new Set());
@@ -205,20 +264,117 @@ const CompoundCalculatorPage: React.FC = () => {
   const formatCurrency = useCallback((value: number): string => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'USD',
+      currency: reportingCurrency,
       minimumFractionDigits: 0,
       maximumFractionDigits: 0,
     }).format(value);
-  }, []);
+  }, [reportingCurrency]);
+
+  // Prefix for amounts shown with their cents
+  const currencySymbol = useMemo(() => formatCurrency(0).replace(/[\d\s.,]/g, ''), [formatCurrency]);
 
-  // Save transactions to localStorage whenever they change
+  // Load the selected portfolio's transactions and recurring rules, or every portfolio's for the
+  // combined view, and calculate a single portfolio with its own default index and currency
   useEffect(() => {
-    try {
-      localStorage.setItem('compound-calculator-transactions', JSON.stringify(transactions));
-    } catch (error) {
-      console.error('Error saving transactions to localStorage:', error);
+    if (!selectedPortfolioId) {
+      return;
     }
-  }, [transactions]);
+    let cancelled = false;
+    loadedTransactionsRef.current = null;
+    loadedRulesRef.current = null;
+    const sources = isCombinedView ? portfolios : portfolios.filter(portfolio => portfolio.id === selectedPortfolioId);
+
+    Promise.all(sources.map(portfolio => Promise.all([
+      axios.get<PortfolioTransaction[]>(`/api/portfolios/${portfolio.id}/transactions`).then(response =>
+        response.data.map((transaction): Transaction => ({
+          id: transaction.id,
+          date: transaction.date,
+          amount: transaction.amount,
+          type: transaction.type,
+          ...(transaction.description && { description: transaction.description }),
+          currency: portfolio.baseCurrency
+        }))
+      ),
+      axios.get<RecurringTransaction[]>(`/api/portfolios/${portfolio.id}/recurring-rules`).then(response =>
+        response.data.map((rule): RecurringRule => ({ ...rule, id: newRuleId(), currency: portfolio.baseCurrency }))
+      )
+    ])))
+      .then(lists => {
+        if (cancelled) {
+          return;
+        }
+        const loaded = lists
+          .reduce((all, [list]) => all.concat(list), [] as Transaction[])
+          .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+        const loadedRules = lists.reduce((all, [, rules]) => all.concat(rules), [] as RecurringRule[]);
+        if (!isCombinedView && sources.length === 1) {
+          loadedTransactionsRef.current = {
+            portfolioId: sources[0].id,
+            serialized: JSON.stringify(loaded.map(toPortfolioTransaction))
+          };
+          loadedRulesRef.current = {
+            portfolioId: sources[0].id,
+            serialized: JSON.stringify(loadedRules.map(toPortfolioRecurringRule))
+          };
+          setReportingCurrency(sources[0].baseCurrency);
+          setPrimaryIndex(sources[0].marketIndex);
+          setSelectedIndices(prev => (prev.includes(sources[0].marketIndex) ? prev : [...prev, sources[0].marketIndex]));
+        }
+        setTransactions(loaded);
+        setRecurringRules(loadedRules);
+        setSelectedTransactionIds(new Set());
+        setIsSelectMode(false);
+      })
+      .catch(err => {
+        console.error('Error loading portfolio transactions:', err);
+        setError('Failed to load portfolio transactions.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedPortfolioId, isCombinedView, portfolios]);
+
+  // Save edits back to the portfolio they were made in
+  useEffect(() => {
+    const loaded = loadedTransactionsRef.current;
+    if (!loaded || loaded.portfolioId !== selectedPortfolioId) {
+      return;
+    }
+    const body = transactions.map(toPortfolioTransaction);
+    const serialized = JSON.stringify(body);
+    if (serialized === loaded.serialized) {
+      return;
+    }
+    loaded.serialized = serialized;
+    saveQueueRef.current = saveQueueRef.current
+      .then(() => axios.put(`/api/portfolios/${loaded.portfolioId}/transactions`, body))
+      .then(() => undefined)
+      .catch(err => {
+        console.error('Error saving portfolio transactions:', err);
+        setError('Failed to save transactions. Please try again.');
+      });
+  }, [transactions, selectedPortfolioId]);
+
+  useEffect(() => {
+    const loaded = loadedRulesRef.current;
+    if (!loaded || loaded.portfolioId !== selectedPortfolioId) {
+      return;
+    }
+    const body = recurringRules.map(toPortfolioRecurringRule);
+    const serialized = JSON.stringify(body);
+    if (serialized === loaded.serialized) {
+      return;
+    }
+    loaded.serialized = serialized;
+    saveQueueRef.current = saveQueueRef.current
+      .then(() => axios.put(`/api/portfolios/${loaded.portfolioId}/recurring-rules`, body))
+      .then(() => undefined)
+      .catch(err => {
+        console.error('Error saving recurring rules:', err);
+        setError('Failed to save recurring rules. Please try again.');
+      });
+  }, [recurringRules, selectedPortfolioId]);
 
 
 
@@ -243,11 +399,14 @@ const CompoundCalculatorPage: React.FC = () => {
     endDate: string;
   }, marketIndex: string) => {
     const transactionHash = formData.transactions
-      .map(t => `${t.date}-${t.amount}-${t.type}`)
+      .map(t => `${t.date}-${t.amount}-${t.type}-${t.currency}`)
       .sort()
       .join('|');
-    return `${formData.initialAmount}-${transactionHash}-${formData.startDate}-${formData.endDate}-${marketIndex}`;
-  }, []);
+    const ruleHash = recurringRules
+      .map(rule => `${rule.startDate}-${rule.endDate}-${rule.frequency}-${rule.amount}-${rule.annualStepUp}-${rule.type}`)
+      .join('|');
+    return `${formData.initialAmount}-${transactionHash}-${ruleHash}-${formData.startDate}-${formData.endDate}-${marketIndex}-${reportingCurrency}-${currencyHedging}-${benchmark}`;
+  }, [recurringRules, reportingCurrency, currencyHedging, benchmark]);
   
   // Check if market data cache is valid
   const isMarketDataCacheValid = useCallback((index: string) => {
@@ -279,16 +438,9 @@ const CompoundCalculatorPage: React.FC = () => {
       const response = await axios.get('/api/market-indices');
       setAvailableIndices(response.data);
     } catch (err) {
+      // The catalog includes custom series and benchmarks, so there is no copy to fall back on;
+      // the index picker stays hidden and calculations use the default index
       console.error('Error fetching market indices:', err);
-      // Set fallback data (must match server MARKET_INDICES exactly)
-      setAvailableIndices([
-        { id: 'sp500', name: 'S&P 500', averageReturn: 0.10 },
-        { id: 'nasdaq', name: 'NASDAQ', averageReturn: 0.115 },
-        { id: 'dow', name: 'Dow Jones', averageReturn: 0.095 },
-        { id: 'russell2000', name: 'Russell 2000', averageReturn: 0.092 },
-        { id: 'ftse100', name: 'FTSE 100', averageReturn: 0.075 },
-        { id: 'nikkei225', name: 'Nikkei 225', averageReturn: 0.085 }
-      ]);
     }
   };
 
@@ -439,6 +591,10 @@ const CompoundCalculatorPage: React.FC = () => {
     setTransactions(newTransactions);
   }, []);
 
+  const handleRecurringRulesChange = useCallback((newRules: RecurringRule[]) => {
+    setRecurringRules(newRules);
+  }, []);
+
   // Memoized transaction date calculations
   const transactionDateRange = useMemo(() => {
     if (transactions.length === 0) return null;
@@ -457,6 +613,15 @@ const CompoundCalculatorPage: React.FC = () => {
       lastTransaction
     };
   }, [transactions]);
+
+  // Calculations start at the earliest one-off transaction or recurring rule
+  const calculationStartDate = useMemo(() => {
+    const starts = [
+      ...(transactionDateRange ? [transactionDateRange.startDate] : []),
+      ...recurringRules.map(rule => rule.startDate)
+    ].sort();
+    return starts.length > 0 ? starts[0] : null;
+  }, [transactionDateRange, recurringRules]);
   
   const removeTransaction = useCallback((index: number) => {
     const updatedTransactions = transactions.filter((_, i) => i !== index);
@@ -600,13 +765,28 @@ const CompoundCalculatorPage: React.FC = () => {
     startDate: string;
     endDate: string;
   }) => {
-    // Generate cache key for this calculation
-    const cacheKey = generateCalculationCacheKey(formData, primaryIndex);
-    
-    // Check if we have cached result for this exact calculation
-    const cachedResult = calculationCacheRef.current.get(cacheKey);
-    if (cachedResult) {
-      setCalculationResult(cachedResult);
+    // The primary index first, then every other selected index as a comparison
+    const indices = [primaryIndex, ...selectedIndices.filter(index => index !== primaryIndex)];
+    const results = new Map<string, CalculationResult>();
+    indices.forEach(index => {
+      const cachedResult = calculationCacheRef.current.get(generateCalculationCacheKey(formData, index));
+      if (cachedResult) {
+        results.set(index, cachedResult);
+      }
+    });
+    const showResults = () => {
+      setCalculationResult(results.get(primaryIndex) || null);
+      setComparisonResults(indices.slice(1).filter(index => results.has(index)).map(index => ({
+        label: availableIndices.find(available => available.id === index)?.name || index,
+        marketIndex: index,
+        result: results.get(index) as CalculationResult
+      })));
+    };
+
+    // Only indices without a cached result for these exact inputs are calculated
+    const missing = indices.filter(index => !results.has(index));
+    if (missing.length === 0) {
+      showResults();
       return;
     }
     
@@ -619,15 +799,21 @@ const CompoundCalculatorPage: React.FC = () => {
       // Also fetch S&P 500 data for backward compatibility
       await fetchSP500Data(formData.startDate, formData.endDate);
       
-      const response = await axios.post('/api/calculate-compound', {
+      const response = await axios.post<BatchCalculationResult>('/api/calculate-compound/batch', {
         ...formData,
-        marketIndex: primaryIndex
+        recurringTransactions: recurringRules.map(toRecurringTransaction),
+        scenarios: missing.map(marketIndex => ({ marketIndex })),
+        reportingCurrency,
+        currencyHedging,
+        ...(benchmark && { benchmark }),
+        realTerms: true
       });
       
-      const result = response.data;
-      
-      // Cache the calculation result
-      calculationCacheRef.current.set(cacheKey, result);
+      // Cache each index's result on its own so selecting another index only fetches that one
+      response.data.results.forEach(item => {
+        results.set(item.marketIndex, item.result);
+        calculationCacheRef.current.set(generateCalculationCacheKey(formData, item.marketIndex), item.result);
+      });
       
       // Limit cache size to prevent memory issues (keep last 50 calculations)
       if (calculationCacheRef.current.size > 50) {
@@ -638,38 +824,37 @@ const CompoundCalculatorPage: React.FC = () => {
         }
       }
       
-      setCalculationResult(result);
+      showResults();
     } catch (err) {
       console.error('Error calculating compound interest:', err);
       setError('Calculation failed. Please try again.');
     } finally {
       setLoading(false);
     }
-  }, [primaryIndex, generateCalculationCacheKey, fetchMarketData, fetchSP500Data]);
+  }, [primaryIndex, selectedIndices, availableIndices, recurringRules, reportingCurrency, currencyHedging, benchmark, generateCalculationCacheKey, fetchMarketData, fetchSP500Data]);
 
   // Unified calculation effect to prevent race conditions
   useEffect(() => {
-    if (transactions.length === 0) {
+    if (transactions.length === 0 && recurringRules.length === 0) {
       // Clear results when no transactions
       setCalculationResult(null);
+      setComparisonResults([]);
       hasCalculatedRef.current = false;
       return;
     }
 
     // Only calculate if we have all required data
-    if (transactions.length > 0 && sp500Data && !initialLoading && transactionDateRange) {
-      const dateRange = transactionDateRange;
-      
+    if (sp500Data && !initialLoading && calculationStartDate) {
       calculateCompound({
         initialAmount: 0,
         transactions,
-        startDate: dateRange.startDate,
+        startDate: calculationStartDate,
         endDate: new Date().toISOString().split('T')[0]
       });
       
       hasCalculatedRef.current = true;
     }
-  }, [transactions, transactionDateRange, calculateCompound, sp500Data, initialLoading, primaryIndex]);
+  }, [transactions, recurringRules, calculationStartDate, calculateCompound, sp500Data, initialLoading, primaryIndex]);
 
   // Optimized market index selection functions
   const setPrimaryMarketIndex = useCallback((indexId: string) => {
@@ -684,9 +869,6 @@ const CompoundCalculatorPage: React.FC = () => {
         return prev;
       });
     });
-    
-    // Clear calculation cache when primary index changes
-    calculationCacheRef.current.clear();
   }, []);
   
   const toggleMarketIndex = useCallback((indexId: string) => {
@@ -781,13 +963,20 @@ const CompoundCalculatorPage: React.FC = () => {
             <Box>
               {/* Add Transactions - Desktop Only */}
               <Box sx={{ display: { xs: 'none', lg: 'block' }, mb: 3 }}>
-                <CompoundCalculatorMUI
-                  onCalculate={calculateCompound}
-                  onTransactionsChange={handleTransactionsChange}
-                  loading={loading}
-                  sp500Data={sp500Data}
-                  transactions={transactions}
-                />
+                {isCombinedView ? (
+                  <Alert severity="info">
+                    Showing every portfolio combined, converted to {reportingCurrency}. Pick a portfolio in the menu to add or remove transactions.
+                  </Alert>
+                ) : (
+                  <CompoundCalculatorMUI
+                    onCalculate={calculateCompound}
+                    onTransactionsChange={handleTransactionsChange}
+                    loading={loading}
+                    sp500Data={sp500Data}
+                    currency={reportingCurrency}
+                    transactions={transactions}
+                  />
+                )}
               </Box>
 
               {/* Error Message */}
@@ -918,39 +1107,107 @@ const CompoundCalculatorPage: React.FC = () => {
                           Market Indices
                         </Typography>
                         <Typography variant="body1" color="text.secondary" sx={{ mb: 2 }}>
-                          Select indices to display on the chart. The primary index is used for calculations.
+                          Select indices to compare on the chart. The primary index drives the figures below.
                         </Typography>
                       </Box>
                       
-                      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
-                        {availableIndices.map((index) => (
-                          <Chip
-                            key={index.id}
-                            label={index.name}
-                            variant={selectedIndices.includes(index.id) ? 'filled' : 'outlined'}
-                            color={index.id === primaryIndex ? 'primary' : 'default'}
-                            onClick={() => toggleMarketIndex(index.id)}
-                            onDelete={index.id === primaryIndex ? () => {} : undefined}
-                            deleteIcon={index.id === primaryIndex ? <TrendingUpIcon /> : undefined}
-                            sx={{
-                              cursor: 'pointer',
-                              '&:hover': {
-                                backgroundColor: index.id === primaryIndex ? 'primary.light' : 'grey.100'
-                              },
-                              ...(index.id === primaryIndex && {
-                                fontWeight: 600,
-                                border: '2px solid',
-                                borderColor: 'primary.main'
-                              })
-                            }}
-                          />
-                        ))}
-                      </Box>
+                      {indexGroups.map(group => (
+                        <Box key={group.category} sx={{ mb: 2 }}>
+                          <Typography variant="overline" color="text.secondary" sx={{ display: 'block', lineHeight: 2 }}>
+                            {INDEX_CATEGORY_LABELS[group.category]}
+                          </Typography>
+                          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+                            {group.indices.map((index) => (
+                              <Chip
+                                key={index.id}
+                                label={index.name}
+                                variant={selectedIndices.includes(index.id) ? 'filled' : 'outlined'}
+                                color={index.id === primaryIndex ? 'primary' : 'default'}
+                                onClick={() => toggleMarketIndex(index.id)}
+                                onDelete={index.id === primaryIndex
+                                  ? () => {}
+                                  : selectedIndices.includes(index.id)
+                                    ? () => setSelectedIndices(prev => prev.filter(id => id !== index.id))
+                                    : undefined}
+                                deleteIcon={index.id === primaryIndex ? <TrendingUpIcon /> : undefined}
+                                sx={{
+                                  cursor: 'pointer',
+                                  '&:hover': {
+                                    backgroundColor: index.id === primaryIndex ? 'primary.light' : 'grey.100'
+                                  },
+                                  ...(index.id === primaryIndex && {
+                                    fontWeight: 600,
+                                    border: '2px solid',
+                                    borderColor: 'primary.main'
+                                  })
+                                }}
+                              />
+                            ))}
+                          </Box>
+                        </Box>
+                      ))}
                       
                       <Typography variant="body2" color="text.secondary">
                         Primary index for calculations: <strong>{availableIndices.find(i => i.id === primaryIndex)?.name || 'S&P 500'}</strong>
                         {' '}(Click any index to make it primary)
                       </Typography>
+
+                      <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 2, mt: 2 }}>
+                        <FormControl size="small" sx={{ minWidth: 160 }}>
+                          <InputLabel>Report in</InputLabel>
+                          <Select
+                            value={reportingCurrency}
+                            label="Report in"
+                            onChange={(e) => setReportingCurrency(e.target.value as CurrencyCode)}
+                          >
+                            {(['USD', 'GBP', 'JPY', 'EUR'] as CurrencyCode[]).map(currency => (
+                              <MenuItem key={currency} value={currency}>{currency}</MenuItem>
+                            ))}
+                          </Select>
+                        </FormControl>
+                        <FormControlLabel
+                          control={
+                            <Checkbox
+                              size="small"
+                              checked={currencyHedging === 'hedged'}
+                              onChange={(e) => setCurrencyHedging(e.target.checked ? 'hedged' : 'unhedged')}
+                            />
+                          }
+                          label="Hedge currency risk"
+                        />
+                        <FormControl size="small" sx={{ minWidth: 200 }}>
+                          <InputLabel>Benchmark</InputLabel>
+                          <Select
+                            value={benchmark}
+                            label="Benchmark"
+                            onChange={(e) => setBenchmark(e.target.value)}
+                          >
+                            <MenuItem value="">None</MenuItem>
+                            {indexGroups.reduce<React.ReactNode[]>((items, group) => items.concat(
+                              <ListSubheader key={group.category}>{INDEX_CATEGORY_LABELS[group.category]}</ListSubheader>,
+                              group.indices.map(index => (
+                                <MenuItem key={index.id} value={index.id}>{index.name}</MenuItem>
+                              ))
+                            ), [])}
+                          </Select>
+                        </FormControl>
+                        {calculationResult?.summary?.currency && !!calculationResult.summary.currency.currencyGain && (
+                          <Typography variant="body2" color="text.secondary">
+                            Currency effect: <strong>{calculationResult.summary.currency.currencyGain >= 0 ? '+' : ''}{formatCurrency(calculationResult.summary.currency.currencyGain)}</strong>
+                            {' '}of {formatCurrency(calculationResult.summary.currency.marketGain + calculationResult.summary.currency.currencyGain)} growth
+                          </Typography>
+                        )}
+                      </Box>
+                      {calculationResult?.benchmark && (
+                        <Typography variant="body2" color="text.secondary" sx={{ mt: 1.5 }}>
+                          Against {calculationResult.benchmark.name}:{' '}
+                          <strong>{calculationResult.benchmark.excessReturn >= 0 ? '+' : ''}{calculationResult.benchmark.excessReturn.toFixed(2)} pts/yr</strong>
+                          {' '}excess return, {calculationResult.benchmark.trackingError.toFixed(2)}% tracking error
+                          {calculationResult.benchmark.informationRatio !== null && (
+                            <>, information ratio {calculationResult.benchmark.informationRatio.toFixed(2)}</>
+                          )}
+                        </Typography>
+                      )}
                     </Card>
                   )}
 
@@ -982,7 +1239,7 @@ const CompoundCalculatorPage: React.FC = () => {
                         }} />
                       </Box>
                       <Typography variant="h2" sx={{ fontWeight: 700, color: 'text.primary', mb: 0.5 }}>
-                        ${(calculationResult?.summary?.totalDeposits || 0).toLocaleString()}
+                        {currencySymbol}{(calculationResult?.summary?.totalDeposits || 0).toLocaleString()}
                       </Typography>
                       <Typography variant="body2" color="text.secondary">
                         All money invested
@@ -1002,7 +1259,7 @@ const CompoundCalculatorPage: React.FC = () => {
                         }} />
                       </Box>
                       <Typography variant="h2" sx={{ fontWeight: 700, color: 'text.primary', mb: 0.5 }}>
-                        ${totalWithdrawals.toLocaleString()}
+                        {currencySymbol}{totalWithdrawals.toLocaleString()}
                       </Typography>
                       <Typography variant="body2" color="text.secondary">
                         All money withdrawn
@@ -1040,7 +1297,7 @@ const CompoundCalculatorPage: React.FC = () => {
                         </Box>
                         <Box sx={{ flex: 1, display: 'flex', flexDirection: 'column', justifyContent: 'center' }}>
                           <Typography variant="h2" sx={{ fontWeight: 700, color: 'text.primary' }}>
-                            ${(calculationResult?.summary?.finalAmount || 0).toLocaleString()}
+                            {currencySymbol}{(calculationResult?.summary?.finalAmount || 0).toLocaleString()}
                           </Typography>
                         </Box>
                         <Typography variant="body2" color="text.secondary">
@@ -1062,7 +1319,7 @@ const CompoundCalculatorPage: React.FC = () => {
                         </Box>
                         <Box sx={{ flex: 1, display: 'flex', flexDirection: 'column', justifyContent: 'center' }}>
                           <Typography variant="h2" sx={{ fontWeight: 700, color: 'text.primary' }}>
-                            ${(calculationResult?.summary?.netInvestment || 0).toLocaleString()}
+                            {currencySymbol}{(calculationResult?.summary?.netInvestment || 0).toLocaleString()}
                           </Typography>
                         </Box>
                         <Typography variant="body2" color="text.secondary">
@@ -1095,7 +1352,7 @@ const CompoundCalculatorPage: React.FC = () => {
                             fontWeight: 700, 
                             color: (calculationResult?.summary?.netGains || 0) >= 0 ? 'success.main' : 'error.main'
                           }}>
-                            {(calculationResult?.summary?.netGains || 0) >= 0 ? '+' : ''}${(calculationResult?.summary?.netGains || 0).toLocaleString()}
+                            {(calculationResult?.summary?.netGains || 0) >= 0 ? '+' : ''}{currencySymbol}{(calculationResult?.summary?.netGains || 0).toLocaleString()}
                           </Typography>
                         </Box>
                         <Typography variant="body2" color="text.secondary">
@@ -1152,6 +1409,11 @@ const CompoundCalculatorPage: React.FC = () => {
             }}>
               {/* Add Transactions - Mobile/Tablet Only */}
               <Box sx={{ display: { xs: 'block', lg: 'none' } }}>
+                {isCombinedView ? (
+                  <Alert severity="info">
+                    Showing every portfolio combined, converted to {reportingCurrency}. Pick a portfolio in the menu to add or remove transactions.
+                  </Alert>
+                ) : (
                 <Card sx={{ 
                   p: { xs: 2, sm: 3 }, 
                   height: 'fit-content'
@@ -1161,10 +1423,12 @@ const CompoundCalculatorPage: React.FC = () => {
                 onTransactionsChange={handleTransactionsChange}
                 loading={loading}
                 sp500Data={sp500Data}
+                currency={reportingCurrency}
                 compact={true}
                 transactions={transactions}
               />
                 </Card>
+                )}
               </Box>
               
               {/* Transaction History */}
@@ -1208,14 +1472,16 @@ const CompoundCalculatorPage: React.FC = () => {
                         border: '1px solid',
                         borderColor: 'grey.200'
                       }}>
-                        <IconButton
-                          size="small"
-                          sx={{ color: 'primary.main' }}
-                          title="Import transactions"
-                          onClick={importTransactions}
-                        >
-                          <ImportIcon fontSize="small" />
-                        </IconButton>
+                        {!isCombinedView && (
+                          <IconButton
+                            size="small"
+                            sx={{ color: 'primary.main' }}
+                            title="Import transactions"
+                            onClick={importTransactions}
+                          >
+                            <ImportIcon fontSize="small" />
+                          </IconButton>
+                        )}
                         {transactions.length > 0 && (
                           <IconButton
                             size="small"
@@ -1269,7 +1535,7 @@ const CompoundCalculatorPage: React.FC = () => {
                       )}
                       
                       {/* Selection Group */}
-                      {transactions.length > 0 && (
+                      {transactions.length > 0 && !isCombinedView && (
                         <Box sx={{ 
                           display: 'flex', 
                           gap: 0.5, 
@@ -1321,7 +1587,7 @@ const CompoundCalculatorPage: React.FC = () => {
                       )}
                       
                       {/* Clear All - Separate */}
-                      {transactions.length > 0 && (
+                      {transactions.length > 0 && !isCombinedView && (
                         <IconButton
                           size="small"
                           sx={{ color: 'error.main' }}
@@ -1514,9 +1780,11 @@ const CompoundCalculatorPage: React.FC = () => {
                               fontWeight: 700,
                               color: transaction.type === 'deposit' ? 'success.main' : 'error.main'
                             }}>
-                              {transaction.type === 'withdrawal' ? '-' : '+'}${transaction.amount.toLocaleString()}
+                              {transaction.type === 'withdrawal' ? '-' : '+'}
+                              {transaction.currency && transaction.currency !== reportingCurrency ? `${transaction.currency} ` : currencySymbol}
+                              {transaction.amount.toLocaleString()}
                             </Typography>
-                            {!isSelectMode && (
+                            {!isSelectMode && !isCombinedView && (
                               <IconButton
                                 size="small"
                                 onClick={() => {
@@ -1541,6 +1809,13 @@ const CompoundCalculatorPage: React.FC = () => {
                   )}
                 </Box>
               </Card>
+
+              {/* Recurring Rules */}
+              <RecurringRulesCard
+                rules={recurringRules}
+                onRulesChange={handleRecurringRulesChange}
+                readOnly={isCombinedView}
+              />
             </Box>
           </Box>
 
@@ -1605,12 +1880,23 @@ const CompoundCalculatorPage: React.FC = () => {
               marketData={marketDataCache}
               selectedIndices={selectedIndices}
               primaryIndex={primaryIndex}
+              comparisons={comparisonResults}
+              currency={reportingCurrency}
               onStatsUpdate={setTempStats}
             />
               </Box>
             )}
           </Card>
 
+          {/* Goal Seeking */}
+          <SolveForPanel
+            transactions={transactions}
+            recurringTransactions={recurringRules.map(toRecurringTransaction)}
+            startDate={calculationStartDate || undefined}
+            marketIndex={primaryIndex}
+            currency={reportingCurrency}
+          />
+
           {/* Footer */}
           <Box sx={{ mt: 3, pt: 4, borderTop: '1px solid', borderColor: 'grey.200' }}>
             <Box sx={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'space-between', alignItems: 'center', gap: 2 }}>
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { Navigate, useLocation, useNavigate } from 'react-router-dom';
+import {
+  Box,
+  Card,
+  Typography,
+  TextField,
+  Button,
+  Alert,
+  Tabs,
+  Tab
+} from '@mui/material';
+import { useAuth } from '../context/AuthContext';
+
+// Kept in step with the server's MIN_PASSWORD_LENGTH
+const MIN_PASSWORD_LENGTH = 8;
+
+type Mode = 'login' | 'register';
+
+const LoginPage: React.FC = () => {
+  const { user, login, register } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [mode, setMode] = useState<Mode>('login');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Back to the page that sent the user here
+  const from = (location.state as { from?: string } | null)?.from || '/';
+
+  if (user) {
+    return <Navigate to={from} replace />;
+  }
+
+  const isValid = email.trim() !== '' && password.length >= (mode === 'register' ? MIN_PASSWORD_LENGTH : 1);
+
+  const submit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!isValid) {
+      return;
+    }
+    setSubmitting(true);
+    setError(null);
+    try {
+      await (mode === 'login' ? login : register)({ email: email.trim(), password });
+      navigate(from, { replace: true });
+    } catch (err: any) {
+      setError(err.response?.data?.error || (mode === 'login' ? 'Failed to sign in' : 'Failed to create the account'));
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Box sx={{ display: 'flex', justifyContent: 'center', pt: { xs: 2, sm: 6 } }}>
+      <Card sx={{ p: { xs: 2, sm: 4 }, width: '100%', maxWidth: 420 }}>
+        <Typography variant="h5" component="h1" sx={{ fontWeight: 700, mb: 1 }}>
+          {mode === 'login' ? 'Sign in' : 'Create an account'}
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Your portfolios are kept on the server under your account
+        </Typography>
+        <Tabs
+          value={mode}
+          onChange={(_, value: Mode) => {
+            setMode(value);
+            setError(null);
+          }}
+          sx={{ mb: 3 }}
+        >
+          <Tab value="login" label="Sign in" />
+          <Tab value="register" label="Create account" />
+        </Tabs>
+        <Box component="form" onSubmit={submit} sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+          {error && <Alert severity="error">{error}</Alert>}
+          <TextField
+            label="Email"
+            type="email"
+            autoComplete="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            fullWidth
+            autoFocus
+          />
+          <TextField
+            label="Password"
+            type="password"
+            autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            helperText={mode === 'register' ? `At least ${MIN_PASSWORD_LENGTH} characters` : undefined}
+            fullWidth
+          />
+          <Button type="submit" variant="contained" size="large" disabled={submitting || !isValid}>
+            {mode === 'login' ? 'Sign in' : 'Create account'}
+          </Button>
+        </Box>
+      </Card>
+    </Box>
+  );
+};
+
+export default LoginPage;
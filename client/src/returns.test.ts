@@ -0,0 +1,14 @@
+import { describe, expect, test } from '@jest/globals';
+import { annualToMonthlyReturn } from './returns';
+
+describe('annualToMonthlyReturn', () => {
+  test('twelve compounded months reproduce the annual rate', () => {
+    for (const annual of [0.1, -0.2, 0]) {
+      expect(Math.pow(1 + annualToMonthlyReturn(annual), 12) - 1).toBeCloseTo(annual, 12);
+    }
+  });
+
+  test('is lower than simple division for positive rates', () => {
+    expect(annualToMonthlyReturn(0.1)).toBeLessThan(0.1 / 12);
+  });
+});
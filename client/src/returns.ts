@@ -0,0 +1,2 @@
+// Compounds to the annual rate over twelve months, as the server's annualToMonthlyReturn does
+export const annualToMonthlyReturn = (annualReturn: number): number => Math.pow(1 + annualReturn, 1 / 12) - 1;
@@ -5,6 +5,29 @@ export interface Transaction {
   date: string;
   amount: number;
   type: 'deposit' | 'withdrawal';
+  // Currency of the amount when it differs from the reporting currency
+  currency?: CurrencyCode;
+}
+
+export type RecurrenceFrequency = 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'annual';
+
+// A transaction repeated on a schedule, e.g. $500 every month since 2015
+export interface RecurringTransaction {
+  type: 'deposit' | 'withdrawal';
+  amount: number;
+  frequency: RecurrenceFrequency;
+  startDate: string;
+  // Last possible occurrence; open-ended rules run to the end of the calculation
+  endDate?: string;
+  // Decimal raise applied to the amount on each anniversary of startDate
+  annualStepUp?: number;
+  // Currency of the amount when it differs from the reporting currency
+  currency?: CurrencyCode;
+}
+
+// One expanded occurrence; rule is the index of its rule in the request
+export interface RecurringOccurrence extends Transaction {
+  rule: number;
 }
 
 export interface HistoricalDataPoint {
@@ -16,9 +39,26 @@ export interface HistoricalDataPoint {
   date?: string;
 }
 
+// Currencies with bundled exchange-rate history
+export type CurrencyCode = 'USD' | 'GBP' | 'JPY' | 'EUR';
+
+// 'hedged' earns an index's local-currency return, as if exchange-rate moves were hedged away at no cost
+export type CurrencyHedging = 'unhedged' | 'hedged';
+
+// Asset class an index belongs to; 'multi-asset' covers funds and blends that span several
+export type MarketIndexCategory = 'equity' | 'bond' | 'cash' | 'alternative' | 'multi-asset';
+
 export interface MarketIndex {
   name: string;
   averageReturn: number;
+  // Currency the index's returns are measured in
+  currency: CurrencyCode;
+  // CPI series used to express this index's results in real terms
+  cpiRegion: string;
+  // False for price-return series, which leave out reinvested dividends
+  totalReturn: boolean;
+  category: MarketIndexCategory;
+  source?: string;
   historicalData: HistoricalDataPoint[];
 }
 
@@ -26,7 +66,22 @@ export interface MarketIndices {
   [key: string]: MarketIndex;
 }
 
-export interface MonthlyDataPoint {
+// Values deflated to constant dollars of RealTermsSummary.baseYear
+export interface RealValues {
+  amount: number;
+  contributions: number;
+  netInvestment: number;
+  gains: number;
+  valueWithoutFees?: number;
+}
+
+// Running fee total and the balance the same cash flows would have reached with no fees
+export interface FeeValues {
+  cumulativeFees?: number;
+  valueWithoutFees?: number;
+}
+
+export interface MonthlyDataPoint extends FeeValues {
   month: number;
   year: number;
   monthOfYear: number;
@@ -35,10 +90,21 @@ export interface MonthlyDataPoint {
   contributions: number;
   netInvestment: number;
   gains: number;
-  annualReturn: string;
+  monthlyReturn: string;
+  real?: RealValues;
+}
+
+export interface DailyDataPoint extends FeeValues {
+  date: string;
+  amount: number;
+  contributions: number;
+  netInvestment: number;
+  gains: number;
+  dailyReturn: string;
+  real?: RealValues;
 }
 
-export interface YearlyDataPoint {
+export interface YearlyDataPoint extends FeeValues {
   year: number;
   date?: string;
   amount: number;
@@ -47,6 +113,166 @@ export interface YearlyDataPoint {
   gains: number;
   roi: number;
   annualReturn?: string;
+  moneyWeightedReturn?: number | null;
+  timeWeightedReturn?: number;
+  real?: RealValues;
+  // Present when a tax profile is given
+  realizedGains?: number;
+  taxesPaid?: number;
+  // Paid out by the decumulation strategy during the year
+  retirementIncome?: number;
+  // Gain or loss from exchange-rate moves during the year, when results are converted
+  currencyGain?: number;
+}
+
+// One piece of a piecewise return schedule; throughYear is the last year the rate applies
+export interface ReturnScheduleSegment {
+  rate: number;
+  throughYear?: number;
+}
+
+// User-defined returns used when useHistoricalData is false. Rates are annual decimals.
+export interface ReturnAssumption {
+  annualRate?: number;
+  yearlyRates?: { [year: number]: number };
+  schedule?: ReturnScheduleSegment[];
+}
+
+export type CalculationGranularity = 'daily' | 'monthly';
+
+// Target weights by market index, summing to 1
+export interface PortfolioAllocation {
+  [marketIndex: string]: number;
+}
+
+// 'threshold' rebalances whenever any sleeve drifts more than rebalanceBand from its target
+export type RebalancingPolicy = 'none' | 'monthly' | 'quarterly' | 'annual' | 'threshold';
+
+export interface SleeveDataPoint {
+  date: string;
+  amount: number;
+  // Percent of the portfolio, and percentage points away from target, before any rebalance
+  weight: number;
+  drift: number;
+}
+
+export interface SleeveSeries {
+  marketIndex: string;
+  targetWeight: number;
+  finalAmount: number;
+  data: SleeveDataPoint[];
+}
+
+export interface RebalancingEvent {
+  date: string;
+  // Percent weights just before the rebalance
+  weightsBefore: { [marketIndex: string]: number };
+  // Dollars bought (positive) or sold (negative) per sleeve
+  trades: { [marketIndex: string]: number };
+  turnover: number;
+}
+
+export interface PortfolioBreakdown {
+  allocation: PortfolioAllocation;
+  rebalancing: RebalancingPolicy;
+  rebalanceBand?: number;
+  sleeves: SleeveSeries[];
+  rebalancingEvents: RebalancingEvent[];
+  // Largest absolute drift of any sleeve seen at a month end, percentage points
+  maxDrift: number;
+}
+
+export interface RealTermsSummary extends RealValues {
+  baseYear: number;
+  cpiRegion: string;
+  // Percent rise in the price level over the investment period
+  cumulativeInflation: number;
+}
+
+export type AdvisoryBilling = 'monthly' | 'quarterly';
+
+// Charged on each deposit or withdrawal: a flat dollar amount plus a decimal share of it
+export interface TransactionFee {
+  flat?: number;
+  percent?: number;
+}
+
+// Annual rates are decimals, e.g. 0.01 for 1%
+export interface FeeSchedule {
+  expenseRatio?: number;
+  advisoryFee?: number;
+  advisoryBilling?: AdvisoryBilling;
+  depositFee?: TransactionFee;
+  withdrawalFee?: TransactionFee;
+}
+
+export interface FeeSummary {
+  totalFees: number;
+  expenseRatioFees: number;
+  advisoryFees: number;
+  transactionFees: number;
+  valueWithoutFees: number;
+  // valueWithoutFees minus finalAmount: fees paid plus the growth they would have earned
+  costOfFees: number;
+}
+
+// Decimal tax rates; dividendTaxDrag is the annual share of the portfolio lost to tax on dividends
+export interface TaxProfile {
+  shortTermRate?: number;
+  longTermRate?: number;
+  ordinaryIncomeRate?: number;
+  dividendTaxDrag?: number;
+}
+
+export interface TaxSummary {
+  totalTaxesPaid: number;
+  capitalGainsTax: number;
+  dividendTax: number;
+  realizedGains: number;
+  costBasis: number;
+  unrealizedGains: number;
+  // Tax due if the portfolio were sold at the end date
+  liquidationTax: number;
+}
+
+export type WithdrawalStrategy = 'constantInflationAdjusted' | 'constantPercentage' | 'guytonKlinger' | 'variablePercentage';
+
+export interface DecumulationPlan {
+  strategy: WithdrawalStrategy;
+  // Decimal share of the portfolio taken in the first year (every year for constantPercentage); defaults to 0.04
+  withdrawalRate?: number;
+  // Withdrawals begin here; defaults to the start of the calculation
+  startDate?: string;
+  // Guyton-Klinger: decimal drift of the withdrawal rate that triggers a cut or raise (default 0.2),
+  // and the size of that cut or raise (default 0.1)
+  guardrail?: number;
+  adjustment?: number;
+  // Variable percentage withdrawal: annual return assumed when spreading the portfolio over the remaining years
+  expectedReturn?: number;
+}
+
+export interface DecumulationSummary {
+  strategy: WithdrawalStrategy;
+  startDate: string;
+  initialWithdrawal: number;
+  totalWithdrawn: number;
+  // Years the portfolio kept paying, up to the length of the retirement period
+  longevityYears: number;
+  survived: boolean;
+  // The month the money ran out, if it did
+  depletionDate: string | null;
+  depletionYear: number | null;
+}
+
+export interface CurrencySummary {
+  reportingCurrency: CurrencyCode;
+  hedging: CurrencyHedging;
+  // Currency of every index the portfolio held
+  indexCurrencies: { [index: string]: CurrencyCode };
+  // Growth split into the indices' local-currency returns and exchange-rate moves, both in the
+  // reporting currency and before fees
+  marketGain: number;
+  currencyGain: number;
 }
 
 export interface CalculationSummary {
@@ -59,28 +285,271 @@ export interface CalculationSummary {
   netInvestment?: number;
   netGains?: number;
   netROI?: number;
+  // Annualized XIRR over the cash flows (percent); null when undefined
+  moneyWeightedReturn?: number | null;
+  // Chain-linked sub-period returns (percent), cumulative and annualized
+  timeWeightedReturn?: number;
+  annualizedTimeWeightedReturn?: number;
   averageAnnualReturn: string;
+  dataVersion?: string;
+  useHistoricalData?: boolean;
+  returnAssumption?: ReturnAssumption;
+  granularity?: CalculationGranularity;
+  real?: RealTermsSummary;
+  fees?: FeeSummary;
+  // finalAmount less the tax due on selling everything at the end date
+  afterTaxFinalValue?: number;
+  taxes?: TaxSummary;
+  decumulation?: DecumulationSummary;
+  // Present when any index's currency differs from the reporting currency, or one was requested
+  currency?: CurrencySummary;
   investmentPeriod: {
     startDate: string;
     endDate: string;
     totalMonths: number;
+    tradingDays?: number;
   };
 }
 
+// Percentage decline from the running peak of the portfolio's growth-of-$1 index
+export interface DrawdownPoint {
+  date: string;
+  drawdown: number;
+}
+
+export interface MaxDrawdown {
+  drawdown: number;
+  peakDate: string;
+  troughDate: string;
+  recoveryDate: string | null;
+}
+
+export interface RiskMetrics {
+  riskFreeRate: number;
+  annualizedVolatility: number;
+  sharpeRatio: number | null;
+  sortinoRatio: number | null;
+  maxDrawdown: MaxDrawdown | null;
+  drawdownSeries: DrawdownPoint[];
+}
+
+// The portfolio's monthly time-weighted returns against a benchmark's over the same months.
+// Returns and tracking error are annualized percentages.
+export interface BenchmarkComparison {
+  benchmark: string;
+  name: string;
+  months: number;
+  portfolioReturn: number;
+  benchmarkReturn: number;
+  // Portfolio minus benchmark, percentage points a year
+  excessReturn: number;
+  trackingError: number;
+  informationRatio: number | null;
+}
+
 export interface CalculationResult {
   summary: CalculationSummary;
   monthlyData: MonthlyDataPoint[];
   yearlyData: YearlyDataPoint[];
+  dailyData?: DailyDataPoint[];
+  risk?: RiskMetrics;
+  // Present when a benchmark was requested
+  benchmark?: BenchmarkComparison;
+  portfolio?: PortfolioBreakdown;
+  // Present when recurring transactions were given
+  recurringOccurrences?: RecurringOccurrence[];
 }
 
 export interface CalculationRequest {
   initialAmount?: number;
   principal?: number;
   transactions?: Transaction[];
+  // Expanded on the server and applied alongside transactions
+  recurringTransactions?: RecurringTransaction[];
   startDate: string;
   endDate?: string;
   useHistoricalData?: boolean;
+  returnAssumption?: ReturnAssumption;
+  marketIndex?: string;
+  granularity?: CalculationGranularity;
+  riskFreeRate?: number;
+  // Any market index or stored benchmark to measure the portfolio against
+  benchmark?: string;
+  // Multi-asset portfolio; replaces marketIndex when given
+  allocation?: PortfolioAllocation;
+  rebalancing?: RebalancingPolicy;
+  // Absolute drift (decimal) that triggers a threshold rebalance; defaults to 0.05
+  rebalanceBand?: number;
+  // Adds CPI-deflated values in dollars of realBaseYear (defaults to the last year with CPI data)
+  realTerms?: boolean;
+  realBaseYear?: number;
+  fees?: FeeSchedule;
+  taxProfile?: TaxProfile;
+  decumulation?: DecumulationPlan;
+  // Defaults to the currency of marketIndex
+  reportingCurrency?: CurrencyCode;
+  currencyHedging?: CurrencyHedging;
+}
+
+export type SimulationModel = 'normal' | 'lognormal' | 'bootstrap';
+
+export type ContributionFrequency = 'monthly' | 'quarterly' | 'annual';
+
+export interface ContributionPlan {
+  amount: number;
+  frequency?: ContributionFrequency;
+  type?: 'deposit' | 'withdrawal';
+}
+
+export interface SimulationRequest {
+  currentValue: number;
+  contributionPlan?: ContributionPlan;
+  horizonYears: number;
+  startDate?: string;
+  marketIndex?: string;
+  // Custom annual mean return and volatility (decimals) for the parametric models
+  mean?: number;
+  volatility?: number;
+  model?: SimulationModel;
+  // Months per resampled block for the bootstrap model
+  blockSize?: number;
+  paths?: number;
+  seed?: number;
+  targetValue?: number;
+}
+
+export interface PercentileValues {
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+export interface SimulationPercentilePoint extends PercentileValues {
+  month: number;
+  date: string;
+}
+
+export interface SimulationResult {
+  model: SimulationModel;
+  marketIndex: string;
+  paths: number;
+  seed: number;
+  horizonMonths: number;
+  mean: number;
+  volatility: number;
+  blockSize?: number;
+  plannedNetContributions: number;
+  percentiles: SimulationPercentilePoint[];
+  finalValue: PercentileValues;
+  targetValue?: number;
+  // Percent of paths ending at or above targetValue
+  probabilityOfReachingTarget?: number;
+  dataVersion: string;
+}
+
+export type BacktestStep = 'year' | 'month';
+
+export interface RollingBacktestRequest {
+  initialAmount?: number;
+  transactions?: Transaction[];
+  // The user's own period; its length and contribution pattern are replayed from every start
+  startDate: string;
+  endDate: string;
+  marketIndex?: string;
+  step?: BacktestStep;
+  // Annual decimal CAGR a window has to beat; defaults to 0
+  thresholdReturn?: number;
+  // Replays a withdrawal strategy in every window; its startDate moves with the window
+  decumulation?: DecumulationPlan;
+}
+
+export interface BacktestWindow {
+  startDate: string;
+  endDate: string;
+  finalAmount: number;
+  totalContributions: number;
+  // Annualized time-weighted return, percent
+  cagr: number;
+  moneyWeightedReturn: number | null;
+  // Present when a decumulation plan is replayed
+  survived?: boolean;
+  longevityYears?: number;
+  totalWithdrawn?: number;
+}
+
+export interface RollingDecumulationSummary {
+  strategy: WithdrawalStrategy;
+  // Percent of windows in which the portfolio never ran out
+  successRate: number;
+  longevityYears: PercentileValues;
+  totalWithdrawn: PercentileValues;
+}
+
+export interface RollingBacktestResult {
+  marketIndex: string;
+  step: BacktestStep;
+  windowMonths: number;
+  windowCount: number;
+  finalAmount: PercentileValues;
+  cagr: PercentileValues;
+  worstWindow: BacktestWindow;
+  bestWindow: BacktestWindow;
+  thresholdReturn: number;
+  // Percent of windows whose CAGR beat thresholdReturn
+  windowsBeatingThreshold: number;
+  // The user's own period, when it lies inside the history
+  actualWindow?: BacktestWindow;
+  // Percent of windows that finished below the user's own period
+  actualWindowPercentile?: number;
+  decumulation?: RollingDecumulationSummary;
+  windows: BacktestWindow[];
+  dataVersion: string;
+}
+
+export type SolveFor = 'contribution' | 'annualReturn' | 'targetDate';
+
+export interface SolveRequest {
+  solveFor: SolveFor;
+  targetValue: number;
+  initialAmount?: number;
+  transactions?: Transaction[];
+  recurringTransactions?: RecurringTransaction[];
+  // Recurring contribution; its amount is the unknown when solving for the contribution
+  contributionPlan?: ContributionPlan;
+  startDate: string;
+  // First contribution date, so a plan can start after earlier transactions; defaults to startDate
+  contributionStartDate?: string;
+  // Required unless solving for the target date
+  endDate?: string;
   marketIndex?: string;
+  // Ignored when solving for the annual return, which always uses a constant rate
+  useHistoricalData?: boolean;
+  returnAssumption?: ReturnAssumption;
+  fees?: FeeSchedule;
+  // Currency of the cash flows and targetValue; defaults to the currency of marketIndex
+  reportingCurrency?: CurrencyCode;
+}
+
+export interface SolveResult {
+  solveFor: SolveFor;
+  targetValue: number;
+  // False when the target is out of reach within the search limits
+  reachable: boolean;
+  contributionAmount?: number;
+  contributionFrequency?: ContributionFrequency;
+  // Constant annual return, percent
+  annualReturn?: number;
+  // First month end with a balance at or above targetValue
+  targetDate?: string | null;
+  // Final value of the calculation run with the solved input
+  achievedValue: number;
+  // Number of engine runs the search needed
+  iterations: number;
+  marketIndex: string;
+  reportingCurrency: CurrencyCode;
+  dataVersion: string;
 }
 
 export interface MarketDataResponse {
@@ -89,6 +558,7 @@ export interface MarketDataResponse {
   averageReturn: number;
   historicalData: HistoricalDataPoint[];
   lastUpdated: string;
+  dataVersion?: string;
   period?: {
     startDate: string;
     endDate: string;
@@ -99,6 +569,10 @@ export interface MarketIndexInfo {
   id: string;
   name: string;
   averageReturn: number;
+  currency: CurrencyCode;
+  totalReturn?: boolean;
+  category?: MarketIndexCategory;
+  source?: string;
 }
 
 export interface HistoricalReturns {
@@ -109,6 +583,198 @@ export interface AllHistoricalReturns {
   [index: string]: HistoricalReturns;
 }
 
+// Monthly returns keyed by YYYY-MM
+export interface MonthlyReturns {
+  [month: string]: number;
+}
+
+export interface AllMonthlyReturns {
+  [index: string]: MonthlyReturns;
+}
+
+// Year-end US dollars per unit of a currency, keyed by year
+export interface FxSeries {
+  [year: number]: number;
+}
+
+// Annual-average consumer price index levels keyed by year
+export interface CpiSeries {
+  [year: number]: number;
+}
+
+// An index as a market-data provider describes it
+export interface MarketIndexDefinition {
+  id: string;
+  name: string;
+  averageReturn: number;
+  currency: CurrencyCode;
+  // CPI series for real terms; defaults to the one for the index's currency
+  cpiRegion?: string;
+  // Defaults to true
+  totalReturn?: boolean;
+  // Defaults to 'equity'
+  category?: MarketIndexCategory;
+  source?: string;
+}
+
+export type MarketSeriesGranularity = 'annual' | 'monthly';
+
+// One period's total return, dated YYYY for annual points and YYYY-MM for monthly ones
+export interface MarketSeriesPoint {
+  date: string;
+  return: number;
+}
+
+// A price level, dated YYYY-MM-DD or YYYY-MM
+export interface PricePoint {
+  date: string;
+  close: number;
+}
+
+// A house fund or model portfolio uploaded through the admin API, as price levels or monthly returns
+export interface CustomSeriesRequest {
+  // Required when creating; taken from the URL when updating
+  id?: string;
+  name: string;
+  currency: CurrencyCode;
+  // True when the figures include reinvested income, false for price return only
+  totalReturn: boolean;
+  // Where the figures come from, e.g. a data vendor or an internal fund report
+  source?: string;
+  // Defaults to 'equity'
+  category?: MarketIndexCategory;
+  prices?: PricePoint[];
+  // Monthly returns dated YYYY-MM
+  returns?: MarketSeriesPoint[];
+  // CPI series for real terms; required for currencies without one of their own
+  cpiRegion?: string;
+  // Keep monthly moves beyond the outlier limit instead of rejecting the series
+  allowOutliers?: boolean;
+}
+
+export interface CustomSeries extends Omit<CustomSeriesRequest, 'id'> {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CustomSeriesSummary {
+  id: string;
+  name: string;
+  currency: CurrencyCode;
+  totalReturn: boolean;
+  category?: MarketIndexCategory;
+  source?: string;
+  format: 'prices' | 'returns';
+  // First and last months with a return, as YYYY-MM
+  startMonth: string;
+  endMonth: string;
+  months: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A named blend of market indices, served as an index of its own
+export interface BenchmarkRequest {
+  // Required when creating; taken from the URL when updating
+  id?: string;
+  name: string;
+  // Weights by market index, summing to 1
+  allocation: PortfolioAllocation;
+  // Defaults to monthly
+  rebalancing?: RebalancingPolicy;
+  rebalanceBand?: number;
+  // Currency the blend is measured in; defaults to that of its largest component
+  currency?: CurrencyCode;
+}
+
+export interface Benchmark extends Omit<BenchmarkRequest, 'id'> {
+  id: string;
+  rebalancing: RebalancingPolicy;
+  currency: CurrencyCode;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type AccountType = 'taxable' | 'ira' | 'roth-ira' | '401k' | 'other';
+
+// A named set of transactions kept in the server's database
+export interface PortfolioRequest {
+  name: string;
+  description?: string;
+  // Defaults to 'taxable'
+  accountType?: AccountType;
+  // Currency the transactions are entered in; defaults to USD
+  baseCurrency?: CurrencyCode;
+  // Index the portfolio is calculated with by default; defaults to the S&P 500
+  marketIndex?: string;
+}
+
+export interface Portfolio extends PortfolioRequest {
+  id: string;
+  accountType: AccountType;
+  baseCurrency: CurrencyCode;
+  marketIndex: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PortfolioSummary extends Portfolio {
+  transactionCount: number;
+  scenarioCount: number;
+  // Dates of the earliest and latest transactions, when there are any
+  firstTransactionDate?: string;
+  lastTransactionDate?: string;
+}
+
+export interface PortfolioTransactionRequest extends Omit<Transaction, 'currency'> {
+  // When replacing the whole list, keeps the id of the transaction this one replaces
+  id?: string;
+  description?: string;
+}
+
+// Amounts are in the portfolio's base currency
+export interface PortfolioTransaction extends PortfolioTransactionRequest {
+  id: string;
+  portfolioId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Calculation settings saved with a portfolio; the transactions come from the portfolio itself
+export type ScenarioSettings = Omit<CalculationRequest, 'transactions'>;
+
+export interface ScenarioRequest {
+  name: string;
+  settings: ScenarioSettings;
+}
+
+export interface SavedScenario extends ScenarioRequest {
+  id: string;
+  portfolioId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Local user accounts; portfolios belong to the account that created them
+export interface User {
+  id: string;
+  email: string;
+  createdAt: string;
+}
+
+export interface Credentials {
+  email: string;
+  password: string;
+}
+
+// Returned by registration and login. The token goes in `Authorization: Bearer <token>`.
+export interface AuthSession {
+  token: string;
+  expiresAt: string;
+  user: User;
+}
+
 // API Response types
 export interface ApiErrorResponse {
   error: string;
@@ -117,4 +783,91 @@ export interface ApiErrorResponse {
 // Market data API types
 export type MarketDataApiResponse = MarketDataResponse | ApiErrorResponse;
 export type CalculationApiResponse = CalculationResult | ApiErrorResponse;
-export type MarketIndicesApiResponse = MarketIndexInfo[] | ApiErrorResponse;
\ No newline at end of file
+export type MarketIndicesApiResponse = MarketIndexInfo[] | ApiErrorResponse;
+export type SimulationApiResponse = SimulationResult | ApiErrorResponse;
+export type RollingBacktestApiResponse = RollingBacktestResult | ApiErrorResponse;
+export type SolveApiResponse = SolveResult | ApiErrorResponse;
+
+export interface LumpVsDcaRequest {
+  amount: number;
+  startDate: string;
+  // The DCA strategy invests the amount in equal installments over this many months
+  dcaMonths: number;
+  frequency?: RecurrenceFrequency;
+  // Defaults to the end of the DCA period
+  endDate?: string;
+  marketIndices?: string[];
+  granularity?: CalculationGranularity;
+}
+
+export interface StrategyValuePoint {
+  date: string;
+  amount: number;
+  contributions: number;
+}
+
+export interface StrategyOutcome {
+  finalAmount: number;
+  series: StrategyValuePoint[];
+}
+
+export interface LumpVsDcaComparison {
+  marketIndex: string;
+  lumpSum: StrategyOutcome;
+  dca: StrategyOutcome;
+  // Lump sum final value less the DCA final value
+  difference: number;
+  // difference as a percent of the DCA final value
+  differencePercent: number;
+  // Percent of historical start months where lump sum was ahead once the DCA period ended;
+  // null when the history is shorter than the DCA period
+  lumpSumWinRate: number | null;
+  startDatesTested: number;
+}
+
+export interface LumpVsDcaResult {
+  amount: number;
+  startDate: string;
+  endDate: string;
+  dcaMonths: number;
+  frequency: RecurrenceFrequency;
+  installments: number;
+  installmentAmount: number;
+  comparisons: LumpVsDcaComparison[];
+  dataVersion: string;
+}
+
+export type LumpVsDcaApiResponse = LumpVsDcaResult | ApiErrorResponse;
+
+// One index or allocation to run a batch's shared cash flows through
+export interface CalculationScenario {
+  // Defaults to the index name, or the allocation's weights and index names
+  label?: string;
+  marketIndex?: string;
+  allocation?: PortfolioAllocation;
+  rebalancing?: RebalancingPolicy;
+  rebalanceBand?: number;
+}
+
+export interface BatchCalculationRequest extends Omit<CalculationRequest, 'marketIndex' | 'allocation' | 'rebalancing' | 'rebalanceBand'> {
+  scenarios: CalculationScenario[];
+}
+
+export interface BatchCalculationItem {
+  label: string;
+  marketIndex: string;
+  allocation?: PortfolioAllocation;
+  result: CalculationResult;
+}
+
+export interface BatchCalculationResult {
+  // In the order of the request's scenarios
+  results: BatchCalculationItem[];
+  dataVersion: string;
+}
+
+export type BatchCalculationApiResponse = BatchCalculationResult | ApiErrorResponse;
+export type CustomSeriesApiResponse = CustomSeries | ApiErrorResponse;
+export type BenchmarkApiResponse = Benchmark | ApiErrorResponse;
+export type PortfolioApiResponse = PortfolioSummary | ApiErrorResponse;
+export type AuthApiResponse = AuthSession | ApiErrorResponse;
\ No newline at end of file
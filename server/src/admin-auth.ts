@@ -0,0 +1,25 @@
+// Guards the admin API with a shared key taken from the ADMIN_API_KEY environment variable
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+
+// Compares digests so the check takes as long however much of the key matches
+function matchesKey(token: string, key: string): boolean {
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(digest(token), digest(key));
+}
+
+// Expects `Authorization: Bearer <key>`. With no key configured the admin API stays switched off.
+export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey) {
+    res.status(503).json({ error: 'The admin API is disabled; set ADMIN_API_KEY to enable it' });
+    return;
+  }
+
+  const [scheme, token] = (req.headers.authorization || '').split(' ');
+  if (scheme !== 'Bearer' || !token || !matchesKey(token, adminKey)) {
+    res.status(401).json({ error: 'A valid admin key is required' });
+    return;
+  }
+  next();
+}
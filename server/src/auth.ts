@@ -0,0 +1,162 @@
+// Local user accounts: scrypt-hashed passwords and opaque bearer tokens backed by the sessions
+// table, so signing out or deleting an account takes effect straight away
+import crypto, { randomUUID } from 'crypto';
+import { promisify } from 'util';
+import { Request, Response, NextFunction } from 'express';
+import { AuthSession, Credentials, User } from './shared-types';
+import { AppDatabase } from './database';
+
+export const SESSION_LIFETIME_DAYS = 30;
+export const MIN_PASSWORD_LENGTH = 8;
+// Bounds the work a single login can make the server do
+const MAX_PASSWORD_LENGTH = 200;
+const MAX_EMAIL_LENGTH = 254;
+
+const SCRYPT_KEY_LENGTH = 64;
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+export interface AuthStore {
+  // Undefined when the email already has an account
+  register(credentials: Credentials): Promise<AuthSession | undefined>;
+  // Undefined when the email or password is wrong
+  login(credentials: Credentials): Promise<AuthSession | undefined>;
+  // The signed-in user for a bearer token, or undefined for an unknown or expired one
+  authenticate(token: string): User | undefined;
+  logout(token: string): void;
+}
+
+interface UserRow {
+  id: string;
+  email: string;
+  password_hash: string;
+  created_at: string;
+}
+
+// Returns an error message for unusable credentials, or null when they can be checked
+export function validateCredentials(request: any): string | null {
+  if (!request || typeof request !== 'object') {
+    return 'email and password are required';
+  }
+  const { email, password } = request;
+  if (typeof email !== 'string' || email.trim().length > MAX_EMAIL_LENGTH || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())) {
+    return 'email must be a valid email address';
+  }
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH || password.length > MAX_PASSWORD_LENGTH) {
+    return `password must be between ${MIN_PASSWORD_LENGTH} and ${MAX_PASSWORD_LENGTH} characters`;
+  }
+  return null;
+}
+
+// Accounts are looked up by the trimmed, lower-cased email
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+// Stored as scrypt:<salt>:<key>, both hex
+async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16);
+  const key = await scrypt(password, salt, SCRYPT_KEY_LENGTH);
+  return `scrypt:${salt.toString('hex')}:${key.toString('hex')}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, key] = stored.split(':');
+  if (scheme !== 'scrypt' || !salt || !key) {
+    return false;
+  }
+  const expected = Buffer.from(key, 'hex');
+  const actual = await scrypt(password, Buffer.from(salt, 'hex'), expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function toUser(row: UserRow): User {
+  return { id: row.id, email: row.email, createdAt: row.created_at };
+}
+
+export function createAuthStore(db: AppDatabase): AuthStore {
+  const statements = {
+    getUserByEmail: db.prepare('SELECT * FROM users WHERE email = ?'),
+    insertUser: db.prepare('INSERT INTO users (id, email, password_hash, created_at, updated_at) VALUES (?, ?, ?, ?, ?)'),
+    insertSession: db.prepare('INSERT INTO sessions (token_hash, user_id, created_at, expires_at) VALUES (?, ?, ?, ?)'),
+    getSessionUser: db.prepare(`
+      SELECT u.* FROM sessions s JOIN users u ON u.id = s.user_id
+      WHERE s.token_hash = ? AND s.expires_at > ?`),
+    deleteSession: db.prepare('DELETE FROM sessions WHERE token_hash = ?'),
+    deleteExpiredSessions: db.prepare('DELETE FROM sessions WHERE expires_at <= ?')
+  };
+
+  // Compared against when the email is unknown, so a login takes as long either way
+  const dummyHash = hashPassword(crypto.randomBytes(16).toString('hex'));
+
+  const startSession = (row: UserRow): AuthSession => {
+    const token = crypto.randomBytes(32).toString('base64url');
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + SESSION_LIFETIME_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    statements.deleteExpiredSessions.run(now.toISOString());
+    statements.insertSession.run(hashToken(token), row.id, now.toISOString(), expiresAt);
+    return { token, expiresAt, user: toUser(row) };
+  };
+
+  return {
+    register: async credentials => {
+      const email = normalizeEmail(credentials.email);
+      if (statements.getUserByEmail.get(email)) {
+        return undefined;
+      }
+      const passwordHash = await hashPassword(credentials.password);
+      const now = new Date().toISOString();
+      const row: UserRow = { id: randomUUID(), email, password_hash: passwordHash, created_at: now };
+      try {
+        statements.insertUser.run(row.id, email, passwordHash, now, now);
+      } catch (error: any) {
+        // Registered by another request while the password was hashing
+        if (error.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+          return undefined;
+        }
+        throw error;
+      }
+      return startSession(row);
+    },
+    login: async credentials => {
+      const row = statements.getUserByEmail.get(normalizeEmail(credentials.email)) as UserRow | undefined;
+      const matches = await verifyPassword(credentials.password, row ? row.password_hash : await dummyHash);
+      return row && matches ? startSession(row) : undefined;
+    },
+    authenticate: token => {
+      const row = statements.getSessionUser.get(hashToken(token), new Date().toISOString()) as UserRow | undefined;
+      return row && toUser(row);
+    },
+    logout: token => {
+      statements.deleteSession.run(hashToken(token));
+    }
+  };
+}
+
+export function bearerToken(req: Request): string | undefined {
+  const [scheme, token] = (req.headers.authorization || '').split(' ');
+  return scheme === 'Bearer' && token ? token : undefined;
+}
+
+// Expects `Authorization: Bearer <token>` from a login and makes the user available to the
+// route through currentUser
+export function requireUser(auth: AuthStore) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const token = bearerToken(req);
+    const user = token && auth.authenticate(token);
+    if (!user) {
+      res.status(401).json({ error: 'Sign in to use this endpoint' });
+      return;
+    }
+    res.locals.user = user;
+    next();
+  };
+}
+
+// The user requireUser let through
+export function currentUser(res: Response): User {
+  return res.locals.user as User;
+}
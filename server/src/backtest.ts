@@ -0,0 +1,194 @@
+// Rolling-window backtest: replays one contribution pattern from every historical start date
+import {
+  Transaction,
+  BacktestStep,
+  BacktestWindow,
+  RollingBacktestResult,
+  DecumulationPlan
+} from './shared-types';
+import { MARKET_DATA_VERSION, DEFAULT_MARKET_INDEX, getMonthlyReturnSeries } from './market-data';
+import { calculateCompoundInterestWithDates } from './compound-engine';
+import { monthIndex, shiftDate } from './trading-calendar';
+import { percentileValues } from './percentiles';
+import { validateCalculationRequest } from './calculation-request';
+
+export interface RollingBacktestOptions {
+  step?: BacktestStep;
+  thresholdReturn?: number;
+  decumulation?: DecumulationPlan;
+}
+
+function toWindow(
+  principal: number,
+  transactions: Transaction[],
+  startDate: string,
+  endDate: string,
+  marketIndex: string,
+  decumulation?: DecumulationPlan
+): BacktestWindow {
+  const { summary } = calculateCompoundInterestWithDates(
+    principal,
+    transactions,
+    startDate,
+    endDate,
+    true,
+    marketIndex,
+    { decumulation }
+  );
+  return {
+    startDate,
+    endDate,
+    finalAmount: summary.finalAmount,
+    totalContributions: summary.totalContributions,
+    cagr: summary.annualizedTimeWeightedReturn ?? 0,
+    moneyWeightedReturn: summary.moneyWeightedReturn ?? null,
+    ...(summary.decumulation && {
+      survived: summary.decumulation.survived,
+      longevityYears: summary.decumulation.longevityYears,
+      totalWithdrawn: summary.decumulation.totalWithdrawn
+    })
+  };
+}
+
+// Month offsets from the user's own period that keep the whole window inside the history;
+// yearly steps keep the user's calendar month
+export function windowShifts(startDate: string, endDate: string, marketIndex: string, step: BacktestStep): number[] {
+  const history = getMonthlyReturnSeries(marketIndex);
+  if (history.length === 0) {
+    return [];
+  }
+  const stepMonths = step === 'year' ? 12 : 1;
+  const minShift = monthIndex(`${history[0].month}-01`) - monthIndex(startDate);
+  const maxShift = monthIndex(`${history[history.length - 1].month}-01`) - monthIndex(endDate);
+
+  const shifts: number[] = [];
+  for (let shift = Math.ceil(minShift / stepMonths) * stepMonths; shift <= maxShift; shift += stepMonths) {
+    shifts.push(shift);
+  }
+  return shifts;
+}
+
+// Returns an error message when no window of the requested length fits in the history
+export function validateRollingBacktest(startDate: string, endDate: string, marketIndex: string, step: BacktestStep): string | null {
+  if (endDate < startDate) {
+    return 'End date must be after start date';
+  }
+  if (windowShifts(startDate, endDate, marketIndex, step).length === 0) {
+    return `The investment period is longer than the available ${marketIndex} history`;
+  }
+  return null;
+}
+
+// Returns an error message for an unusable /api/backtest/rolling request, or null when it can be run
+export function validateRollingBacktestRequest(request: any): string | null {
+  if (!request || typeof request !== 'object') {
+    return 'Backtest request body is required';
+  }
+
+  const {
+    initialAmount,
+    transactions = [],
+    startDate,
+    endDate,
+    marketIndex,
+    step = 'year',
+    thresholdReturn,
+    decumulation
+  } = request;
+
+  if (!Array.isArray(transactions)) {
+    return 'Transactions must be an array';
+  }
+
+  if (!startDate || !endDate || isNaN(Date.parse(startDate)) || isNaN(Date.parse(endDate))) {
+    return 'Valid start and end dates are required';
+  }
+
+  // Only the fields a window is calculated from; recurring rules, allocations and the rest
+  // aren't replayed
+  const sharedError = validateCalculationRequest({ initialAmount, transactions, startDate, endDate, marketIndex, decumulation });
+  if (sharedError) {
+    return sharedError;
+  }
+
+  if (step !== 'year' && step !== 'month') {
+    return "Step must be 'year' or 'month'";
+  }
+
+  if (thresholdReturn !== undefined && (typeof thresholdReturn !== 'number' || !isFinite(thresholdReturn))) {
+    return 'Threshold return must be a decimal annual rate';
+  }
+
+  return validateRollingBacktest(
+    new Date(startDate).toISOString().split('T')[0],
+    new Date(endDate).toISOString().split('T')[0],
+    marketIndex || DEFAULT_MARKET_INDEX,
+    step
+  );
+}
+
+export function runRollingBacktest(
+  principal: number,
+  transactions: Transaction[],
+  startDate: string,
+  endDate: string,
+  marketIndex: string,
+  options: RollingBacktestOptions = {}
+): RollingBacktestResult {
+  const step: BacktestStep = options.step || 'year';
+  const thresholdReturn = options.thresholdReturn ?? 0;
+  const windowMonths = monthIndex(endDate) - monthIndex(startDate) + 1;
+
+  const windows: BacktestWindow[] = [];
+  let actualWindow: BacktestWindow | undefined;
+  windowShifts(startDate, endDate, marketIndex, step).forEach(shift => {
+    const shifted = transactions.map(t => ({ ...t, date: shiftDate(t.date, shift) }));
+    const decumulation = options.decumulation && {
+      ...options.decumulation,
+      ...(options.decumulation.startDate && { startDate: shiftDate(options.decumulation.startDate, shift) })
+    };
+    const window = toWindow(principal, shifted, shiftDate(startDate, shift), shiftDate(endDate, shift), marketIndex, decumulation);
+    windows.push(window);
+    if (shift === 0) {
+      actualWindow = window;
+    }
+  });
+
+  // Best and worst are judged on what the investor ended up with, not on CAGR
+  const byFinalAmount = [...windows].sort((a, b) => a.finalAmount - b.finalAmount);
+  const beating = windows.filter(window => window.cagr > thresholdReturn * 100).length;
+
+  const result: RollingBacktestResult = {
+    marketIndex,
+    step,
+    windowMonths,
+    windowCount: windows.length,
+    finalAmount: percentileValues(windows.map(window => window.finalAmount)),
+    cagr: percentileValues(windows.map(window => window.cagr)),
+    worstWindow: byFinalAmount[0],
+    bestWindow: byFinalAmount[byFinalAmount.length - 1],
+    thresholdReturn,
+    windowsBeatingThreshold: Math.round((beating / windows.length) * 10000) / 100,
+    windows,
+    dataVersion: MARKET_DATA_VERSION
+  };
+
+  if (options.decumulation) {
+    const survived = windows.filter(window => window.survived).length;
+    result.decumulation = {
+      strategy: options.decumulation.strategy,
+      successRate: Math.round((survived / windows.length) * 10000) / 100,
+      longevityYears: percentileValues(windows.map(window => window.longevityYears ?? 0)),
+      totalWithdrawn: percentileValues(windows.map(window => window.totalWithdrawn ?? 0))
+    };
+  }
+
+  if (actualWindow) {
+    const actualAmount = actualWindow.finalAmount;
+    const below = windows.filter(window => window.finalAmount < actualAmount).length;
+    result.actualWindow = actualWindow;
+    result.actualWindowPercentile = Math.round((below / windows.length) * 10000) / 100;
+  }
+
+  return result;
+}
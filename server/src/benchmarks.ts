@@ -0,0 +1,222 @@
+// Composite benchmarks: named blends of market indices, kept as one JSON file each and served to
+// the market data repository as indices of their own
+import path from 'path';
+import {
+  Benchmark,
+  BenchmarkRequest,
+  MarketIndexCategory,
+  MarketIndexDefinition,
+  MarketSeriesPoint,
+  PortfolioAllocation
+} from './shared-types';
+import {
+  BUNDLED_DATA_DIR,
+  MarketDataProvider,
+  closesFromReturns,
+  returnsFromCloses,
+  annualizedGrowth,
+  withinRange
+} from './market-data-providers';
+import {
+  MARKET_INDICES,
+  CURRENCIES,
+  isValidCurrency,
+  getMonthlyReturnSeries,
+  getCurrencyReturn,
+  getMarketIndexProvider,
+  reloadMarketIndex
+} from './market-data';
+import { DEFAULT_REBALANCE_BAND, validateAllocation, validateRebalancing, isRebalanceDue } from './portfolio-allocation';
+import { createJsonFileStore, validateStoredId } from './json-file-store';
+
+export const DEFAULT_BENCHMARKS_DIR = path.join(BUNDLED_DATA_DIR, 'benchmarks');
+
+// Provider name the repository records for benchmark indices
+const BENCHMARK_PROVIDER = 'benchmarks';
+
+export interface BenchmarkStore {
+  provider: MarketDataProvider;
+  list(): Benchmark[];
+  get(id: string): Benchmark | undefined;
+  // Creates or replaces a validated benchmark and loads it into the market data repository
+  save(id: string, request: BenchmarkRequest): Promise<Benchmark>;
+  // False when there was no such benchmark
+  remove(id: string): Promise<boolean>;
+  // Benchmarks that hold the index
+  dependents(index: string): string[];
+  // Benchmarks holding the index that would share no full calendar year of monthly returns with
+  // their other components if its series covered only these months
+  dependentsBrokenBy(index: string, months: string[]): string[];
+  // Recomputes the benchmarks that hold an index after its series changed
+  refreshDependents(index: string): Promise<void>;
+}
+
+// Heaviest component, whose currency and CPI region the blend defaults to
+function largestComponent(allocation: PortfolioAllocation): string {
+  return Object.keys(allocation).reduce((largest, index) => (allocation[index] > allocation[largest] ? index : largest));
+}
+
+// Months in which every index has a monthly return. `replacement` stands in for the months of one
+// index, so a change to its series can be checked before it is saved.
+function sharedMonths(indices: string[], replacement?: { index: string; months: string[] }): string[] {
+  const series = indices.map(index => new Set(replacement && replacement.index === index
+    ? replacement.months
+    : getMonthlyReturnSeries(index).map(point => point.month)));
+  return Array.from(series[0]).filter(month => series.every(months => months.has(month))).sort();
+}
+
+// The repository needs at least one calendar year of a blend
+function hasFullYear(months: string[]): boolean {
+  return months.some(month => month.endsWith('-12') && months.filter(other => other.startsWith(month.slice(0, 5))).length === 12);
+}
+
+// Returns an error message for an unusable benchmark, or null when it can be stored
+export function validateBenchmark(request: any): string | null {
+  if (!request || typeof request !== 'object') {
+    return 'Benchmark body is required';
+  }
+
+  const { name, allocation, rebalancing, rebalanceBand, currency } = request;
+
+  if (typeof name !== 'string' || !name.trim()) {
+    return 'name is required';
+  }
+  const allocationError = validateAllocation(allocation) || validateRebalancing(rebalancing, rebalanceBand);
+  if (allocationError) {
+    return allocationError;
+  }
+  const nested = Object.keys(allocation).find(index => getMarketIndexProvider(index) === BENCHMARK_PROVIDER);
+  if (nested) {
+    return `A benchmark can't hold another benchmark: ${nested}`;
+  }
+  if (currency !== undefined && !isValidCurrency(currency)) {
+    return `currency must be one of ${Object.keys(CURRENCIES).join(', ')}`;
+  }
+
+  if (!hasFullYear(sharedMonths(Object.keys(allocation)))) {
+    return 'The benchmark components share no full calendar year of monthly returns';
+  }
+
+  return null;
+}
+
+// e.g. "60% S&P 500 / 40% FTSE 100, rebalanced monthly"
+function describeBenchmark(benchmark: Benchmark): string {
+  const weights = Object.keys(benchmark.allocation)
+    .map(index => `${Math.round(benchmark.allocation[index] * 100)}% ${MARKET_INDICES[index].name}`)
+    .join(' / ');
+  switch (benchmark.rebalancing) {
+    case 'none':
+      return `${weights}, never rebalanced`;
+    case 'threshold':
+      return `${weights}, rebalanced at ${Math.round((benchmark.rebalanceBand ?? DEFAULT_REBALANCE_BAND) * 100)}% drift`;
+    default:
+      return `${weights}, rebalanced ${benchmark.rebalancing}`;
+  }
+}
+
+// Monthly returns of the blend in its own currency. The sleeves start at their target weights,
+// grow with their components (converted unhedged) and are reset to target whenever the
+// rebalancing policy calls for it.
+function blendedReturns(benchmark: Benchmark): MarketSeriesPoint[] {
+  const indices = Object.keys(benchmark.allocation);
+  const targets = indices.map(index => benchmark.allocation[index]);
+  const returns = indices.map(index => new Map(getMonthlyReturnSeries(index).map(point => [point.month, point.return])));
+  const band = benchmark.rebalanceBand ?? DEFAULT_REBALANCE_BAND;
+  let sleeves = [...targets];
+
+  return sharedMonths(indices).map(month => {
+    const year = parseInt(month.slice(0, 4));
+    const monthOfYear = parseInt(month.slice(5, 7));
+    const before = sleeves.reduce((sum, value) => sum + value, 0);
+    sleeves = sleeves.map((value, i) =>
+      value * (1 + (returns[i].get(month) as number)) *
+      (1 + getCurrencyReturn(MARKET_INDICES[indices[i]].currency, benchmark.currency, year, monthOfYear))
+    );
+    const after = sleeves.reduce((sum, value) => sum + value, 0);
+    if (isRebalanceDue(benchmark.rebalancing, monthOfYear, sleeves, targets, band)) {
+      sleeves = targets.map(target => target * after);
+    }
+    return { date: month, return: after / before - 1 };
+  });
+}
+
+// The components' shared asset class, or 'multi-asset' for a blend across classes
+function blendCategory(indices: string[]): MarketIndexCategory {
+  const categories = new Set(indices.map(index => MARKET_INDICES[index].category));
+  return categories.size === 1 ? MARKET_INDICES[indices[0]].category : 'multi-asset';
+}
+
+function toDefinition(benchmark: Benchmark): MarketIndexDefinition {
+  const indices = Object.keys(benchmark.allocation);
+  return {
+    id: benchmark.id,
+    name: benchmark.name,
+    averageReturn: annualizedGrowth(closesFromReturns(blendedReturns(benchmark))),
+    currency: benchmark.currency,
+    cpiRegion: CURRENCIES[benchmark.currency].cpiRegion || MARKET_INDICES[largestComponent(benchmark.allocation)].cpiRegion,
+    totalReturn: indices.every(index => MARKET_INDICES[index].totalReturn),
+    category: blendCategory(indices),
+    source: describeBenchmark(benchmark)
+  };
+}
+
+// Benchmarks are written back to the directory on every change. The provider must come after
+// every provider whose indices the benchmarks hold, since blends are computed from the repository.
+export function createBenchmarkStore(directory: string): BenchmarkStore {
+  const files = createJsonFileStore<Benchmark>(directory, 'Benchmark',
+    benchmark => validateStoredId(benchmark.id) || validateBenchmark(benchmark));
+
+  const provider: MarketDataProvider = {
+    name: BENCHMARK_PROVIDER,
+    listIndices: async () => Object.values(files.all()).map(toDefinition),
+    getSeries: async (index, range) => {
+      const benchmark = files.all()[index];
+      if (!benchmark) {
+        return [];
+      }
+      const monthly = blendedReturns(benchmark);
+      return withinRange(range.granularity === 'monthly' ? monthly : returnsFromCloses(closesFromReturns(monthly), 'annual'), range);
+    }
+  };
+
+  const dependents = (index: string): string[] =>
+    Object.keys(files.all()).filter(id => files.all()[id].allocation[index] !== undefined).sort();
+
+  return {
+    provider,
+    list: () => Object.keys(files.all()).sort().map(id => files.all()[id]),
+    get: id => files.all()[id],
+    save: async (id, request) => {
+      const now = new Date().toISOString();
+      const rebalancing = request.rebalancing || 'monthly';
+      files.write({
+        id,
+        name: request.name.trim(),
+        allocation: { ...request.allocation },
+        rebalancing,
+        ...(rebalancing === 'threshold' && { rebalanceBand: request.rebalanceBand ?? DEFAULT_REBALANCE_BAND }),
+        currency: request.currency || MARKET_INDICES[largestComponent(request.allocation)].currency,
+        createdAt: files.all()[id]?.createdAt || now,
+        updatedAt: now
+      });
+      await reloadMarketIndex(provider, id);
+      return files.all()[id];
+    },
+    remove: async id => {
+      if (!files.remove(id)) {
+        return false;
+      }
+      await reloadMarketIndex(provider, id);
+      return true;
+    },
+    dependents,
+    dependentsBrokenBy: (index, months) =>
+      dependents(index).filter(id => !hasFullYear(sharedMonths(Object.keys(files.all()[id].allocation), { index, months }))),
+    refreshDependents: async index => {
+      for (const id of dependents(index)) {
+        await reloadMarketIndex(provider, id);
+      }
+    }
+  };
+}
@@ -0,0 +1,282 @@
+// Validation and execution of /api/calculate-compound requests, single or batched
+import {
+  Transaction,
+  CurrencyCode,
+  CalculationRequest,
+  CalculationResult,
+  CalculationScenario,
+  BatchCalculationRequest,
+  BatchCalculationResult
+} from './shared-types';
+import {
+  MARKET_DATA_VERSION,
+  MARKET_INDICES,
+  CURRENCIES,
+  DEFAULT_MARKET_INDEX,
+  isValidMarketIndex,
+  isValidCurrency,
+  getCpiYears,
+  convertAmount
+} from './market-data';
+import { calculateCompoundInterestWithDates } from './compound-engine';
+import { validateReturnAssumption } from './return-assumptions';
+import { validateAllocation, validateRebalancing } from './portfolio-allocation';
+import { validateFeeSchedule } from './fees';
+import { validateTaxProfile } from './taxes';
+import { validateDecumulationPlan } from './withdrawal-strategies';
+import { validateRecurringTransactions } from './recurring-transactions';
+
+export const MAX_BATCH_SCENARIOS = 12;
+
+// Drops malformed transactions and normalizes amounts to numbers
+export function parseTransactions(transactions: any[]): Transaction[] {
+  return transactions.filter((t: any) =>
+    t && t.date && t.amount && t.type &&
+    (t.type === 'deposit' || t.type === 'withdrawal') &&
+    !isNaN(parseFloat(t.amount.toString()))
+  ).map((t: any) => ({
+    ...t,
+    amount: parseFloat(t.amount.toString())
+  }));
+}
+
+// Returns an error message for an unusable request, or null when it can be calculated
+export function validateCalculationRequest(request: any): string | null {
+  const {
+    initialAmount,
+    principal, // Support both parameter names
+    transactions = [],
+    recurringTransactions,
+    startDate,
+    endDate,
+    returnAssumption,
+    marketIndex,
+    granularity = 'monthly',
+    riskFreeRate,
+    benchmark,
+    allocation,
+    rebalancing,
+    rebalanceBand,
+    realBaseYear,
+    fees,
+    taxProfile,
+    decumulation,
+    reportingCurrency,
+    currencyHedging
+  } = request;
+
+  if (!Array.isArray(transactions)) {
+    return 'Transactions must be an array';
+  }
+
+  // Use either initialAmount or principal
+  const startingAmount = initialAmount !== undefined ? initialAmount : principal;
+
+  // Validate that we have either an initial amount or transactions
+  const hasRecurring = Array.isArray(recurringTransactions) && recurringTransactions.length > 0;
+  if ((startingAmount === undefined || startingAmount === null) && transactions.length === 0 && !hasRecurring) {
+    return 'Either initial amount or transactions are required';
+  }
+
+  if (!startDate) {
+    return 'Start date is required';
+  }
+
+  const foreign = transactions.find((t: any) => t && t.currency !== undefined && !isValidCurrency(t.currency));
+  if (foreign) {
+    return `Transaction currency must be one of ${Object.keys(CURRENCIES).join(', ')}`;
+  }
+
+  const periodEnd = endDate || new Date().toISOString().split('T')[0];
+
+  if (recurringTransactions !== undefined) {
+    const recurringError = validateRecurringTransactions(recurringTransactions, periodEnd);
+    if (recurringError) {
+      return recurringError;
+    }
+  }
+
+  const index = marketIndex || DEFAULT_MARKET_INDEX;
+  if (!isValidMarketIndex(index)) {
+    return 'Invalid market index';
+  }
+
+  if (granularity !== 'daily' && granularity !== 'monthly') {
+    return "Granularity must be 'daily' or 'monthly'";
+  }
+
+  if (riskFreeRate !== undefined && (typeof riskFreeRate !== 'number' || !isFinite(riskFreeRate) || riskFreeRate <= -1)) {
+    return 'Risk-free rate must be a decimal rate greater than -1';
+  }
+
+  if (benchmark !== undefined && !isValidMarketIndex(benchmark)) {
+    return 'Invalid benchmark: use a market index or a stored benchmark';
+  }
+
+  if (returnAssumption !== undefined) {
+    const assumptionError = validateReturnAssumption(returnAssumption);
+    if (assumptionError) {
+      return assumptionError;
+    }
+  }
+
+  if (allocation !== undefined) {
+    const allocationError = validateAllocation(allocation) || validateRebalancing(rebalancing, rebalanceBand);
+    if (allocationError) {
+      return allocationError;
+    }
+  } else if (rebalancing !== undefined) {
+    return 'Rebalancing requires an allocation';
+  }
+
+  if (reportingCurrency !== undefined && !isValidCurrency(reportingCurrency)) {
+    return `Reporting currency must be one of ${Object.keys(CURRENCIES).join(', ')}`;
+  }
+
+  if (currencyHedging !== undefined && currencyHedging !== 'unhedged' && currencyHedging !== 'hedged') {
+    return "Currency hedging must be 'unhedged' or 'hedged'";
+  }
+
+  if (realBaseYear !== undefined) {
+    // Same region the engine deflates with: the reporting currency's, else the index's
+    const currency = isValidCurrency(reportingCurrency) ? reportingCurrency : MARKET_INDICES[index].currency;
+    const cpiYears = getCpiYears(CURRENCIES[currency].cpiRegion || MARKET_INDICES[index].cpiRegion);
+    if (!Number.isInteger(realBaseYear) || !cpiYears.includes(realBaseYear)) {
+      return `Real base year must be between ${cpiYears[0]} and ${cpiYears[cpiYears.length - 1]}`;
+    }
+  }
+
+  if (fees !== undefined) {
+    const feeError = validateFeeSchedule(fees);
+    if (feeError) {
+      return feeError;
+    }
+  }
+
+  if (taxProfile !== undefined) {
+    const taxError = validateTaxProfile(taxProfile);
+    if (taxError) {
+      return taxError;
+    }
+  }
+
+  if (decumulation !== undefined) {
+    const decumulationError = validateDecumulationPlan(decumulation, startDate, periodEnd);
+    if (decumulationError) {
+      return decumulationError;
+    }
+  }
+
+  return null;
+}
+
+// Transactions in another currency converted into the reporting currency, to the cent
+export function toReportingCurrency(transactions: Transaction[], reportingCurrency: CurrencyCode): Transaction[] {
+  return transactions.map(({ currency, ...transaction }) => {
+    if (!currency || currency === reportingCurrency) {
+      return transaction;
+    }
+    const date = new Date(transaction.date);
+    const amount = convertAmount(transaction.amount, currency, reportingCurrency, date.getUTCFullYear());
+    return { ...transaction, amount: Math.round(amount * 100) / 100 };
+  });
+}
+
+// Runs a request that passed validateCalculationRequest
+export function runCalculationRequest(request: CalculationRequest): CalculationResult {
+  const startingAmount = request.initialAmount !== undefined ? request.initialAmount : request.principal;
+  const marketIndex = request.marketIndex || DEFAULT_MARKET_INDEX;
+
+  return calculateCompoundInterestWithDates(
+    parseFloat(startingAmount?.toString() || '0'),
+    toReportingCurrency(parseTransactions(request.transactions || []), request.reportingCurrency || MARKET_INDICES[marketIndex].currency),
+    request.startDate,
+    request.endDate || new Date().toISOString().split('T')[0],
+    request.useHistoricalData !== false,
+    marketIndex,
+    {
+      recurringTransactions: request.recurringTransactions,
+      returnAssumption: request.returnAssumption,
+      granularity: request.granularity || 'monthly',
+      riskFreeRate: request.riskFreeRate,
+      benchmark: request.benchmark,
+      allocation: request.allocation,
+      rebalancing: request.rebalancing,
+      rebalanceBand: request.rebalanceBand,
+      realTerms: request.realTerms === true,
+      realBaseYear: request.realBaseYear,
+      fees: request.fees,
+      taxProfile: request.taxProfile,
+      decumulation: request.decumulation,
+      reportingCurrency: request.reportingCurrency,
+      currencyHedging: request.currencyHedging
+    }
+  );
+}
+
+// The shared cash flows and settings with one scenario's index or allocation swapped in
+function scenarioRequest(request: any, scenario: CalculationScenario): CalculationRequest {
+  return {
+    ...request,
+    marketIndex: scenario.marketIndex,
+    allocation: scenario.allocation,
+    rebalancing: scenario.rebalancing,
+    rebalanceBand: scenario.rebalanceBand
+  };
+}
+
+// e.g. "S&P 500" or "60% S&P 500 / 40% FTSE 100"
+function scenarioLabel(scenario: CalculationScenario): string {
+  if (scenario.label) {
+    return scenario.label;
+  }
+  if (scenario.allocation) {
+    return Object.keys(scenario.allocation)
+      .map(index => `${Math.round(scenario.allocation![index] * 100)}% ${MARKET_INDICES[index].name}`)
+      .join(' / ');
+  }
+  return MARKET_INDICES[scenario.marketIndex || DEFAULT_MARKET_INDEX].name;
+}
+
+export function validateBatchCalculationRequest(request: any): string | null {
+  if (!request || typeof request !== 'object') {
+    return 'Calculation request body is required';
+  }
+
+  const { scenarios } = request;
+  if (!Array.isArray(scenarios) || scenarios.length === 0) {
+    return 'scenarios must be a non-empty list of market indices or allocations';
+  }
+  if (scenarios.length > MAX_BATCH_SCENARIOS) {
+    return `At most ${MAX_BATCH_SCENARIOS} scenarios can be calculated at once`;
+  }
+
+  for (let i = 0; i < scenarios.length; i++) {
+    const scenario = scenarios[i];
+    if (!scenario || typeof scenario !== 'object') {
+      return `Scenario ${i + 1} must be an object`;
+    }
+    if (scenario.label !== undefined && typeof scenario.label !== 'string') {
+      return `Scenario ${i + 1} label must be a string`;
+    }
+    const scenarioError = validateCalculationRequest(scenarioRequest(request, scenario));
+    if (scenarioError) {
+      return `Scenario ${i + 1}: ${scenarioError}`;
+    }
+  }
+
+  return null;
+}
+
+// The same cash flows run through every scenario, in the order given
+export function runBatchCalculation(request: BatchCalculationRequest): BatchCalculationResult {
+  return {
+    results: request.scenarios.map(scenario => ({
+      label: scenarioLabel(scenario),
+      marketIndex: scenario.marketIndex || DEFAULT_MARKET_INDEX,
+      ...(scenario.allocation && { allocation: scenario.allocation }),
+      result: runCalculationRequest(scenarioRequest(request, scenario))
+    })),
+    dataVersion: MARKET_DATA_VERSION
+  };
+}
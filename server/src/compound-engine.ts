@@ -0,0 +1,766 @@
+// Compound interest engine driven by the market data repository
+import {
+  CalculationResult,
+  Transaction,
+  RealValues,
+  MonthlyDataPoint,
+  YearlyDataPoint,
+  DailyDataPoint,
+  ReturnAssumption,
+  CalculationGranularity,
+  PortfolioAllocation,
+  RebalancingPolicy,
+  SleeveSeries,
+  RebalancingEvent,
+  FeeSchedule,
+  AdvisoryBilling,
+  TaxProfile,
+  DecumulationPlan,
+  RecurringTransaction,
+  CurrencyCode,
+  CurrencyHedging
+} from './shared-types';
+import {
+  MARKET_DATA_VERSION,
+  MARKET_INDICES,
+  CURRENCIES,
+  DEFAULT_MARKET_INDEX,
+  getAnnualReturns,
+  getAnnualReturn,
+  getMonthlyReturn,
+  annualToMonthlyReturn,
+  getCpiYears,
+  getAnnualCpi,
+  getCpiLevel,
+  getCurrencyReturn,
+  convertAmount
+} from './market-data';
+import { getAssumedAnnualReturn } from './return-assumptions';
+import { daysInMonth, getTradingDays, monthIndex, toDateString } from './trading-calendar';
+import { CashFlow, xirr, annualizeGrowth } from './performance-metrics';
+import { MonthlyPerformance, calculateRiskMetrics, calculateBenchmarkComparison } from './risk-metrics';
+import {
+  DEFAULT_REBALANCE_BAND,
+  splitDeposit,
+  splitWithdrawal,
+  currentWeights,
+  isRebalanceDue
+} from './portfolio-allocation';
+import { DEFAULT_ADVISORY_BILLING, transactionFee, hasFees } from './fees';
+import { createTaxLedger } from './taxes';
+import { createWithdrawalPlanner } from './withdrawal-strategies';
+import { expandRecurringTransactions } from './recurring-transactions';
+
+export interface CalculationOptions {
+  // Rules expanded up to the end date and applied alongside the one-off transactions
+  recurringTransactions?: RecurringTransaction[];
+  // Used when useHistoricalData is false; defaults to the index's long-run average
+  returnAssumption?: ReturnAssumption;
+  // 'daily' compounds over trading days and applies each transaction on its own date
+  granularity?: CalculationGranularity;
+  // Annual decimal rate for Sharpe and Sortino ratios
+  riskFreeRate?: number;
+  // Market index or benchmark the portfolio's monthly returns are compared with
+  benchmark?: string;
+  // Multi-asset target weights; without one the whole portfolio tracks marketIndex
+  allocation?: PortfolioAllocation;
+  rebalancing?: RebalancingPolicy;
+  rebalanceBand?: number;
+  // Adds CPI-deflated values in dollars of realBaseYear, using the CPI of marketIndex's country
+  realTerms?: boolean;
+  realBaseYear?: number;
+  fees?: FeeSchedule;
+  taxProfile?: TaxProfile;
+  // Retirement withdrawals generated by a strategy, on top of any transactions
+  decumulation?: DecumulationPlan;
+  // Currency of the cash flows and results; defaults to the currency of marketIndex
+  reportingCurrency?: CurrencyCode;
+  currencyHedging?: CurrencyHedging;
+}
+
+// Decimal rate to a percentage rounded to two places
+function toPercent(rate: number): number {
+  return Math.round(rate * 10000) / 100;
+}
+
+export function calculateCompoundInterestWithDates(
+  principal: number, 
+  transactions: Transaction[], 
+  startDate: string, 
+  endDate: string, 
+  useHistoricalData: boolean, 
+  marketIndex: string = DEFAULT_MARKET_INDEX,
+  options: CalculationOptions = {}
+): CalculationResult {
+  // Parse dates properly to avoid timezone issues
+  const start = new Date(startDate);
+  start.setHours(12, 0, 0, 0); // Set to noon to avoid timezone issues
+  const end = new Date(endDate);
+  end.setHours(12, 0, 0, 0);
+  const startDateStr = start.toISOString().split('T')[0];
+  const endDateStr = end.toISOString().split('T')[0];
+  const granularity: CalculationGranularity = options.granularity || 'monthly';
+  const monthlyData: MonthlyDataPoint[] = [];
+  const yearlyData: YearlyDataPoint[] = [];
+  const dailyData: DailyDataPoint[] = [];
+  
+  // Each sleeve is one market index held at a target weight; a plain calculation is a single sleeve
+  const allocation: PortfolioAllocation = options.allocation || { [marketIndex]: 1 };
+  const sleeveIndices = Object.keys(allocation);
+  const targets = sleeveIndices.map(index => allocation[index]);
+  const rebalancing: RebalancingPolicy = options.rebalancing || 'none';
+  const rebalanceBand = options.rebalanceBand ?? DEFAULT_REBALANCE_BAND;
+  
+  // Years every sleeve has history for, so the average never mixes in a sleeve's fallback return
+  const historicalYears = Object.keys(getAnnualReturns(sleeveIndices[0])).filter(year =>
+    sleeveIndices.every(index => getAnnualReturns(index)[parseInt(year)] !== undefined)
+  );
+  const indexAverageReturn = MARKET_INDICES[marketIndex].averageReturn;
+  // Echoed in the summary; a portfolio without an explicit assumption uses each sleeve's own average
+  const returnAssumption: ReturnAssumption | undefined = useHistoricalData || (options.allocation && !options.returnAssumption)
+    ? undefined
+    : options.returnAssumption || { annualRate: indexAverageReturn };
+  
+  const sleeveAnnualReturn = (index: string, year: number): number => useHistoricalData
+    ? getAnnualReturn(index, year)
+    : getAssumedAnnualReturn(options.returnAssumption || {}, year, MARKET_INDICES[index].averageReturn);
+  const sleeveMonthlyReturn = (index: string, year: number, monthOfYear: number): number => useHistoricalData
+    ? getMonthlyReturn(index, year, monthOfYear)
+    : annualToMonthlyReturn(sleeveAnnualReturn(index, year));
+  
+  // Foreign sleeves earn their local return compounded with the move in their currency unless
+  // hedged. Assumed returns are taken to be in the reporting currency already.
+  const reportingCurrency: CurrencyCode = options.reportingCurrency || MARKET_INDICES[marketIndex].currency;
+  const hedging: CurrencyHedging = options.currencyHedging || 'unhedged';
+  const sleeveCurrencyReturn = (index: string, year: number, monthOfYear: number): number => useHistoricalData && hedging === 'unhedged'
+    ? getCurrencyReturn(MARKET_INDICES[index].currency, reportingCurrency, year, monthOfYear)
+    : 0;
+  const reportsCurrency = options.reportingCurrency !== undefined || options.currencyHedging !== undefined ||
+    sleeveIndices.some(index => MARKET_INDICES[index].currency !== reportingCurrency);
+  // Benchmarks always earn their historical returns, converted into the reporting currency
+  // like an unhedged sleeve unless the portfolio is hedged
+  const benchmarkReturn = (index: string, year: number, monthOfYear: number): number => {
+    const currencyReturn = hedging === 'unhedged' ? getCurrencyReturn(MARKET_INDICES[index].currency, reportingCurrency, year, monthOfYear) : 0;
+    return (1 + getMonthlyReturn(index, year, monthOfYear)) * (1 + currencyReturn) - 1;
+  };
+  
+  // Portfolio-level annual figures are weighted by the target allocation
+  const annualReturnFor = (year: number): number =>
+    sleeveIndices.reduce((sum, index, i) => sum + targets[i] * sleeveAnnualReturn(index, year), 0);
+  
+  // Rules in another currency, such as other portfolios' in a combined view, are converted one
+  // occurrence at a time, like one-off transactions
+  const rules = options.recurringTransactions || [];
+  const recurringOccurrences = expandRecurringTransactions(rules, endDateStr).map(occurrence => {
+    const currency = rules[occurrence.rule].currency;
+    if (!currency || currency === reportingCurrency) {
+      return occurrence;
+    }
+    const year = parseInt(occurrence.date.split('-')[0]);
+    return { ...occurrence, amount: Math.round(convertAmount(occurrence.amount, currency, reportingCurrency, year) * 100) / 100 };
+  });
+
+  // Sort transactions by date
+  const sortedTransactions = [...transactions, ...recurringOccurrences].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  
+  // Deflators convert a month's nominal dollars into dollars of the base year, using the reporting
+  // currency's CPI where one is bundled
+  const cpiRegion = CURRENCIES[reportingCurrency].cpiRegion || MARKET_INDICES[marketIndex].cpiRegion;
+  const cpiYears = getCpiYears(cpiRegion);
+  const realBaseYear = options.realBaseYear ?? Math.min(end.getFullYear(), cpiYears[cpiYears.length - 1]);
+  const baseCpi = options.realTerms ? getAnnualCpi(cpiRegion, realBaseYear) : 1;
+  const deflatorFor = (year: number, monthOfYear: number): number => options.realTerms
+    ? baseCpi / getCpiLevel(cpiRegion, year, monthOfYear)
+    : 1;
+  let monthDeflator = deflatorFor(start.getFullYear(), start.getMonth() + 1);
+  let realDeposits = principal * monthDeflator;
+  let realWithdrawals = 0;
+  
+  // Fees come out of the portfolio; the money-weighted return sees them through smaller balances
+  const fees: FeeSchedule = options.fees || {};
+  const expenseRatio = fees.expenseRatio || 0;
+  const advisoryFee = fees.advisoryFee || 0;
+  const advisoryBilling: AdvisoryBilling = fees.advisoryBilling || DEFAULT_ADVISORY_BILLING;
+  let expenseRatioFees = 0;
+  let advisoryFees = 0;
+  let transactionFees = transactionFee(fees.depositFee, principal);
+  let monthsUnbilled = 0;
+  
+  const feesToDate = () => expenseRatioFees + advisoryFees + transactionFees;
+  
+  // The same cash flows with no fees, for the value-without-fees comparison series
+  const withoutFees = hasFees(options.fees)
+    ? calculateCompoundInterestWithDates(
+        principal,
+        transactions.map(transaction => ({ ...transaction })),
+        startDate,
+        endDate,
+        useHistoricalData,
+        marketIndex,
+        { ...options, fees: undefined }
+      )
+    : null;
+  
+  let currentAmount = principal - transactionFees;
+  const sleeves = splitDeposit(currentAmount, targets);
+  const sleeveSeries: SleeveSeries[] = sleeveIndices.map((index, i) => ({
+    marketIndex: index,
+    targetWeight: targets[i],
+    finalAmount: 0,
+    data: []
+  }));
+  const rebalancingEvents: RebalancingEvent[] = [];
+  let maxDrift = 0;
+  let currentYear = start.getFullYear();
+  let currentMonth = start.getMonth(); // 0-11
+  
+  // Adjust for the fact that we want to start from the actual start month
+  // The loop processes the current month, so we don't need to adjust
+  let totalMonths = 0;
+  let totalContributions = principal;
+  let totalDeposits = principal;
+  let totalWithdrawals = 0;
+  let transactionIndex = 0;
+  let totalTradingDays = 0;
+  
+  // Money-weighted returns use investor-side cash flows at the date the engine applies them;
+  // time-weighted returns chain-link each period's growth while money is invested
+  const firstPeriodDateStr = granularity === 'daily'
+    ? startDateStr
+    : toDateString(start.getFullYear(), start.getMonth() + 1, 1);
+  const cashFlows: CashFlow[] = principal > 0 ? [{ date: firstPeriodDateStr, amount: -principal }] : [];
+  
+  // Capital-gains tax is paid out of withdrawn cash, so it is reported rather than taken from the
+  // portfolio; the dividend tax drag does come out of returns
+  const taxLedger = options.taxProfile ? createTaxLedger(options.taxProfile) : null;
+  const dividendTaxDrag = options.taxProfile?.dividendTaxDrag || 0;
+  let totalCapitalGainsTax = 0;
+  let totalDividendTax = 0;
+  let totalRealizedGains = 0;
+  taxLedger?.addBasis(firstPeriodDateStr, principal);
+  
+  // Decumulation pays a twelfth of each retirement year's withdrawal at the start of every month;
+  // the yearly amount is set by the strategy on each anniversary of the decumulation start
+  const planner = options.decumulation ? createWithdrawalPlanner(options.decumulation) : null;
+  const decumulationStartStr = options.decumulation?.startDate
+    ? new Date(options.decumulation.startDate).toISOString().split('T')[0]
+    : startDateStr;
+  const retirementPeriodMonths = monthIndex(endDateStr) - monthIndex(decumulationStartStr) + 1;
+  let retirementMonths = 0;
+  let retirementWithdrawal = 0;
+  let initialWithdrawal = 0;
+  let totalRetirementIncome = 0;
+  let yearRetirementIncome = 0;
+  let anniversaryCpi = 1;
+  let anniversaryTwrGrowth = 1;
+  // Assigned inside payRetirementIncome; the cast stops TypeScript narrowing it to null here
+  let depletionDateStr = null as string | null;
+  let yearCashFlows: CashFlow[] = [];
+  let twrGrowth = 1;
+  let yearTwrGrowth = 1;
+  let monthTwrGrowth = 1;
+  let monthInvested = false;
+  // Gross growth split between the sleeves' local returns and their currency moves
+  let marketGain = 0;
+  let currencyGain = 0;
+  let yearCurrencyGain = 0;
+  const monthlyPerformance: MonthlyPerformance[] = [];
+  // The benchmark's return for each month in monthlyPerformance
+  const benchmarkReturns: number[] = [];
+  let lastPeriodEndStr = firstPeriodDateStr;
+  
+  const recordCashFlow = (date: string, amount: number) => {
+    cashFlows.push({ date, amount });
+    yearCashFlows.push({ date, amount });
+  };
+  
+  const applyTransaction = (transaction: Transaction, effectiveDate: string) => {
+    if (transaction.type === 'deposit') {
+      const fee = transactionFee(fees.depositFee, transaction.amount);
+      transactionFees += fee;
+      splitDeposit(transaction.amount - fee, targets).forEach((part, i) => { sleeves[i] += part; });
+      currentAmount += transaction.amount - fee;
+      totalContributions += transaction.amount;
+      totalDeposits += transaction.amount;
+      realDeposits += transaction.amount * monthDeflator;
+      taxLedger?.addBasis(effectiveDate, transaction.amount);
+      recordCashFlow(effectiveDate, -transaction.amount);
+    } else if (transaction.type === 'withdrawal') {
+      // Prevent withdrawals from exceeding current portfolio value
+      const withdrawalAmount = Math.min(transaction.amount, Math.max(0, currentAmount));
+      const fee = transactionFee(fees.withdrawalFee, withdrawalAmount);
+      taxLedger?.realize(effectiveDate, withdrawalAmount, currentAmount, fee);
+      splitWithdrawal(withdrawalAmount, sleeves).forEach((part, i) => { sleeves[i] -= part; });
+      currentAmount -= withdrawalAmount;
+      totalWithdrawals += withdrawalAmount;
+      realWithdrawals += withdrawalAmount * monthDeflator;
+      // The fee comes out of the amount withdrawn, so the investor receives less
+      transactionFees += fee;
+      recordCashFlow(effectiveDate, withdrawalAmount - fee);
+      // Don't subtract from totalContributions - it should only track total deposits
+    }
+  };
+  
+  const payRetirementIncome = (effectiveDate: string) => {
+    if (!planner || depletionDateStr || monthIndex(effectiveDate) < monthIndex(decumulationStartStr)) {
+      return;
+    }
+    if (retirementMonths % 12 === 0) {
+      const cpiLevel = getCpiLevel(cpiRegion, currentYear, currentMonth + 1);
+      retirementWithdrawal = planner.nextYear({
+        portfolioValue: Math.max(0, currentAmount),
+        inflation: retirementMonths === 0 ? 0 : cpiLevel / anniversaryCpi - 1,
+        priorYearReturn: twrGrowth / anniversaryTwrGrowth - 1,
+        remainingYears: Math.ceil((retirementPeriodMonths - retirementMonths) / 12)
+      });
+      if (retirementMonths === 0) {
+        initialWithdrawal = retirementWithdrawal;
+      }
+      anniversaryCpi = cpiLevel;
+      anniversaryTwrGrowth = twrGrowth;
+    }
+    retirementMonths++;
+    
+    const withdrawnBefore = totalWithdrawals;
+    applyTransaction({ date: effectiveDate, amount: retirementWithdrawal / 12, type: 'withdrawal' }, effectiveDate);
+    totalRetirementIncome += totalWithdrawals - withdrawnBefore;
+    yearRetirementIncome += totalWithdrawals - withdrawnBefore;
+    // Running dry in the final month is how spend-down strategies are meant to end
+    if (retirementWithdrawal > 0 && currentAmount < 0.005 && retirementMonths < retirementPeriodMonths) {
+      depletionDateStr = effectiveDate;
+    }
+  };
+  
+  // Contributions are deflated as of each deposit, the balance as of the current month
+  const realValues = (): RealValues => {
+    const amount = currentAmount * monthDeflator;
+    return {
+      amount: Math.round(amount * 100) / 100,
+      contributions: Math.round(realDeposits * 100) / 100,
+      netInvestment: Math.round((realDeposits - realWithdrawals) * 100) / 100,
+      gains: Math.round((amount - realDeposits) * 100) / 100
+    };
+  };
+  
+  // Real-terms and fee fields shared by daily, monthly and yearly points; noFeePoint is the
+  // matching point of the no-fee run
+  const pointExtras = (noFeePoint?: { amount: number; real?: RealValues }) => ({
+    ...(options.realTerms && {
+      real: { ...realValues(), ...(noFeePoint?.real && { valueWithoutFees: noFeePoint.real.amount }) }
+    }),
+    ...(withoutFees && {
+      cumulativeFees: Math.round(feesToDate() * 100) / 100,
+      valueWithoutFees: noFeePoint?.amount
+    })
+  });
+  
+  // The no-fee run's daily point for a date. It records only trading and transaction days, so a
+  // billing day on a weekend or holiday reads its latest point before then, which no return has
+  // moved since. Dates only ever advance, so the search carries on from the last match.
+  let noFeeDayIndex = -1;
+  const noFeeDailyPoint = (dayStr: string) => {
+    const series = withoutFees?.dailyData || [];
+    while (noFeeDayIndex + 1 < series.length && series[noFeeDayIndex + 1].date <= dayStr) {
+      noFeeDayIndex++;
+    }
+    return noFeeDayIndex >= 0 ? series[noFeeDayIndex] : undefined;
+  };
+  
+  // Grows every sleeve by its own rate, less the fund expense and dividend tax shares for the
+  // period (periodsPerYear of them a year), and returns the portfolio's gross market rate.
+  // localRates are the same rates before currency conversion.
+  const grow = (rates: number[], periodsPerYear: number, localRates: number[]): number => {
+    const weights = currentAmount > 0 ? currentWeights(sleeves) : targets;
+    const rate = rates.reduce((sum, sleeveRate, i) => sum + weights[i] * sleeveRate, 0);
+    const expenseShare = expenseRatio > 0 ? 1 - Math.pow(1 - expenseRatio, 1 / periodsPerYear) : 0;
+    const dividendTaxShare = dividendTaxDrag > 0 ? 1 - Math.pow(1 - dividendTaxDrag, 1 / periodsPerYear) : 0;
+    const netGrowth = (1 + rate) * (1 - expenseShare) * (1 - dividendTaxShare);
+    if (currentAmount > 0) {
+      twrGrowth *= netGrowth;
+      yearTwrGrowth *= netGrowth;
+      monthTwrGrowth *= netGrowth;
+      monthInvested = true;
+      expenseRatioFees += currentAmount * (1 + rate) * expenseShare;
+      taxLedger?.addDividendTax(currentAmount * (1 + rate) * (1 - expenseShare) * dividendTaxShare);
+    }
+    rates.forEach((sleeveRate, i) => {
+      marketGain += sleeves[i] * localRates[i];
+      currencyGain += sleeves[i] * (sleeveRate - localRates[i]);
+      yearCurrencyGain += sleeves[i] * (sleeveRate - localRates[i]);
+    });
+    rates.forEach((sleeveRate, i) => { sleeves[i] *= (1 + sleeveRate) * (1 - expenseShare) * (1 - dividendTaxShare); });
+    currentAmount *= netGrowth;
+    return rate;
+  };
+  
+  // Advisory fees are a performance cost, so they also reduce the time-weighted return.
+  // They accrue monthly and are billed on the balance at each billing date.
+  const billAdvisoryFee = () => {
+    const fee = currentAmount * advisoryFee * monthsUnbilled / 12;
+    monthsUnbilled = 0;
+    if (fee <= 0 || currentAmount <= 0) {
+      return;
+    }
+    const remaining = 1 - Math.min(fee, currentAmount) / currentAmount;
+    twrGrowth *= remaining;
+    yearTwrGrowth *= remaining;
+    monthTwrGrowth *= remaining;
+    sleeves.forEach((value, i) => { sleeves[i] = value * remaining; });
+    advisoryFees += currentAmount * (1 - remaining);
+    currentAmount *= remaining;
+  };
+  
+  // Daily mode: transactions before the start month are ignored, as in monthly mode
+  if (granularity === 'daily') {
+    const startMonthStr = toDateString(start.getFullYear(), start.getMonth() + 1, 1);
+    while (transactionIndex < sortedTransactions.length && sortedTransactions[transactionIndex].date.slice(0, 10) < startMonthStr) {
+      transactionIndex++;
+    }
+  }
+  
+  while (currentYear < end.getFullYear() || (currentYear === end.getFullYear() && currentMonth <= end.getMonth())) {
+    monthDeflator = deflatorFor(currentYear, currentMonth + 1);
+    const localReturns = sleeveIndices.map(index => sleeveMonthlyReturn(index, currentYear, currentMonth + 1));
+    const sleeveReturns = localReturns.map((rate, i) => {
+      const currencyReturn = sleeveCurrencyReturn(sleeveIndices[i], currentYear, currentMonth + 1);
+      return currencyReturn === 0 ? rate : (1 + rate) * (1 + currencyReturn) - 1;
+    });
+    // Reported return for the month, weighted by the sleeves as they stand at the start of it
+    const startWeights = currentAmount > 0 ? currentWeights(sleeves) : targets;
+    let monthlyReturn = sleeveReturns.reduce((sum, rate, i) => sum + startWeights[i] * rate, 0);
+    
+    // Create current date for this iteration
+    const currentDate = new Date(currentYear, currentMonth, 1);
+    const currentDateStr = currentDate.toISOString().split('T')[0];
+    const currentYearNum = currentYear;
+    const currentMonthNum = currentMonth;
+    const monthStartStr = toDateString(currentYearNum, currentMonthNum + 1, 1);
+    const monthEndStr = toDateString(currentYearNum, currentMonthNum + 1, daysInMonth(currentYearNum, currentMonthNum + 1));
+    const periodStartStr = granularity === 'daily' && monthStartStr < startDateStr ? startDateStr : monthStartStr;
+    const periodEndStr = granularity === 'daily' && monthEndStr > endDateStr ? endDateStr : monthEndStr;
+    
+    // Open a new year for per-year returns, treating the carried-in balance as the first cash flow
+    if (currentMonth === 0 || totalMonths === 0) {
+      yearCashFlows = currentAmount > 0 ? [{ date: periodStartStr, amount: -currentAmount }] : [];
+      yearTwrGrowth = 1;
+    }
+    monthTwrGrowth = 1;
+    monthInvested = false;
+    
+    // Whatever is still unbilled is charged in the final month
+    monthsUnbilled++;
+    const isLastMonth = currentYear === end.getFullYear() && currentMonth === end.getMonth();
+    const isBillingMonth = advisoryFee > 0 && (advisoryBilling === 'monthly' || (currentMonth + 1) % 3 === 0 || isLastMonth);
+    
+    if (granularity === 'daily') {
+      // Spread the month's return geometrically over its trading days so the month still compounds to it
+      const tradingDays = getTradingDays(currentYearNum, currentMonthNum + 1);
+      const toDaily = (rate: number) => tradingDays.length > 0 ? Math.pow(1 + rate, 1 / tradingDays.length) - 1 : 0;
+      const dailyReturns = sleeveReturns.map(toDaily);
+      const dailyLocalReturns = localReturns.map(toDaily);
+      
+      for (let day = 1; day <= daysInMonth(currentYearNum, currentMonthNum + 1); day++) {
+        const dayStr = toDateString(currentYearNum, currentMonthNum + 1, day);
+        if (dayStr < startDateStr || dayStr > endDateStr) {
+          continue;
+        }
+        
+        // Transactions settle at the start of their own day, before that day's return
+        let hadTransaction = false;
+        while (transactionIndex < sortedTransactions.length && sortedTransactions[transactionIndex].date.slice(0, 10) <= dayStr) {
+          applyTransaction(sortedTransactions[transactionIndex], dayStr);
+          transactionIndex++;
+          hadTransaction = true;
+        }
+        if (dayStr === periodStartStr && planner) {
+          payRetirementIncome(dayStr);
+          hadTransaction = true;
+        }
+        
+        const isTradingDay = tradingDays.includes(dayStr);
+        const dailyReturn = isTradingDay ? grow(dailyReturns, 12 * tradingDays.length, dailyLocalReturns) : 0;
+        if (isTradingDay) {
+          totalTradingDays++;
+        }
+        
+        const isBillingDay = isBillingMonth && dayStr === periodEndStr;
+        if (isBillingDay) {
+          billAdvisoryFee();
+        }
+        
+        if (isTradingDay || hadTransaction || isBillingDay) {
+          dailyData.push({
+            date: dayStr,
+            amount: Math.round(currentAmount * 100) / 100,
+            contributions: Math.round(totalContributions * 100) / 100,
+            netInvestment: Math.round((totalDeposits - totalWithdrawals) * 100) / 100,
+            gains: Math.round((currentAmount - totalContributions) * 100) / 100,
+            dailyReturn: (dailyReturn * 100).toFixed(4),
+            ...pointExtras(withoutFees ? noFeeDailyPoint(dayStr) : undefined)
+          });
+        }
+      }
+    } else {
+      while (transactionIndex < sortedTransactions.length) {
+        const transaction = sortedTransactions[transactionIndex];
+        const transactionDate = new Date(transaction.date);
+        
+        // Check if transaction is in current month
+        if (transactionDate.getFullYear() === currentYearNum && 
+            transactionDate.getMonth() === currentMonthNum) {
+          applyTransaction(transaction, monthStartStr);
+          transactionIndex++;
+        } else if (transactionDate > currentDate) {
+          break;
+        } else {
+          transactionIndex++;
+        }
+      }
+      
+      payRetirementIncome(monthStartStr);
+      
+      // Compound this month's total return
+      monthlyReturn = grow(sleeveReturns, 12, localReturns);
+      if (isBillingMonth) {
+        billAdvisoryFee();
+      }
+    }
+    
+    totalMonths++;
+    lastPeriodEndStr = periodEndStr;
+    
+    // Sleeve values and drift are recorded at month end, before any rebalance
+    if (options.allocation) {
+      const weights = currentWeights(sleeves);
+      sleeveSeries.forEach((series, i) => {
+        const drift = toPercent(weights[i] - targets[i]);
+        maxDrift = Math.max(maxDrift, Math.abs(drift));
+        series.data.push({
+          date: currentDateStr,
+          amount: Math.round(sleeves[i] * 100) / 100,
+          weight: toPercent(weights[i]),
+          drift
+        });
+      });
+      
+      if (currentAmount > 0 && isRebalanceDue(rebalancing, currentMonthNum + 1, sleeves, targets, rebalanceBand)) {
+        const trades = sleeves.map((value, i) => targets[i] * currentAmount - value);
+        const turnover = trades.reduce((sum, trade) => sum + Math.max(0, trade), 0);
+        if (turnover >= 0.01) {
+          rebalancingEvents.push({
+            date: periodEndStr,
+            weightsBefore: Object.fromEntries(sleeveIndices.map((index, i) => [index, toPercent(weights[i])])),
+            trades: Object.fromEntries(sleeveIndices.map((index, i) => [index, Math.round(trades[i] * 100) / 100])),
+            turnover: Math.round(turnover * 100) / 100
+          });
+        }
+        trades.forEach((trade, i) => { sleeves[i] += trade; });
+      }
+    }
+    
+    // Risk statistics only look at months that had money invested
+    if (monthInvested) {
+      monthlyPerformance.push({ date: currentDateStr, periodReturn: monthTwrGrowth - 1 });
+      if (options.benchmark) {
+        benchmarkReturns.push(benchmarkReturn(options.benchmark, currentYearNum, currentMonthNum + 1));
+      }
+    }
+    
+    const currentGains = currentAmount - totalContributions;
+    const currentNetInvestment = totalDeposits - totalWithdrawals;
+    
+    monthlyData.push({
+      month: totalMonths,
+      year: currentYear,
+      monthOfYear: currentMonth + 1, // 1-12
+      date: currentDateStr,
+      amount: Math.round(currentAmount * 100) / 100,
+      contributions: Math.round(totalContributions * 100) / 100,
+      netInvestment: Math.round(currentNetInvestment * 100) / 100,
+      gains: Math.round(currentGains * 100) / 100,
+      monthlyReturn: (monthlyReturn * 100).toFixed(2),
+      ...pointExtras(withoutFees?.monthlyData[monthlyData.length])
+    });
+    
+    // If it's December, add yearly data
+    if (currentMonth === 11) {
+      const totalGains = currentAmount - totalContributions;
+      const roi = totalContributions > 0 ? ((totalGains / totalContributions) * 100) : 0;
+      const yearlyNetInvestment = totalDeposits - totalWithdrawals;
+      const yearMoneyWeightedReturn = xirr([...yearCashFlows, { date: periodEndStr, amount: currentAmount }]);
+      const yearTaxes = taxLedger?.settleYear();
+      if (yearTaxes) {
+        totalCapitalGainsTax += yearTaxes.capitalGainsTax;
+        totalDividendTax += yearTaxes.dividendTax;
+        totalRealizedGains += yearTaxes.realizedGains;
+      }
+      
+      yearlyData.push({
+        year: currentYear,
+        date: currentDateStr,
+        amount: Math.round(currentAmount * 100) / 100,
+        contributions: Math.round(totalContributions * 100) / 100,
+        netInvestment: Math.round(yearlyNetInvestment * 100) / 100,
+        gains: Math.round(totalGains * 100) / 100,
+        roi: Math.round(roi * 100) / 100,
+        annualReturn: (annualReturnFor(currentYear) * 100).toFixed(2),
+        moneyWeightedReturn: yearMoneyWeightedReturn === null ? null : toPercent(yearMoneyWeightedReturn),
+        timeWeightedReturn: toPercent(yearTwrGrowth - 1),
+        ...pointExtras(withoutFees?.yearlyData[yearlyData.length]),
+        ...(yearTaxes && {
+          realizedGains: Math.round(yearTaxes.realizedGains * 100) / 100,
+          taxesPaid: Math.round((yearTaxes.capitalGainsTax + yearTaxes.dividendTax) * 100) / 100
+        }),
+        ...(planner && { retirementIncome: Math.round(yearRetirementIncome * 100) / 100 }),
+        ...(reportsCurrency && { currencyGain: Math.round(yearCurrencyGain * 100) / 100 })
+      });
+      yearRetirementIncome = 0;
+      yearCurrencyGain = 0;
+    }
+    
+    // Move to next month
+    currentMonth++;
+    if (currentMonth > 11) {
+      currentMonth = 0;
+      currentYear++;
+    }
+  }
+  
+  const finalAmount = currentAmount;
+  
+  // A period ending mid-year still owes that year's taxes
+  const finalYearTaxes = taxLedger?.settleYear();
+  if (finalYearTaxes) {
+    totalCapitalGainsTax += finalYearTaxes.capitalGainsTax;
+    totalDividendTax += finalYearTaxes.dividendTax;
+    totalRealizedGains += finalYearTaxes.realizedGains;
+  }
+  const liquidationTax = taxLedger ? taxLedger.liquidationTax(lastPeriodEndStr, finalAmount) : 0;
+  
+  // Calculate gross activity metrics
+  // totalDeposits is already calculated in the loop above
+  
+  // totalWithdrawals is already calculated in the loop above
+  
+  const netInvestment = totalDeposits - totalWithdrawals;
+  
+  // Calculate gains based on different perspectives
+  const totalGains = finalAmount - totalContributions; // Gains vs actual contributions
+  const netGains = finalAmount - netInvestment; // Gains vs net investment
+  
+  const moneyWeightedReturn = xirr([...cashFlows, { date: lastPeriodEndStr, amount: finalAmount }]);
+  const annualizedTimeWeightedReturn = annualizeGrowth(twrGrowth, firstPeriodDateStr, lastPeriodEndStr);
+  
+  const totalROI = totalContributions > 0 ? ((totalGains / totalContributions) * 100) : 0;
+  const netROI = netInvestment !== 0 ? ((netGains / Math.abs(netInvestment)) * 100) : 0;
+  
+  // Calculate average return for the period (every year is covered when assuming returns)
+  const years = !useHistoricalData
+    ? Array.from({ length: end.getFullYear() - start.getFullYear() + 1 }, (_, i) => (start.getFullYear() + i).toString())
+    : historicalYears.filter(year => 
+        parseInt(year) >= start.getFullYear() && parseInt(year) <= end.getFullYear()
+      );
+  const avgReturn = years.reduce((sum, year) => 
+    sum + annualReturnFor(parseInt(year)), 0
+  ) / years.length;
+  
+  return {
+    summary: {
+      finalAmount: Math.round(finalAmount * 100) / 100,
+      totalContributions: Math.round(totalContributions * 100) / 100,
+      totalGains: Math.round(totalGains * 100) / 100,
+      totalROI: Math.round(totalROI * 100) / 100,
+      // New gross activity metrics
+      totalDeposits: Math.round(totalDeposits * 100) / 100,
+      totalWithdrawals: Math.round(totalWithdrawals * 100) / 100,
+      netInvestment: Math.round(netInvestment * 100) / 100,
+      netGains: Math.round(netGains * 100) / 100,
+      netROI: Math.round(netROI * 100) / 100,
+      moneyWeightedReturn: moneyWeightedReturn === null ? null : toPercent(moneyWeightedReturn),
+      timeWeightedReturn: toPercent(twrGrowth - 1),
+      annualizedTimeWeightedReturn: toPercent(annualizedTimeWeightedReturn),
+      averageAnnualReturn: (avgReturn * 100).toFixed(2),
+      dataVersion: MARKET_DATA_VERSION,
+      useHistoricalData,
+      ...(returnAssumption && { returnAssumption }),
+      granularity,
+      ...(options.realTerms && {
+        real: {
+          ...realValues(),
+          baseYear: realBaseYear,
+          cpiRegion,
+          cumulativeInflation: toPercent(
+            getCpiLevel(cpiRegion, end.getFullYear(), end.getMonth() + 1) / getCpiLevel(cpiRegion, start.getFullYear(), start.getMonth() + 1) - 1
+          )
+        }
+      }),
+      ...(withoutFees && {
+        fees: {
+          totalFees: Math.round(feesToDate() * 100) / 100,
+          expenseRatioFees: Math.round(expenseRatioFees * 100) / 100,
+          advisoryFees: Math.round(advisoryFees * 100) / 100,
+          transactionFees: Math.round(transactionFees * 100) / 100,
+          valueWithoutFees: withoutFees.summary.finalAmount,
+          costOfFees: Math.round((withoutFees.summary.finalAmount - finalAmount) * 100) / 100
+        }
+      }),
+      ...(taxLedger && {
+        afterTaxFinalValue: Math.round((finalAmount - liquidationTax) * 100) / 100,
+        taxes: {
+          totalTaxesPaid: Math.round((totalCapitalGainsTax + totalDividendTax) * 100) / 100,
+          capitalGainsTax: Math.round(totalCapitalGainsTax * 100) / 100,
+          dividendTax: Math.round(totalDividendTax * 100) / 100,
+          realizedGains: Math.round(totalRealizedGains * 100) / 100,
+          costBasis: Math.round(taxLedger.totalBasis() * 100) / 100,
+          unrealizedGains: Math.round((finalAmount - taxLedger.totalBasis()) * 100) / 100,
+          liquidationTax: Math.round(liquidationTax * 100) / 100
+        }
+      }),
+      ...(options.decumulation && {
+        decumulation: {
+          strategy: options.decumulation.strategy,
+          startDate: decumulationStartStr,
+          initialWithdrawal: Math.round(initialWithdrawal * 100) / 100,
+          totalWithdrawn: Math.round(totalRetirementIncome * 100) / 100,
+          longevityYears: Math.round(((depletionDateStr ? retirementMonths : Math.max(0, retirementPeriodMonths)) / 12) * 100) / 100,
+          survived: depletionDateStr === null,
+          depletionDate: depletionDateStr,
+          depletionYear: depletionDateStr ? parseInt(depletionDateStr.slice(0, 4)) : null
+        }
+      }),
+      ...(reportsCurrency && {
+        currency: {
+          reportingCurrency,
+          hedging,
+          indexCurrencies: Object.fromEntries(sleeveIndices.map(index => [index, MARKET_INDICES[index].currency])),
+          marketGain: Math.round(marketGain * 100) / 100,
+          currencyGain: Math.round(currencyGain * 100) / 100
+        }
+      }),
+      investmentPeriod: {
+        startDate: startDateStr,
+        endDate: endDateStr,
+        totalMonths,
+        ...(granularity === 'daily' && { tradingDays: totalTradingDays })
+      }
+    },
+    monthlyData,
+    yearlyData,
+    ...(granularity === 'daily' && { dailyData }),
+    risk: calculateRiskMetrics(firstPeriodDateStr, monthlyPerformance, options.riskFreeRate),
+    ...(options.benchmark && {
+      benchmark: calculateBenchmarkComparison(options.benchmark, MARKET_INDICES[options.benchmark].name, monthlyPerformance, benchmarkReturns)
+    }),
+    ...(options.allocation && {
+      portfolio: {
+        allocation,
+        rebalancing,
+        ...(rebalancing === 'threshold' && { rebalanceBand }),
+        sleeves: sleeveSeries.map((series, i) => ({ ...series, finalAmount: Math.round(sleeves[i] * 100) / 100 })),
+        rebalancingEvents,
+        maxDrift
+      }
+    }),
+    ...(options.recurringTransactions && { recurringOccurrences })
+  };
+}
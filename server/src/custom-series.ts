@@ -0,0 +1,218 @@
+// Custom index and fund series managed through the admin API, kept as one JSON file per series
+// and served to the market data repository like any other provider
+import path from 'path';
+import {
+  CustomSeries,
+  CustomSeriesRequest,
+  CustomSeriesSummary,
+  MarketIndexDefinition
+} from './shared-types';
+import {
+  BUNDLED_DATA_DIR,
+  MARKET_INDEX_CATEGORIES,
+  MarketDataProvider,
+  MonthEndCloses,
+  monthEndCloses,
+  closesFromReturns,
+  returnsFromCloses,
+  annualizedGrowth,
+  withinRange
+} from './market-data-providers';
+import { CURRENCIES, isValidCurrency, getCpiYears, reloadMarketIndex } from './market-data';
+import { monthIndex } from './trading-calendar';
+import { createJsonFileStore, validateStoredId } from './json-file-store';
+
+export const DEFAULT_CUSTOM_SERIES_DIR = path.join(BUNDLED_DATA_DIR, 'custom');
+
+// Monthly moves larger than this are rejected as likely data errors unless allowOutliers is set
+export const OUTLIER_MONTHLY_RETURN = 0.5;
+// Enough for several decades of daily prices
+export const MAX_SERIES_POINTS = 20000;
+
+export interface CustomSeriesStore {
+  provider: MarketDataProvider;
+  list(): CustomSeriesSummary[];
+  get(id: string): CustomSeries | undefined;
+  // Creates or replaces a validated series and loads it into the market data repository
+  save(id: string, request: CustomSeriesRequest): Promise<CustomSeries>;
+  // False when there was no such series
+  remove(id: string): Promise<boolean>;
+}
+
+function seriesCloses(series: CustomSeriesRequest): MonthEndCloses {
+  return series.prices ? monthEndCloses(series.prices) : closesFromReturns(series.returns || []);
+}
+
+// Months a validated series gives a monthly return for, as the repository will see them
+export function seriesMonths(series: CustomSeriesRequest): string[] {
+  return returnsFromCloses(seriesCloses(series), 'monthly').map(point => point.date);
+}
+
+// Returns an error message for a series that can't be stored, or null when it is usable
+export function validateCustomSeries(request: any): string | null {
+  if (!request || typeof request !== 'object') {
+    return 'Series body is required';
+  }
+
+  const { name, currency, totalReturn, source, category, prices, returns, cpiRegion, allowOutliers } = request;
+
+  if (typeof name !== 'string' || !name.trim()) {
+    return 'name is required';
+  }
+  if (!isValidCurrency(currency)) {
+    return `currency must be one of ${Object.keys(CURRENCIES).join(', ')}`;
+  }
+  if (typeof totalReturn !== 'boolean') {
+    return 'totalReturn must be true for a total-return series or false for price return';
+  }
+  if (source !== undefined && typeof source !== 'string') {
+    return 'source must be a string';
+  }
+  if (category !== undefined && !MARKET_INDEX_CATEGORIES.includes(category)) {
+    return `category must be one of ${MARKET_INDEX_CATEGORIES.join(', ')}`;
+  }
+  if (allowOutliers !== undefined && typeof allowOutliers !== 'boolean') {
+    return 'allowOutliers must be true or false';
+  }
+
+  if (cpiRegion !== undefined || !CURRENCIES[currency].cpiRegion) {
+    const regions = Array.from(new Set(Object.values(CURRENCIES).map(details => details.cpiRegion).filter(Boolean)));
+    if (typeof cpiRegion !== 'string' || !/^[a-z]+$/.test(cpiRegion) || getCpiYears(cpiRegion).length === 0) {
+      return cpiRegion === undefined
+        ? `${currency} has no CPI series of its own; set cpiRegion to one of ${regions.join(', ')}`
+        : `cpiRegion must be one of ${regions.join(', ')}`;
+    }
+  }
+
+  if ((prices === undefined) === (returns === undefined)) {
+    return 'Give the series as either prices or returns';
+  }
+  const field = prices !== undefined ? 'prices' : 'returns';
+  const points = prices !== undefined ? prices : returns;
+  if (!Array.isArray(points) || points.length === 0) {
+    return `${field} must be a non-empty list`;
+  }
+  if (points.length > MAX_SERIES_POINTS) {
+    return `A series can hold at most ${MAX_SERIES_POINTS} points`;
+  }
+
+  const dates = new Set<string>();
+  for (let i = 0; i < points.length; i++) {
+    const point = points[i];
+    if (field === 'prices') {
+      if (!point || typeof point.date !== 'string' || !/^\d{4}-\d{2}(-\d{2})?$/.test(point.date) ||
+        typeof point.close !== 'number' || !isFinite(point.close) || point.close <= 0) {
+        return `Price ${i + 1} needs a YYYY-MM-DD or YYYY-MM date and a positive close`;
+      }
+    } else if (!point || typeof point.date !== 'string' || !/^\d{4}-\d{2}$/.test(point.date) ||
+      typeof point.return !== 'number' || !isFinite(point.return) || point.return <= -1) {
+      return `Return ${i + 1} needs a YYYY-MM date and a decimal return greater than -1`;
+    }
+    if (dates.has(point.date)) {
+      return `${field} has more than one entry for ${point.date}`;
+    }
+    dates.add(point.date);
+  }
+
+  const closes = seriesCloses(request);
+  const months = Object.keys(closes).sort();
+  for (let i = 1; i < months.length; i++) {
+    if (monthIndex(months[i]) - monthIndex(months[i - 1]) !== 1) {
+      return `Series has a gap: no data between ${months[i - 1]} and ${months[i]}`;
+    }
+  }
+  if (returnsFromCloses(closes, 'annual').length === 0) {
+    return 'Series must cover at least one calendar year, from one December close to the next';
+  }
+
+  if (!allowOutliers) {
+    const outliers = returnsFromCloses(closes, 'monthly').filter(point => Math.abs(point.return) > OUTLIER_MONTHLY_RETURN);
+    if (outliers.length > 0) {
+      const listed = outliers.slice(0, 3).map(point => `${point.date} (${(point.return * 100).toFixed(2)}%)`).join(', ');
+      return `Monthly moves beyond ±${OUTLIER_MONTHLY_RETURN * 100}% look like data errors: ${listed}` +
+        `${outliers.length > 3 ? ` and ${outliers.length - 3} more` : ''}; set allowOutliers to keep them`;
+    }
+  }
+
+  return null;
+}
+
+function toDefinition(series: CustomSeries): MarketIndexDefinition {
+  return {
+    id: series.id,
+    name: series.name,
+    averageReturn: annualizedGrowth(seriesCloses(series)),
+    currency: series.currency,
+    ...(series.cpiRegion && { cpiRegion: series.cpiRegion }),
+    totalReturn: series.totalReturn,
+    ...(series.category && { category: series.category }),
+    ...(series.source && { source: series.source })
+  };
+}
+
+function toSummary(series: CustomSeries): CustomSeriesSummary {
+  const monthly = returnsFromCloses(seriesCloses(series), 'monthly');
+  return {
+    id: series.id,
+    name: series.name,
+    currency: series.currency,
+    totalReturn: series.totalReturn,
+    ...(series.category && { category: series.category }),
+    ...(series.source && { source: series.source }),
+    format: series.prices ? 'prices' : 'returns',
+    startMonth: monthly[0].date,
+    endMonth: monthly[monthly.length - 1].date,
+    months: monthly.length,
+    createdAt: series.createdAt,
+    updatedAt: series.updatedAt
+  };
+}
+
+// Series are written back to the directory on every change and loaded into the market data
+// repository straight away
+export function createCustomSeriesStore(directory: string): CustomSeriesStore {
+  const files = createJsonFileStore<CustomSeries>(directory, 'Custom series',
+    series => validateStoredId(series.id) || validateCustomSeries(series));
+
+  const provider: MarketDataProvider = {
+    name: 'custom series',
+    listIndices: async () => Object.values(files.all()).map(toDefinition),
+    getSeries: async (index, range) => {
+      const series = files.all()[index];
+      return series ? withinRange(returnsFromCloses(seriesCloses(series), range.granularity), range) : [];
+    }
+  };
+
+  return {
+    provider,
+    list: () => Object.keys(files.all()).sort().map(id => toSummary(files.all()[id])),
+    get: id => files.all()[id],
+    save: async (id, request) => {
+      const now = new Date().toISOString();
+      files.write({
+        id,
+        name: request.name.trim(),
+        currency: request.currency,
+        totalReturn: request.totalReturn,
+        ...(request.source && { source: request.source.trim() }),
+        ...(request.category && { category: request.category }),
+        ...(request.cpiRegion && { cpiRegion: request.cpiRegion }),
+        ...(request.prices
+          ? { prices: request.prices.map(({ date, close }) => ({ date, close })) }
+          : { returns: (request.returns || []).map(point => ({ date: point.date, return: point.return })) }),
+        ...(request.allowOutliers && { allowOutliers: true }),
+        createdAt: files.all()[id]?.createdAt || now,
+        updatedAt: now
+      });
+      await reloadMarketIndex(provider, id);
+      return files.all()[id];
+    },
+    remove: async id => {
+      if (!files.remove(id)) {
+        return false;
+      }
+      await reloadMarketIndex(provider, id);
+      return true;
+    }
+  };
+}
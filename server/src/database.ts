@@ -0,0 +1,142 @@
+// Embedded SQLite database for data users create, such as portfolios and their transactions.
+// The schema is brought up to date by numbered migrations every time the database is opened.
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { BUNDLED_DATA_DIR } from './market-data-providers';
+
+export type AppDatabase = Database.Database;
+
+export const DEFAULT_DATABASE_FILE = path.join(BUNDLED_DATA_DIR, 'wealth-metrics.sqlite');
+
+interface Migration {
+  version: number;
+  name: string;
+  sql: string;
+}
+
+// Applied in version order, each in its own transaction. A migration that has shipped is never
+// edited; schema changes go in a new one.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create portfolios, transactions and scenarios',
+    sql: `
+      CREATE TABLE portfolios (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        description TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE transactions (
+        id TEXT PRIMARY KEY,
+        portfolio_id TEXT NOT NULL REFERENCES portfolios(id) ON DELETE CASCADE,
+        date TEXT NOT NULL,
+        amount REAL NOT NULL CHECK (amount > 0),
+        type TEXT NOT NULL CHECK (type IN ('deposit', 'withdrawal')),
+        description TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX transactions_by_portfolio ON transactions (portfolio_id, date);
+
+      -- settings holds the calculation request as JSON, without transactions
+      CREATE TABLE scenarios (
+        id TEXT PRIMARY KEY,
+        portfolio_id TEXT NOT NULL REFERENCES portfolios(id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        settings TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX scenarios_by_portfolio ON scenarios (portfolio_id);
+    `
+  },
+  {
+    version: 2,
+    name: 'add account type, base currency and default index to portfolios',
+    sql: `
+      ALTER TABLE portfolios ADD COLUMN account_type TEXT NOT NULL DEFAULT 'taxable';
+      ALTER TABLE portfolios ADD COLUMN base_currency TEXT NOT NULL DEFAULT 'USD';
+      ALTER TABLE portfolios ADD COLUMN market_index TEXT NOT NULL DEFAULT 'sp500';
+    `
+  },
+  {
+    version: 3,
+    name: 'store recurring rules with their portfolio',
+    sql: `
+      -- The portfolio's recurring rules as a JSON list, amounts in its base currency
+      ALTER TABLE portfolios ADD COLUMN recurring_rules TEXT NOT NULL DEFAULT '[]';
+    `
+  },
+  {
+    version: 4,
+    name: 'create users and sessions, and give portfolios an owner',
+    sql: `
+      CREATE TABLE users (
+        id TEXT PRIMARY KEY,
+        email TEXT NOT NULL UNIQUE,
+        password_hash TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      -- token_hash is the SHA-256 of the bearer token, so a copy of the database can't sign anyone in
+      CREATE TABLE sessions (
+        token_hash TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        created_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL
+      );
+      CREATE INDEX sessions_by_user ON sessions (user_id);
+
+      -- Portfolios from before accounts existed have no owner until the first account claims them
+      ALTER TABLE portfolios ADD COLUMN owner_id TEXT REFERENCES users(id) ON DELETE CASCADE;
+      CREATE INDEX portfolios_by_owner ON portfolios (owner_id);
+    `
+  }
+];
+
+// Applies every migration newer than the database's schema and returns the versions applied.
+// A database written by a newer server is refused rather than used with a schema this one
+// doesn't know.
+export function migrate(db: AppDatabase): number[] {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+
+  const current = (db.prepare('SELECT MAX(version) AS version FROM schema_migrations').get() as { version: number | null }).version || 0;
+  const latest = MIGRATIONS[MIGRATIONS.length - 1].version;
+  if (current > latest) {
+    throw new Error(`Database schema version ${current} is newer than this server supports (${latest})`);
+  }
+
+  const record = db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)');
+  const pending = MIGRATIONS.filter(migration => migration.version > current);
+  pending.forEach(migration => {
+    db.transaction(() => {
+      db.exec(migration.sql);
+      record.run(migration.version, migration.name, new Date().toISOString());
+    })();
+  });
+  return pending.map(migration => migration.version);
+}
+
+// Opens (creating if needed) and migrates the database file; ':memory:' gives a throwaway one
+export function openDatabase(file: string): AppDatabase {
+  if (file !== ':memory:') {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+  }
+  const db = new Database(file);
+  // Concurrent readers don't wait on a writer, and deleting a portfolio removes its rows
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  migrate(db);
+  return db;
+}
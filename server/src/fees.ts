@@ -0,0 +1,75 @@
+// Fee schedules: validation and per-transaction fee amounts
+import { FeeSchedule, TransactionFee } from './shared-types';
+
+export const DEFAULT_ADVISORY_BILLING = 'quarterly';
+
+function isValidAnnualRate(rate: any): boolean {
+  return typeof rate === 'number' && isFinite(rate) && rate >= 0 && rate < 1;
+}
+
+function validateTransactionFee(fee: any, label: string): string | null {
+  if (!fee || typeof fee !== 'object') {
+    return `${label} must be an object with flat and/or percent`;
+  }
+  if (fee.flat !== undefined && (typeof fee.flat !== 'number' || !isFinite(fee.flat) || fee.flat < 0)) {
+    return `${label}.flat must be a non-negative dollar amount`;
+  }
+  if (fee.percent !== undefined && !isValidAnnualRate(fee.percent)) {
+    return `${label}.percent must be a decimal between 0 and 1`;
+  }
+  return null;
+}
+
+// Returns an error message for a malformed fee schedule, or null when it can be used
+export function validateFeeSchedule(fees: any): string | null {
+  if (!fees || typeof fees !== 'object' || Array.isArray(fees)) {
+    return 'Fees must be an object';
+  }
+
+  const { expenseRatio, advisoryFee, advisoryBilling, depositFee, withdrawalFee } = fees;
+
+  if (expenseRatio !== undefined && !isValidAnnualRate(expenseRatio)) {
+    return 'expenseRatio must be an annual decimal rate between 0 and 1';
+  }
+  if (advisoryFee !== undefined && !isValidAnnualRate(advisoryFee)) {
+    return 'advisoryFee must be an annual decimal rate between 0 and 1';
+  }
+  if (advisoryBilling !== undefined && advisoryBilling !== 'monthly' && advisoryBilling !== 'quarterly') {
+    return "advisoryBilling must be 'monthly' or 'quarterly'";
+  }
+  if (depositFee !== undefined) {
+    const error = validateTransactionFee(depositFee, 'depositFee');
+    if (error) {
+      return error;
+    }
+  }
+  if (withdrawalFee !== undefined) {
+    const error = validateTransactionFee(withdrawalFee, 'withdrawalFee');
+    if (error) {
+      return error;
+    }
+  }
+
+  return null;
+}
+
+// Fee on one transaction, never more than the transaction itself
+export function transactionFee(fee: TransactionFee | undefined, amount: number): number {
+  if (!fee || amount <= 0) {
+    return 0;
+  }
+  return Math.min(amount, (fee.flat || 0) + (fee.percent || 0) * amount);
+}
+
+function chargesTransactions(fee: TransactionFee | undefined): boolean {
+  return !!fee && ((fee.flat || 0) > 0 || (fee.percent || 0) > 0);
+}
+
+export function hasFees(fees: FeeSchedule | undefined): fees is FeeSchedule {
+  return !!fees && (
+    (fees.expenseRatio || 0) > 0 ||
+    (fees.advisoryFee || 0) > 0 ||
+    chargesTransactions(fees.depositFee) ||
+    chargesTransactions(fees.withdrawalFee)
+  );
+}
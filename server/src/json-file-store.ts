@@ -0,0 +1,76 @@
+// Entities kept as one pretty-printed JSON file each, named after their id
+import fs from 'fs';
+import path from 'path';
+
+// Ids double as file names, so they are kept to a safe lowercase alphabet
+const STORED_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,39}$/;
+
+export function validateStoredId(id: any): string | null {
+  if (typeof id !== 'string' || !STORED_ID_PATTERN.test(id)) {
+    return 'id must be 1-40 lowercase letters, digits, - or _, starting with a letter or digit';
+  }
+  return null;
+}
+
+export interface JsonFileStore<T extends { id: string }> {
+  // Every stored entity by id, read from the directory on first use
+  all(): { [id: string]: T };
+  write(entity: T): void;
+  // False when there was no such entity
+  remove(id: string): boolean;
+}
+
+// `check` returns a problem with a stored entity, or null. A file that fails it stops the
+// server at startup rather than silently dropping the entity.
+export function createJsonFileStore<T extends { id: string }>(
+  directory: string,
+  label: string,
+  check: (entity: any) => string | null
+): JsonFileStore<T> {
+  let stored: { [id: string]: T } | undefined;
+  const fileFor = (id: string) => path.join(directory, `${id}.json`);
+
+  const all = (): { [id: string]: T } => {
+    if (stored) {
+      return stored;
+    }
+    const loaded: { [id: string]: T } = {};
+    if (fs.existsSync(directory)) {
+      fs.readdirSync(directory).filter(fileName => fileName.endsWith('.json')).sort().forEach(fileName => {
+        const file = path.join(directory, fileName);
+        let entity: T;
+        try {
+          entity = JSON.parse(fs.readFileSync(file, 'utf8'));
+        } catch (error) {
+          throw new Error(`${label} file ${file} is not valid JSON`);
+        }
+        const problem = check(entity);
+        if (problem) {
+          throw new Error(`${label} file ${file} is invalid: ${problem}`);
+        }
+        loaded[entity.id] = entity;
+      });
+    }
+    stored = loaded;
+    return stored;
+  };
+
+  return {
+    all,
+    write: entity => {
+      // Written to a temporary file first so a failed write never leaves a truncated file
+      fs.mkdirSync(directory, { recursive: true });
+      fs.writeFileSync(`${fileFor(entity.id)}.tmp`, JSON.stringify(entity, null, 2));
+      fs.renameSync(`${fileFor(entity.id)}.tmp`, fileFor(entity.id));
+      all()[entity.id] = entity;
+    },
+    remove: id => {
+      if (!all()[id]) {
+        return false;
+      }
+      fs.unlinkSync(fileFor(id));
+      delete all()[id];
+      return true;
+    }
+  };
+}
@@ -0,0 +1,159 @@
+// Lump sum versus dollar-cost averaging: the same amount invested at once or in installments
+import {
+  Transaction,
+  LumpVsDcaRequest,
+  LumpVsDcaResult,
+  LumpVsDcaComparison,
+  StrategyOutcome,
+  CalculationGranularity,
+  CalculationResult,
+  RecurrenceFrequency
+} from './shared-types';
+import { MARKET_DATA_VERSION, DEFAULT_MARKET_INDEX, isValidMarketIndex } from './market-data';
+import { calculateCompoundInterestWithDates } from './compound-engine';
+import { addDays, shiftDate } from './trading-calendar';
+import { RECURRENCE_FREQUENCIES, expandRecurringTransactions } from './recurring-transactions';
+import { windowShifts } from './backtest';
+
+export const MAX_DCA_MONTHS = 120;
+// Installments simulated by the win-rate replay, summed over every start date and index; a
+// weekly schedule over ten years against one index is about this much
+export const MAX_REPLAYED_INSTALLMENTS = 200000;
+
+// Returns an error message for an unusable request, or null when it can be compared
+export function validateLumpVsDcaRequest(request: any): string | null {
+  if (!request || typeof request !== 'object') {
+    return 'Comparison request body is required';
+  }
+
+  const { amount, startDate, dcaMonths, frequency, endDate, marketIndices, granularity } = request;
+
+  if (typeof amount !== 'number' || !isFinite(amount) || amount <= 0) {
+    return 'amount must be a positive number';
+  }
+  if (!startDate || isNaN(Date.parse(startDate))) {
+    return 'A valid start date is required';
+  }
+  if (!Number.isInteger(dcaMonths) || dcaMonths < 1 || dcaMonths > MAX_DCA_MONTHS) {
+    return `dcaMonths must be a whole number of months between 1 and ${MAX_DCA_MONTHS}`;
+  }
+  if (frequency !== undefined && !RECURRENCE_FREQUENCIES.includes(frequency)) {
+    return `frequency must be one of ${RECURRENCE_FREQUENCIES.join(', ')}`;
+  }
+  const start = new Date(startDate).toISOString().split('T')[0];
+  if (endDate !== undefined) {
+    if (isNaN(Date.parse(endDate))) {
+      return 'End date must be a valid date';
+    }
+    if (new Date(endDate).toISOString().split('T')[0] < dcaEndDate(start, dcaMonths)) {
+      return 'End date must not fall before the end of the DCA period';
+    }
+  }
+  if (marketIndices !== undefined) {
+    if (!Array.isArray(marketIndices) || marketIndices.length === 0) {
+      return 'marketIndices must be a non-empty list';
+    }
+    const invalid = marketIndices.find((index: any) => !isValidMarketIndex(index));
+    if (invalid !== undefined) {
+      return `Invalid market index: ${invalid}`;
+    }
+  }
+  if (granularity !== undefined && granularity !== 'daily' && granularity !== 'monthly') {
+    return "Granularity must be 'daily' or 'monthly'";
+  }
+
+  const installmentCount = dcaInstallments(amount, start, dcaMonths, frequency || 'monthly').length;
+  const replayed = comparedIndices(marketIndices).reduce((total, index) =>
+    total + installmentCount * windowShifts(start, dcaEndDate(start, dcaMonths), index, 'month').length, 0);
+  if (replayed > MAX_REPLAYED_INSTALLMENTS) {
+    return 'Too many installments to replay over history: compare fewer indices, use a shorter DCA period or invest less often';
+  }
+
+  return null;
+}
+
+function comparedIndices(marketIndices?: string[]): string[] {
+  return marketIndices ? Array.from(new Set(marketIndices)) : [DEFAULT_MARKET_INDEX];
+}
+
+// Last day of a DCA period of dcaMonths starting on startDate
+function dcaEndDate(startDate: string, dcaMonths: number): string {
+  return addDays(shiftDate(startDate, dcaMonths), -1);
+}
+
+// The amount split over every installment date in the DCA period; the last installment
+// absorbs the rounding so the total invested matches the lump sum to the cent
+function dcaInstallments(amount: number, startDate: string, dcaMonths: number, frequency: RecurrenceFrequency): Transaction[] {
+  const dates = expandRecurringTransactions(
+    [{ type: 'deposit', amount: 1, frequency, startDate }],
+    dcaEndDate(startDate, dcaMonths)
+  ).map(occurrence => occurrence.date);
+  const installment = Math.floor((amount / dates.length) * 100) / 100;
+  return dates.map((date, i) => ({
+    date,
+    amount: i === dates.length - 1 ? Math.round((amount - installment * (dates.length - 1)) * 100) / 100 : installment,
+    type: 'deposit'
+  }));
+}
+
+function toOutcome({ monthlyData, summary }: CalculationResult): StrategyOutcome {
+  return {
+    finalAmount: summary.finalAmount,
+    series: monthlyData.map(({ date, amount, contributions }) => ({ date, amount, contributions }))
+  };
+}
+
+export function compareLumpVsDca(request: LumpVsDcaRequest): LumpVsDcaResult {
+  const frequency: RecurrenceFrequency = request.frequency || 'monthly';
+  const granularity: CalculationGranularity = request.granularity || 'monthly';
+  const marketIndices = comparedIndices(request.marketIndices);
+  const startDate = new Date(request.startDate).toISOString().split('T')[0];
+  const dcaEnd = dcaEndDate(startDate, request.dcaMonths);
+  const endDate = request.endDate ? new Date(request.endDate).toISOString().split('T')[0] : dcaEnd;
+  const installments = dcaInstallments(request.amount, startDate, request.dcaMonths, frequency);
+
+  const runLumpSum = (from: string, to: string, marketIndex: string, runGranularity = granularity) =>
+    calculateCompoundInterestWithDates(request.amount, [], from, to, true, marketIndex, { granularity: runGranularity });
+  const runDca = (schedule: Transaction[], from: string, to: string, marketIndex: string, runGranularity = granularity) =>
+    calculateCompoundInterestWithDates(0, schedule, from, to, true, marketIndex, { granularity: runGranularity });
+
+  const comparisons: LumpVsDcaComparison[] = marketIndices.map(marketIndex => {
+    const lumpSum = toOutcome(runLumpSum(startDate, endDate, marketIndex));
+    const dca = toOutcome(runDca(installments, startDate, endDate, marketIndex));
+    const difference = lumpSum.finalAmount - dca.finalAmount;
+
+    // Once the last installment is in, both portfolios hold the same index with no further
+    // flows, so the winner is settled at the end of the DCA period and only that needs replaying.
+    // Only final amounts are compared, so the replay runs monthly whatever the chart granularity.
+    const shifts = windowShifts(startDate, dcaEnd, marketIndex, 'month');
+    const lumpSumWins = shifts.filter(shift => {
+      const schedule = installments.map(t => ({ ...t, date: shiftDate(t.date, shift) }));
+      const from = shiftDate(startDate, shift);
+      const to = shiftDate(dcaEnd, shift);
+      return runLumpSum(from, to, marketIndex, 'monthly').summary.finalAmount >
+        runDca(schedule, from, to, marketIndex, 'monthly').summary.finalAmount;
+    }).length;
+
+    return {
+      marketIndex,
+      lumpSum,
+      dca,
+      difference: Math.round(difference * 100) / 100,
+      differencePercent: dca.finalAmount > 0 ? Math.round((difference / dca.finalAmount) * 10000) / 100 : 0,
+      lumpSumWinRate: shifts.length > 0 ? Math.round((lumpSumWins / shifts.length) * 10000) / 100 : null,
+      startDatesTested: shifts.length
+    };
+  });
+
+  return {
+    amount: request.amount,
+    startDate,
+    endDate,
+    dcaMonths: request.dcaMonths,
+    frequency,
+    installments: installments.length,
+    installmentAmount: installments[0].amount,
+    comparisons,
+    dataVersion: MARKET_DATA_VERSION
+  };
+}
@@ -0,0 +1,432 @@
+// Sources of market indices and their return series. The repository in market-data.ts loads
+// every provider at startup, so the engine never waits on one mid-calculation.
+import fs from 'fs';
+import path from 'path';
+import {
+  AllHistoricalReturns,
+  MarketIndexCategory,
+  MarketIndexDefinition,
+  MarketSeriesGranularity,
+  MarketSeriesPoint,
+  PricePoint
+} from './shared-types';
+import { monthIndex } from './trading-calendar';
+
+// Asset classes the index picker groups by, in display order
+export const MARKET_INDEX_CATEGORIES: MarketIndexCategory[] = ['equity', 'bond', 'cash', 'alternative', 'multi-asset'];
+
+// Bundled data files sit beside src/ and dist/ so both ts-node and the compiled server find them
+export const BUNDLED_DATA_DIR = path.join(__dirname, '..', 'data');
+
+// Where the file-system provider looks when no other directory is configured
+export const DEFAULT_INDEX_DATA_DIR = path.join(BUNDLED_DATA_DIR, 'indices');
+
+export interface SeriesRange {
+  granularity: MarketSeriesGranularity;
+  // Inclusive bounds as YYYY, YYYY-MM or YYYY-MM-DD; the whole history when left out
+  startDate?: string;
+  endDate?: string;
+}
+
+// Anything that can list indices and serve their total returns. Methods return promises so a
+// remote API can sit behind the same interface as local files.
+export interface MarketDataProvider {
+  name: string;
+  listIndices(): Promise<MarketIndexDefinition[]>;
+  getSeries(index: string, range: SeriesRange): Promise<MarketSeriesPoint[]>;
+}
+
+// Points whose date falls within the range, compared at the points' own precision
+export function withinRange(points: MarketSeriesPoint[], { startDate, endDate }: SeriesRange): MarketSeriesPoint[] {
+  return points.filter(point =>
+    (!startDate || point.date >= startDate.slice(0, point.date.length)) &&
+    (!endDate || point.date <= endDate.slice(0, point.date.length))
+  );
+}
+
+// Historical annual total returns per bundled index, keyed by the same ids as BUILT_IN_INDICES
+const BUILT_IN_ANNUAL_RETURNS: AllHistoricalReturns = {
+  sp500: {
+    1990: 0.0310, 1991: 0.3047, 1992: 0.0762, 1993: 0.1008, 1994: 0.0132,
+    1995: 0.3758, 1996: 0.2296, 1997: 0.3336, 1998: 0.2858, 1999: 0.2104,
+    2000: -0.0910, 2001: -0.1189, 2002: -0.2210, 2003: 0.2868, 2004: 0.1088,
+    2005: 0.0491, 2006: 0.1579, 2007: 0.0549, 2008: -0.3700, 2009: 0.2646,
+    2010: 0.1506, 2011: 0.0211, 2012: 0.1600, 2013: 0.3239, 2014: 0.1369,
+    2015: 0.0138, 2016: 0.1196, 2017: 0.2183, 2018: -0.0438, 2019: 0.3157,
+    2020: 0.1640, 2021: 0.2689, 2022: -0.1954, 2023: 0.2411, 2024: 0.12
+  },
+  nasdaq: {
+    1990: -0.1746, 1991: 0.5648, 1992: 0.1561, 1993: 0.1456, 1994: -0.0318,
+    1995: 0.3963, 1996: 0.2267, 1997: 0.2144, 1998: 0.3969, 1999: 0.8550,
+    2000: -0.3910, 2001: -0.2102, 2002: -0.3155, 2003: 0.5015, 2004: 0.0885,
+    2005: 0.0135, 2006: 0.0956, 2007: 0.0975, 2008: -0.4018, 2009: 0.4338,
+    2010: 0.1694, 2011: -0.0180, 2012: 0.1574, 2013: 0.3848, 2014: 0.1351,
+    2015: 0.0559, 2016: 0.0739, 2017: 0.2836, 2018: -0.0356, 2019: 0.3556,
+    2020: 0.4391, 2021: 0.2103, 2022: -0.3256, 2023: 0.4381, 2024: 0.115
+  },
+  dow: {
+    1990: 0.0404, 1991: 0.2014, 1992: 0.0421, 1993: 0.1372, 1994: 0.0213,
+    1995: 0.3336, 1996: 0.2615, 1997: 0.2275, 1998: 0.1611, 1999: 0.2725,
+    2000: -0.0618, 2001: -0.0715, 2002: -0.1693, 2003: 0.2514, 2004: 0.0317,
+    2005: -0.0061, 2006: 0.1606, 2007: 0.0626, 2008: -0.3394, 2009: 0.1876,
+    2010: 0.1102, 2011: 0.0554, 2012: 0.0726, 2013: 0.2654, 2014: 0.0751,
+    2015: -0.0234, 2016: 0.1342, 2017: 0.2517, 2018: -0.0587, 2019: 0.2234,
+    2020: 0.0725, 2021: 0.1885, 2022: -0.0856, 2023: 0.1397, 2024: 0.095
+  },
+  russell2000: {
+    1990: -0.1949, 1991: 0.4621, 1992: 0.1835, 1993: 0.2109, 1994: -0.0185,
+    1995: 0.2875, 1996: 0.1643, 1997: 0.2236, 1998: -0.0251, 1999: 0.2123,
+    2000: -0.0303, 2001: 0.0249, 2002: -0.2044, 2003: 0.4741, 2004: 0.1825,
+    2005: 0.0484, 2006: 0.1837, 2007: -0.0157, 2008: -0.3349, 2009: 0.2746,
+    2010: 0.2688, 2011: -0.0412, 2012: 0.1609, 2013: 0.3870, 2014: 0.0489,
+    2015: -0.0441, 2016: 0.2123, 2017: 0.1449, 2018: -0.1151, 2019: 0.2517,
+    2020: 0.1994, 2021: 0.1462, 2022: -0.2044, 2023: 0.1665, 2024: 0.092
+  },
+  ftse100: {
+    1990: -0.0935, 1991: 0.1634, 1992: 0.1985, 1993: 0.2834, 1994: -0.0954,
+    1995: 0.2034, 1996: 0.1185, 1997: 0.2485, 1998: 0.1434, 1999: 0.1785,
+    2000: -0.1034, 2001: -0.1385, 2002: -0.2485, 2003: 0.1385, 2004: 0.0785,
+    2005: 0.1634, 2006: 0.1034, 2007: 0.0385, 2008: -0.3134, 2009: 0.2234,
+    2010: 0.0934, 2011: -0.0585, 2012: 0.0585, 2013: 0.1434, 2014: -0.0234,
+    2015: -0.0485, 2016: 0.1434, 2017: 0.0734, 2018: -0.1234, 2019: 0.1234,
+    2020: -0.1434, 2021: 0.1434, 2022: 0.0034, 2023: 0.0384, 2024: 0.075
+  },
+  nikkei225: {
+    1990: -0.3834, 1991: 0.0434, 1992: -0.2634, 1993: 0.0334, 1994: 0.1334,
+    1995: -0.0134, 1996: -0.0334, 1997: -0.2134, 1998: -0.0934, 1999: 0.3634,
+    2000: -0.2734, 2001: -0.2334, 2002: -0.1834, 2003: 0.2434, 2004: 0.0734,
+    2005: 0.4034, 2006: 0.0634, 2007: -0.1134, 2008: -0.4234, 2009: 0.1934,
+    2010: -0.0334, 2011: -0.1734, 2012: 0.2284, 2013: 0.5684, 2014: -0.0834,
+    2015: 0.0934, 2016: -0.0234, 2017: 0.1934, 2018: -0.1234, 2019: 0.1834,
+    2020: 0.1634, 2021: 0.0434, 2022: -0.0934, 2023: 0.2834, 2024: 0.095
+  },
+  usagg: {
+    1990: 0.0896, 1991: 0.1600, 1992: 0.0740, 1993: 0.0975, 1994: -0.0292,
+    1995: 0.1847, 1996: 0.0363, 1997: 0.0965, 1998: 0.0869, 1999: -0.0082,
+    2000: 0.1163, 2001: 0.0844, 2002: 0.1026, 2003: 0.0410, 2004: 0.0434,
+    2005: 0.0243, 2006: 0.0433, 2007: 0.0697, 2008: 0.0524, 2009: 0.0593,
+    2010: 0.0654, 2011: 0.0784, 2012: 0.0421, 2013: -0.0202, 2014: 0.0597,
+    2015: 0.0055, 2016: 0.0265, 2017: 0.0354, 2018: 0.0001, 2019: 0.0872,
+    2020: 0.0751, 2021: -0.0154, 2022: -0.1301, 2023: 0.0553, 2024: 0.0125
+  },
+  treasury10y: {
+    1990: 0.0624, 1991: 0.1500, 1992: 0.0936, 1993: 0.1421, 1994: -0.0804,
+    1995: 0.2348, 1996: 0.0143, 1997: 0.0994, 1998: 0.1492, 1999: -0.0825,
+    2000: 0.1666, 2001: 0.0557, 2002: 0.1512, 2003: 0.0038, 2004: 0.0449,
+    2005: 0.0287, 2006: 0.0196, 2007: 0.1021, 2008: 0.2010, 2009: -0.1112,
+    2010: 0.0846, 2011: 0.1604, 2012: 0.0297, 2013: -0.0910, 2014: 0.1075,
+    2015: 0.0128, 2016: 0.0069, 2017: 0.0280, 2018: -0.0002, 2019: 0.0964,
+    2020: 0.1133, 2021: -0.0442, 2022: -0.1783, 2023: 0.0388, 2024: -0.0164
+  },
+  tbills: {
+    1990: 0.0755, 1991: 0.0561, 1992: 0.0341, 1993: 0.0298, 1994: 0.0399,
+    1995: 0.0552, 1996: 0.0502, 1997: 0.0505, 1998: 0.0473, 1999: 0.0451,
+    2000: 0.0576, 2001: 0.0367, 2002: 0.0166, 2003: 0.0103, 2004: 0.0123,
+    2005: 0.0301, 2006: 0.0468, 2007: 0.0464, 2008: 0.0137, 2009: 0.0015,
+    2010: 0.0014, 2011: 0.0005, 2012: 0.0009, 2013: 0.0006, 2014: 0.0003,
+    2015: 0.0005, 2016: 0.0032, 2017: 0.0093, 2018: 0.0194, 2019: 0.0206,
+    2020: 0.0035, 2021: 0.0005, 2022: 0.0202, 2023: 0.0507, 2024: 0.0497
+  },
+  tips: {
+    1998: 0.0395, 1999: 0.0239, 2000: 0.1318, 2001: 0.0790, 2002: 0.1657,
+    2003: 0.0840, 2004: 0.0846, 2005: 0.0284, 2006: 0.0041, 2007: 0.1164,
+    2008: -0.0235, 2009: 0.1141, 2010: 0.0631, 2011: 0.1356, 2012: 0.0698,
+    2013: -0.0861, 2014: 0.0364, 2015: -0.0144, 2016: 0.0468, 2017: 0.0301,
+    2018: -0.0126, 2019: 0.0843, 2020: 0.1099, 2021: 0.0596, 2022: -0.1185,
+    2023: 0.0390, 2024: 0.0184
+  },
+  gold: {
+    1990: -0.0310, 1991: -0.0860, 1992: -0.0570, 1993: 0.1770, 1994: -0.0220,
+    1995: 0.0100, 1996: -0.0460, 1997: -0.2140, 1998: -0.0080, 1999: 0.0090,
+    2000: -0.0540, 2001: 0.0070, 2002: 0.2560, 2003: 0.1990, 2004: 0.0460,
+    2005: 0.1780, 2006: 0.2320, 2007: 0.3190, 2008: 0.0430, 2009: 0.2500,
+    2010: 0.2950, 2011: 0.1010, 2012: 0.0710, 2013: -0.2830, 2014: -0.0150,
+    2015: -0.1040, 2016: 0.0860, 2017: 0.1310, 2018: -0.0160, 2019: 0.1830,
+    2020: 0.2510, 2021: -0.0360, 2022: -0.0030, 2023: 0.1310, 2024: 0.2720
+  },
+  reits: {
+    1990: -0.1535, 1991: 0.3570, 1992: 0.1459, 1993: 0.1965, 1994: 0.0317,
+    1995: 0.1527, 1996: 0.3527, 1997: 0.2026, 1998: -0.1750, 1999: -0.0462,
+    2000: 0.2637, 2001: 0.1393, 2002: 0.0382, 2003: 0.3713, 2004: 0.3158,
+    2005: 0.1216, 2006: 0.3506, 2007: -0.1569, 2008: -0.3773, 2009: 0.2799,
+    2010: 0.2796, 2011: 0.0828, 2012: 0.1970, 2013: 0.0286, 2014: 0.2803,
+    2015: 0.0283, 2016: 0.0852, 2017: 0.0867, 2018: -0.0404, 2019: 0.2866,
+    2020: -0.0512, 2021: 0.4130, 2022: -0.2495, 2023: 0.1136, 2024: 0.0492
+  },
+  eafe: {
+    1990: -0.2345, 1991: 0.1213, 1992: -0.1217, 1993: 0.3256, 1994: 0.0778,
+    1995: 0.1121, 1996: 0.0605, 1997: 0.0178, 1998: 0.2000, 1999: 0.2696,
+    2000: -0.1417, 2001: -0.2144, 2002: -0.1594, 2003: 0.3859, 2004: 0.2025,
+    2005: 0.1354, 2006: 0.2634, 2007: 0.1117, 2008: -0.4338, 2009: 0.3178,
+    2010: 0.0775, 2011: -0.1214, 2012: 0.1732, 2013: 0.2278, 2014: -0.0490,
+    2015: -0.0081, 2016: 0.0100, 2017: 0.2503, 2018: -0.1379, 2019: 0.2201,
+    2020: 0.0782, 2021: 0.1126, 2022: -0.1445, 2023: 0.1824, 2024: 0.0382
+  },
+  emerging: {
+    1990: -0.1055, 1991: 0.5991, 1992: 0.1140, 1993: 0.7484, 1994: -0.0732,
+    1995: -0.0521, 1996: 0.0603, 1997: -0.1159, 1998: -0.2534, 1999: 0.6641,
+    2000: -0.3061, 2001: -0.0237, 2002: -0.0600, 2003: 0.5582, 2004: 0.2555,
+    2005: 0.3400, 2006: 0.3214, 2007: 0.3938, 2008: -0.5333, 2009: 0.7851,
+    2010: 0.1888, 2011: -0.1842, 2012: 0.1822, 2013: -0.0260, 2014: -0.0219,
+    2015: -0.1492, 2016: 0.1119, 2017: 0.3728, 2018: -0.1458, 2019: 0.1842,
+    2020: 0.1831, 2021: -0.0254, 2022: -0.2009, 2023: 0.0983, 2024: 0.0750
+  }
+};
+
+const BUILT_IN_INDICES: MarketIndexDefinition[] = [
+  { id: 'sp500', name: 'S&P 500', averageReturn: 0.10, currency: 'USD', cpiRegion: 'us', category: 'equity' },
+  { id: 'nasdaq', name: 'NASDAQ', averageReturn: 0.115, currency: 'USD', cpiRegion: 'us', category: 'equity' },
+  { id: 'dow', name: 'Dow Jones', averageReturn: 0.095, currency: 'USD', cpiRegion: 'us', category: 'equity' },
+  { id: 'russell2000', name: 'Russell 2000', averageReturn: 0.092, currency: 'USD', cpiRegion: 'us', category: 'equity' },
+  { id: 'ftse100', name: 'FTSE 100', averageReturn: 0.075, currency: 'GBP', cpiRegion: 'uk', category: 'equity' },
+  { id: 'nikkei225', name: 'Nikkei 225', averageReturn: 0.085, currency: 'JPY', cpiRegion: 'jp', category: 'equity' },
+  {
+    id: 'eafe', name: 'MSCI EAFE', averageReturn: 0.046, currency: 'USD', cpiRegion: 'us', category: 'equity',
+    source: 'MSCI EAFE Index, net total return in US dollars'
+  },
+  {
+    id: 'emerging', name: 'MSCI Emerging Markets', averageReturn: 0.072, currency: 'USD', cpiRegion: 'us', category: 'equity',
+    source: 'MSCI Emerging Markets Index, net total return in US dollars'
+  },
+  {
+    id: 'usagg', name: 'US Aggregate Bonds', averageReturn: 0.05, currency: 'USD', cpiRegion: 'us', category: 'bond',
+    source: 'Bloomberg US Aggregate Bond Index'
+  },
+  {
+    id: 'treasury10y', name: '10-Year Treasuries', averageReturn: 0.047, currency: 'USD', cpiRegion: 'us', category: 'bond',
+    source: 'Constant-maturity 10-year US Treasury note, coupon plus price change'
+  },
+  {
+    id: 'tips', name: 'TIPS', averageReturn: 0.047, currency: 'USD', cpiRegion: 'us', category: 'bond',
+    source: 'Bloomberg US Treasury Inflation-Protected Securities Index, from 1998'
+  },
+  {
+    id: 'tbills', name: '3-Month T-Bills', averageReturn: 0.027, currency: 'USD', cpiRegion: 'us', category: 'cash',
+    source: 'Rolled 3-month US Treasury bills'
+  },
+  {
+    id: 'reits', name: 'US REITs', averageReturn: 0.097, currency: 'USD', cpiRegion: 'us', category: 'alternative',
+    source: 'FTSE Nareit All Equity REITs Index'
+  },
+  // Spot price, so there is no income to leave out and the price change is the whole return
+  {
+    id: 'gold', name: 'Gold', averageReturn: 0.055, currency: 'USD', cpiRegion: 'us', category: 'alternative',
+    source: 'LBMA gold price in US dollars'
+  }
+];
+
+// Reads data/monthly/<index>.csv with a `date,return` header, dates as YYYY-MM and returns as decimals
+function loadMonthlyReturns(index: string): MarketSeriesPoint[] {
+  const file = path.join(BUNDLED_DATA_DIR, 'monthly', `${index}.csv`);
+  if (!fs.existsSync(file)) {
+    return [];
+  }
+
+  const [header, ...rows] = fs.readFileSync(file, 'utf8').split(/\r?\n/).filter(line => line.trim());
+  if (!header || header.trim().toLowerCase() !== 'date,return') {
+    throw new Error(`Monthly return file ${file} must start with a 'date,return' header`);
+  }
+
+  return rows.map((row, i) => {
+    const [month, value] = row.split(',').map(field => field.trim());
+    const monthlyReturn = parseFloat(value);
+    if (!/^\d{4}-\d{2}$/.test(month) || isNaN(monthlyReturn)) {
+      throw new Error(`Invalid monthly return on line ${i + 2} of ${file}`);
+    }
+    return { date: month, return: monthlyReturn };
+  });
+}
+
+// The catalog and series that ship with the server: annual returns from the table above and
+// monthly returns from data/monthly/
+export function createBuiltInProvider(): MarketDataProvider {
+  return {
+    name: 'built-in',
+    listIndices: async () => BUILT_IN_INDICES.map(definition => ({ ...definition })),
+    getSeries: async (index, range) => {
+      if (range.granularity === 'monthly') {
+        return withinRange(loadMonthlyReturns(index), range);
+      }
+      const returns = BUILT_IN_ANNUAL_RETURNS[index] || {};
+      const points = Object.keys(returns)
+        .map(year => parseInt(year))
+        .sort((a, b) => a - b)
+        .map(year => ({ date: year.toString(), return: returns[year] }));
+      return withinRange(points, range);
+    }
+  };
+}
+
+// Month-end closing levels keyed by YYYY-MM
+export interface MonthEndCloses {
+  [month: string]: number;
+}
+
+interface PriceFile {
+  definition: MarketIndexDefinition;
+  closes: MonthEndCloses;
+}
+
+function checkPrice(date: any, close: any, where: string, file: string): PricePoint {
+  if (typeof date !== 'string' || !/^\d{4}-\d{2}(-\d{2})?$/.test(date) || typeof close !== 'number' || !isFinite(close) || close <= 0) {
+    throw new Error(`Invalid price on ${where} of ${file}`);
+  }
+  return { date, close };
+}
+
+// A `date,close` CSV, or a JSON object with a `prices` list of { date, close } and optional
+// name, currency, cpiRegion, averageReturn, totalReturn, category and source. Dates are YYYY-MM-DD or
+// YYYY-MM and may be daily; the last price in each month is taken as its close. CSV indices
+// are named after the file and priced in US dollars.
+function readPriceFile(file: string, id: string): PriceFile {
+  const text = fs.readFileSync(file, 'utf8');
+  let details: any = {};
+  let prices: PricePoint[];
+
+  if (path.extname(file).toLowerCase() === '.json') {
+    try {
+      details = JSON.parse(text);
+    } catch (error) {
+      throw new Error(`Price file ${file} is not valid JSON`);
+    }
+    if (!details || !Array.isArray(details.prices)) {
+      throw new Error(`Price file ${file} must hold a 'prices' list`);
+    }
+    prices = details.prices.map((price: any, i: number) => checkPrice(price?.date, price?.close, `entry ${i + 1}`, file));
+  } else {
+    const [header, ...rows] = text.split(/\r?\n/).filter(line => line.trim());
+    if (!header || header.trim().toLowerCase() !== 'date,close') {
+      throw new Error(`Price file ${file} must start with a 'date,close' header`);
+    }
+    prices = rows.map((row, i) => {
+      const [date, close] = row.split(',').map(field => field.trim());
+      return checkPrice(date, parseFloat(close), `line ${i + 2}`, file);
+    });
+  }
+
+  if (details.name !== undefined && (typeof details.name !== 'string' || !details.name.trim())) {
+    throw new Error(`Price file ${file} name must be a non-empty string`);
+  }
+  if (details.cpiRegion !== undefined && (typeof details.cpiRegion !== 'string' || !/^[a-z]+$/.test(details.cpiRegion))) {
+    throw new Error(`Price file ${file} cpiRegion must be a lowercase region id such as 'us'`);
+  }
+  if (details.averageReturn !== undefined && (typeof details.averageReturn !== 'number' || !isFinite(details.averageReturn))) {
+    throw new Error(`Price file ${file} averageReturn must be a decimal rate`);
+  }
+  if (details.category !== undefined && !MARKET_INDEX_CATEGORIES.includes(details.category)) {
+    throw new Error(`Price file ${file} category must be one of ${MARKET_INDEX_CATEGORIES.join(', ')}`);
+  }
+
+  const closes = monthEndCloses(prices);
+  if (Object.keys(closes).length < 2) {
+    throw new Error(`Price file ${file} needs closes for at least two months`);
+  }
+
+  return {
+    definition: {
+      id,
+      name: details.name ? details.name.trim() : id,
+      averageReturn: details.averageReturn !== undefined ? details.averageReturn : annualizedGrowth(closes),
+      currency: details.currency || 'USD',
+      ...(details.cpiRegion && { cpiRegion: details.cpiRegion }),
+      totalReturn: details.totalReturn !== false,
+      ...(details.category && { category: details.category }),
+      ...(typeof details.source === 'string' && details.source && { source: details.source })
+    },
+    closes
+  };
+}
+
+// Month-end closing levels keyed by YYYY-MM; the last price in each month is its close
+export function monthEndCloses(prices: PricePoint[]): MonthEndCloses {
+  const closes: MonthEndCloses = {};
+  [...prices]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach(price => {
+      closes[price.date.slice(0, 7)] = price.close;
+    });
+  return closes;
+}
+
+// Month-end levels that reproduce a run of monthly returns, chained from a level of 1 at the
+// end of the month before the first return
+export function closesFromReturns(returns: MarketSeriesPoint[]): MonthEndCloses {
+  const closes: MonthEndCloses = {};
+  const sorted = [...returns].sort((a, b) => a.date.localeCompare(b.date));
+  let level = 1;
+  closes[previousMonth(sorted[0].date)] = level;
+  sorted.forEach(point => {
+    level *= 1 + point.return;
+    closes[point.date] = level;
+  });
+  return closes;
+}
+
+// Annualized growth from the first close to the last, used when no average return is stated
+export function annualizedGrowth(closes: MonthEndCloses): number {
+  const months = Object.keys(closes).sort();
+  const first = months[0];
+  const last = months[months.length - 1];
+  return Math.pow(closes[last] / closes[first], 12 / (monthIndex(last) - monthIndex(first))) - 1;
+}
+
+export function previousMonth(month: string): string {
+  const year = parseInt(month.slice(0, 4));
+  const monthOfYear = parseInt(month.slice(5, 7));
+  return monthOfYear === 1 ? `${year - 1}-12` : `${year}-${(monthOfYear - 1).toString().padStart(2, '0')}`;
+}
+
+// Close-to-close returns for every month, or every December-to-December year, with both closes present
+export function returnsFromCloses(closes: MonthEndCloses, granularity: MarketSeriesGranularity): MarketSeriesPoint[] {
+  return Object.keys(closes)
+    .sort()
+    .filter(month => granularity === 'monthly' || month.endsWith('-12'))
+    .map(month => {
+      const previous = granularity === 'monthly' ? previousMonth(month) : `${parseInt(month.slice(0, 4)) - 1}-12`;
+      return closes[previous] === undefined ? null : {
+        date: granularity === 'monthly' ? month : month.slice(0, 4),
+        return: closes[month] / closes[previous] - 1
+      };
+    })
+    .filter((point): point is MarketSeriesPoint => point !== null);
+}
+
+// Indices from price files in a directory, one per .csv or .json file, with the file name as the
+// index id (msci-world.csv becomes 'msci-world'). A missing directory simply provides nothing.
+export function createFileSystemProvider(directory: string): MarketDataProvider {
+  let files: { [index: string]: PriceFile } | undefined;
+
+  const readDirectory = (): { [index: string]: PriceFile } => {
+    if (files) {
+      return files;
+    }
+    const loaded: { [index: string]: PriceFile } = {};
+    if (fs.existsSync(directory)) {
+      fs.readdirSync(directory).sort().forEach(fileName => {
+        const extension = path.extname(fileName).toLowerCase();
+        if (extension !== '.csv' && extension !== '.json') {
+          return;
+        }
+        const id = path.basename(fileName, path.extname(fileName)).toLowerCase();
+        if (!/^[a-z0-9_-]+$/.test(id)) {
+          throw new Error(`Price file ${fileName} must be named with letters, digits, '-' or '_'`);
+        }
+        if (loaded[id]) {
+          throw new Error(`More than one price file in ${directory} is named ${id}`);
+        }
+        loaded[id] = readPriceFile(path.join(directory, fileName), id);
+      });
+    }
+    files = loaded;
+    return files;
+  };
+
+  return {
+    name: `files in ${directory}`,
+    listIndices: async () => Object.keys(readDirectory()).map(index => ({ ...readDirectory()[index].definition })),
+    getSeries: async (index, range) => {
+      const file = readDirectory()[index];
+      return file ? withinRange(returnsFromCloses(file.closes, range.granularity), range) : [];
+    }
+  };
+}
@@ -0,0 +1,396 @@
+// Market data repository shared by every endpoint and by the calculation engine.
+// Providers' series are loaded here once so the API and the calculator can never drift apart.
+import fs from 'fs';
+import path from 'path';
+import {
+  MarketIndices,
+  MarketIndexDefinition,
+  MarketIndexInfo,
+  MarketDataResponse,
+  HistoricalDataPoint,
+  HistoricalReturns,
+  AllHistoricalReturns,
+  MonthlyReturns,
+  AllMonthlyReturns,
+  CpiSeries,
+  FxSeries,
+  CurrencyCode
+} from './shared-types';
+import { BUNDLED_DATA_DIR, MarketDataProvider } from './market-data-providers';
+
+// Bump whenever a series is added or revised so responses can be traced to the data they used
+export const MARKET_DATA_VERSION = '2024.12.7';
+
+// Largest allowed gap between a compounded calendar year of monthly returns and its annual figure
+const ANNUAL_RECONCILIATION_TOLERANCE = 0.005;
+
+export const DEFAULT_MARKET_INDEX = 'sp500';
+
+// Annual and monthly total returns per index, filled from the providers by loadMarketData
+const ANNUAL_RETURNS: AllHistoricalReturns = {};
+const MONTHLY_RETURNS: AllMonthlyReturns = {};
+
+function toHistoricalDataPoint(index: string, indexName: string, year: number, annualReturn: number): HistoricalDataPoint {
+  return {
+    year,
+    return: annualReturn,
+    returnPercentage: (annualReturn * 100).toFixed(2),
+    date: `${year}-12-31`,
+    index,
+    indexName
+  };
+}
+
+function buildMarketIndex(definition: MarketIndexDefinition, defaultCpiRegion: string) {
+  const { id, name, averageReturn, currency, cpiRegion, totalReturn, category, source } = definition;
+  const returns = ANNUAL_RETURNS[id] || {};
+  return {
+    name,
+    averageReturn,
+    currency,
+    cpiRegion: cpiRegion || defaultCpiRegion,
+    totalReturn: totalReturn !== false,
+    category: category || 'equity',
+    ...(source && { source }),
+    historicalData: Object.keys(returns)
+      .map(year => parseInt(year))
+      .sort((a, b) => a - b)
+      .map(year => toHistoricalDataPoint(id, name, year, returns[year]))
+  };
+}
+
+// Market indices catalog with long-run average returns, filled from the providers by loadMarketData
+export const MARKET_INDICES: MarketIndices = {};
+
+// Reporting currencies, with the CPI series used for real terms when reporting in one
+export const CURRENCIES: { [currency in CurrencyCode]: { name: string; cpiRegion?: string } } = {
+  USD: { name: 'US Dollar', cpiRegion: 'us' },
+  GBP: { name: 'British Pound', cpiRegion: 'uk' },
+  JPY: { name: 'Japanese Yen', cpiRegion: 'jp' },
+  EUR: { name: 'Euro' }
+};
+
+export function monthKey(year: number, monthOfYear: number): string {
+  return `${year}-${monthOfYear.toString().padStart(2, '0')}`;
+}
+
+// Reads data/cpi/<region>.csv with a `year,index` header of annual-average price levels
+function loadCpiSeries(region: string): CpiSeries {
+  const file = path.join(BUNDLED_DATA_DIR, 'cpi', `${region}.csv`);
+  if (!fs.existsSync(file)) {
+    return {};
+  }
+
+  const [header, ...rows] = fs.readFileSync(file, 'utf8').split(/\r?\n/).filter(line => line.trim());
+  if (!header || header.trim().toLowerCase() !== 'year,index') {
+    throw new Error(`CPI file ${file} must start with a 'year,index' header`);
+  }
+
+  const series: CpiSeries = {};
+  rows.forEach((row, i) => {
+    const [year, value] = row.split(',').map(field => field.trim());
+    const level = parseFloat(value);
+    if (!/^\d{4}$/.test(year) || isNaN(level) || level <= 0) {
+      throw new Error(`Invalid CPI level on line ${i + 2} of ${file}`);
+    }
+    series[parseInt(year)] = level;
+  });
+  return series;
+}
+
+// Reads data/fx/<currency>.csv with a `year,usd` header of year-end US dollars per unit. The
+// bundled rates are annual only, so currency moves are applied a year at a time.
+function loadFxSeries(currency: CurrencyCode): FxSeries {
+  const file = path.join(BUNDLED_DATA_DIR, 'fx', `${currency.toLowerCase()}.csv`);
+  if (!fs.existsSync(file)) {
+    return {};
+  }
+
+  const [header, ...rows] = fs.readFileSync(file, 'utf8').split(/\r?\n/).filter(line => line.trim());
+  if (!header || header.trim().toLowerCase() !== 'year,usd') {
+    throw new Error(`Exchange-rate file ${file} must start with a 'year,usd' header`);
+  }
+
+  const series: FxSeries = {};
+  rows.forEach((row, i) => {
+    const [year, value] = row.split(',').map(field => field.trim());
+    const rate = parseFloat(value);
+    if (!/^\d{4}$/.test(year) || isNaN(rate) || rate <= 0) {
+      throw new Error(`Invalid exchange rate on line ${i + 2} of ${file}`);
+    }
+    series[parseInt(year)] = rate;
+  });
+  return series;
+}
+
+const FX_SERIES: { [currency: string]: FxSeries } = (Object.keys(CURRENCIES) as CurrencyCode[])
+  .filter(currency => currency !== 'USD')
+  .reduce((all, currency) => {
+    all[currency] = loadFxSeries(currency);
+    return all;
+  }, {} as { [currency: string]: FxSeries });
+
+// US CPI-U (BLS, 1982-84=100), UK CPI (2015=100) and Japan CPI (2020=100), plus any other
+// region a provided index names. Each series is read on first use.
+const CPI_SERIES: { [region: string]: CpiSeries } = {};
+
+function getCpiSeries(region: string): CpiSeries {
+  if (!CPI_SERIES[region]) {
+    CPI_SERIES[region] = loadCpiSeries(region);
+  }
+  return CPI_SERIES[region];
+}
+
+// Name of the provider each loaded index came from
+const INDEX_PROVIDERS: { [index: string]: string } = {};
+
+async function loadMarketIndex(provider: MarketDataProvider, definition: MarketIndexDefinition): Promise<void> {
+  if (!isValidCurrency(definition.currency)) {
+    throw new Error(`Market index '${definition.id}' from ${provider.name} has unsupported currency '${definition.currency}'`);
+  }
+
+  const [annual, monthly] = await Promise.all([
+    provider.getSeries(definition.id, { granularity: 'annual' }),
+    provider.getSeries(definition.id, { granularity: 'monthly' })
+  ]);
+  ANNUAL_RETURNS[definition.id] = annual.reduce((returns, point) => {
+    returns[parseInt(point.date)] = point.return;
+    return returns;
+  }, {} as HistoricalReturns);
+  MONTHLY_RETURNS[definition.id] = monthly.reduce((returns, point) => {
+    returns[point.date] = point.return;
+    return returns;
+  }, {} as MonthlyReturns);
+  MARKET_INDICES[definition.id] = buildMarketIndex(definition, CURRENCIES[definition.currency].cpiRegion || '');
+  INDEX_PROVIDERS[definition.id] = provider.name;
+}
+
+// Loads each provider's catalog and full return history, in order. An index id already taken
+// by an earlier provider is an error rather than a silent override. Run once at startup.
+export async function loadMarketData(providers: MarketDataProvider[]): Promise<void> {
+  for (const provider of providers) {
+    const definitions = await provider.listIndices();
+    for (const definition of definitions) {
+      if (isValidMarketIndex(definition.id)) {
+        throw new Error(`Market index '${definition.id}' from ${provider.name} is already provided`);
+      }
+      await loadMarketIndex(provider, definition);
+    }
+  }
+}
+
+export function getMarketIndexProvider(index: string): string | undefined {
+  return INDEX_PROVIDERS[index];
+}
+
+// Picks up a change to one of a provider's indices while the server runs: the index is
+// re-read, added if new, or dropped if the provider no longer lists it
+export async function reloadMarketIndex(provider: MarketDataProvider, index: string): Promise<void> {
+  if (isValidMarketIndex(index) && INDEX_PROVIDERS[index] !== provider.name) {
+    throw new Error(`Market index '${index}' belongs to ${INDEX_PROVIDERS[index]}, not ${provider.name}`);
+  }
+  const definition = (await provider.listIndices()).find(candidate => candidate.id === index);
+  if (definition) {
+    await loadMarketIndex(provider, definition);
+  } else {
+    delete MARKET_INDICES[index];
+    delete ANNUAL_RETURNS[index];
+    delete MONTHLY_RETURNS[index];
+    delete INDEX_PROVIDERS[index];
+  }
+}
+
+export function isValidMarketIndex(index: string): boolean {
+  return Object.prototype.hasOwnProperty.call(MARKET_INDICES, index);
+}
+
+export function isValidCurrency(currency: any): currency is CurrencyCode {
+  return Object.prototype.hasOwnProperty.call(CURRENCIES, currency);
+}
+
+export function listMarketIndices(): MarketIndexInfo[] {
+  return Object.keys(MARKET_INDICES).map(key => ({
+    id: key,
+    name: MARKET_INDICES[key].name,
+    averageReturn: MARKET_INDICES[key].averageReturn,
+    currency: MARKET_INDICES[key].currency,
+    totalReturn: MARKET_INDICES[key].totalReturn,
+    category: MARKET_INDICES[key].category,
+    ...(MARKET_INDICES[key].source && { source: MARKET_INDICES[key].source })
+  }));
+}
+
+export function getAnnualReturns(index: string): HistoricalReturns {
+  const returns = ANNUAL_RETURNS[index];
+  if (!returns) {
+    throw new Error(`No return series for market index '${index}'`);
+  }
+  return returns;
+}
+
+// Annual return for a calendar year, falling back to the index's long-run average
+export function getAnnualReturn(index: string, year: number): number {
+  const returns = getAnnualReturns(index);
+  return returns[year] !== undefined ? returns[year] : MARKET_INDICES[index].averageReturn;
+}
+
+export function annualToMonthlyReturn(annualReturn: number): number {
+  return Math.pow(1 + annualReturn, 1 / 12) - 1;
+}
+
+// Monthly total return (monthOfYear 1-12). Falls back to the annual figure converted geometrically.
+export function getMonthlyReturn(index: string, year: number, monthOfYear: number): number {
+  const monthlyReturn = MONTHLY_RETURNS[index]?.[monthKey(year, monthOfYear)];
+  return monthlyReturn !== undefined ? monthlyReturn : annualToMonthlyReturn(getAnnualReturn(index, year));
+}
+
+// Chronological monthly return history for an index
+export function getMonthlyReturnSeries(index: string): { month: string; return: number }[] {
+  const monthly = MONTHLY_RETURNS[index] || {};
+  return Object.keys(monthly)
+    .sort()
+    .map(month => ({ month, return: monthly[month] }));
+}
+
+export function getCpiYears(region: string): number[] {
+  return Object.keys(getCpiSeries(region)).map(year => parseInt(year)).sort((a, b) => a - b);
+}
+
+// Annual-average CPI level; years outside the series are extrapolated at its average inflation rate
+export function getAnnualCpi(region: string, year: number): number {
+  const series = getCpiSeries(region);
+  if (series[year] !== undefined) {
+    return series[year];
+  }
+  const years = getCpiYears(region);
+  if (years.length === 0) {
+    throw new Error(`No CPI series for region '${region}'`);
+  }
+  const first = years[0];
+  const last = years[years.length - 1];
+  const averageInflation = Math.pow(series[last] / series[first], 1 / Math.max(1, last - first)) - 1;
+  return year < first
+    ? series[first] / Math.pow(1 + averageInflation, first - year)
+    : series[last] * Math.pow(1 + averageInflation, year - last);
+}
+
+// Monthly CPI level, treating each annual average as the mid-year level and interpolating geometrically
+export function getCpiLevel(region: string, year: number, monthOfYear: number): number {
+  const position = year + (monthOfYear - 6.5) / 12;
+  const lowerYear = Math.floor(position);
+  const lower = getAnnualCpi(region, lowerYear);
+  const upper = getAnnualCpi(region, lowerYear + 1);
+  return lower * Math.pow(upper / lower, position - lowerYear);
+}
+
+// Year-end US dollars per unit; years outside the series hold its first or last rate
+function getUsdRate(currency: CurrencyCode, year: number): number {
+  if (currency === 'USD') {
+    return 1;
+  }
+  const series = FX_SERIES[currency] || {};
+  if (series[year] !== undefined) {
+    return series[year];
+  }
+  const years = Object.keys(series).map(key => parseInt(key)).sort((a, b) => a - b);
+  if (years.length === 0) {
+    throw new Error(`No exchange-rate series for currency '${currency}'`);
+  }
+  return year < years[0] ? series[years[0]] : series[years[years.length - 1]];
+}
+
+// An amount in `from` expressed in `to` during `year`. Rates are year-end only, so the rate from the
+// end of the previous year holds until the year's own move lands in December.
+export function convertAmount(amount: number, from: CurrencyCode, to: CurrencyCode, year: number): number {
+  return from === to ? amount : amount * getUsdRate(from, year - 1) / getUsdRate(to, year - 1);
+}
+
+// Change over the month in what one unit of `from` is worth in `to`, as a decimal. Rates are
+// year-end only, so a year's whole move lands in its December and other months are flat, as are
+// years past either end of the series.
+export function getCurrencyReturn(from: CurrencyCode, to: CurrencyCode, year: number, monthOfYear: number): number {
+  if (from === to || monthOfYear !== 12) {
+    return 0;
+  }
+  const value = getUsdRate(from, year) / getUsdRate(to, year);
+  const previousValue = getUsdRate(from, year - 1) / getUsdRate(to, year - 1);
+  return value / previousValue - 1;
+}
+
+// Fails loudly at startup if the catalog and the return series disagree
+export function validateMarketData(): void {
+  const problems: string[] = [];
+
+  if (!isValidMarketIndex(DEFAULT_MARKET_INDEX)) {
+    problems.push(`default market index ${DEFAULT_MARKET_INDEX} was not provided`);
+  }
+
+  Object.keys(MARKET_INDICES).forEach(index => {
+    const annual = ANNUAL_RETURNS[index];
+    const monthly = MONTHLY_RETURNS[index];
+
+    if (!annual || Object.keys(annual).length === 0) {
+      problems.push(`no annual return series for ${index}`);
+      return;
+    }
+    if (!monthly || Object.keys(monthly).length === 0) {
+      problems.push(`no monthly return series for ${index}`);
+      return;
+    }
+    if (getCpiYears(MARKET_INDICES[index].cpiRegion).length === 0) {
+      problems.push(`no CPI series for ${index} (region ${MARKET_INDICES[index].cpiRegion || 'not set'})`);
+    }
+
+    Object.keys(annual).forEach(yearKey => {
+      const year = parseInt(yearKey);
+      const months = Array.from({ length: 12 }, (_, i) => monthly[monthKey(year, i + 1)]);
+      if (months.some(value => value === undefined)) {
+        return;
+      }
+      const compounded = months.reduce((growth, value) => growth * (1 + value), 1) - 1;
+      if (Math.abs(compounded - annual[year]) > ANNUAL_RECONCILIATION_TOLERANCE) {
+        problems.push(`${index} ${year} monthly returns compound to ${(compounded * 100).toFixed(2)}%, expected ${(annual[year] * 100).toFixed(2)}%`);
+      }
+    });
+  });
+
+  Object.keys(FX_SERIES).forEach(currency => {
+    if (Object.keys(FX_SERIES[currency]).length === 0) {
+      problems.push(`no exchange-rate series for ${currency}`);
+    }
+  });
+
+  if (problems.length > 0) {
+    throw new Error(`Market data ${MARKET_DATA_VERSION} is inconsistent: ${problems.join('; ')}`);
+  }
+}
+
+export function generateRealisticMarketData(index: string, startDate?: string, endDate?: string): MarketDataResponse {
+  const start = new Date(startDate || '1990-01-01');
+  const end = new Date(endDate || new Date());
+  const indexName = MARKET_INDICES[index].name;
+  const data: HistoricalDataPoint[] = [];
+
+  let currentYear = start.getFullYear();
+  const endYear = end.getFullYear();
+
+  while (currentYear <= endYear) {
+    data.push(toHistoricalDataPoint(index, indexName, currentYear, getAnnualReturn(index, currentYear)));
+    currentYear++;
+  }
+
+  const averageReturn = data.reduce((sum, item) => sum + item.return, 0) / data.length;
+
+  return {
+    index,
+    indexName,
+    averageReturn,
+    historicalData: data,
+    lastUpdated: new Date().toISOString(),
+    dataVersion: MARKET_DATA_VERSION,
+    period: {
+      startDate: start.toISOString().split('T')[0],
+      endDate: end.toISOString().split('T')[0]
+    }
+  };
+}
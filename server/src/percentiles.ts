@@ -0,0 +1,23 @@
+// Percentile summaries shared by the simulation and backtest endpoints
+import { PercentileValues } from './shared-types';
+
+// Linear interpolation between closest ranks of an ascending array
+function percentile(sorted: ArrayLike<number>, p: number): number {
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+// p5/p25/p50/p75/p95 of the values, rounded to cents
+export function percentileValues(values: ArrayLike<number>): PercentileValues {
+  const sorted = Float64Array.from(values).sort();
+  const round = (value: number) => Math.round(value * 100) / 100;
+  return {
+    p5: round(percentile(sorted, 5)),
+    p25: round(percentile(sorted, 25)),
+    p50: round(percentile(sorted, 50)),
+    p75: round(percentile(sorted, 75)),
+    p95: round(percentile(sorted, 95))
+  };
+}
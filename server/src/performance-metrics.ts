@@ -0,0 +1,94 @@
+// Money-weighted (XIRR) and time-weighted return helpers used by the calculation engine
+
+// Investor-perspective cash flow: money put in is negative, money taken out (or final value) positive
+export interface CashFlow {
+  date: string;
+  amount: number;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+// Same day-count basis as spreadsheet XIRR
+const DAYS_PER_YEAR = 365;
+const XIRR_TOLERANCE = 1e-7;
+const XIRR_MAX_ITERATIONS = 100;
+
+function npv(rate: number, amounts: number[], years: number[]): number {
+  return amounts.reduce((sum, amount, i) => sum + amount / Math.pow(1 + rate, years[i]), 0);
+}
+
+function npvDerivative(rate: number, amounts: number[], years: number[]): number {
+  return amounts.reduce((sum, amount, i) => sum - (years[i] * amount) / Math.pow(1 + rate, years[i] + 1), 0);
+}
+
+// Annualized internal rate of return for irregular cash flows, or null when it is undefined
+// (all flows on one date, or no sign change between money in and money out)
+export function xirr(cashFlows: CashFlow[]): number | null {
+  const flows = cashFlows.filter(flow => flow.amount !== 0 && isFinite(flow.amount));
+  if (!flows.some(flow => flow.amount < 0) || !flows.some(flow => flow.amount > 0)) {
+    return null;
+  }
+
+  const times = flows.map(flow => Date.parse(flow.date));
+  const firstTime = Math.min(...times);
+  const years = times.map(time => (time - firstTime) / MS_PER_DAY / DAYS_PER_YEAR);
+  const amounts = flows.map(flow => flow.amount);
+  if (years.every(year => year === 0)) {
+    return null;
+  }
+
+  // Newton-Raphson first; it converges in a handful of steps for ordinary portfolios
+  let rate = 0.1;
+  for (let i = 0; i < XIRR_MAX_ITERATIONS; i++) {
+    const value = npv(rate, amounts, years);
+    const derivative = npvDerivative(rate, amounts, years);
+    if (!isFinite(value) || !isFinite(derivative) || derivative === 0) {
+      break;
+    }
+    const next = rate - value / derivative;
+    if (next <= -1 || !isFinite(next)) {
+      break;
+    }
+    if (Math.abs(next - rate) < XIRR_TOLERANCE) {
+      return next;
+    }
+    rate = next;
+  }
+
+  // Fall back to bisection over a bracket that shows a sign change
+  let low = -0.9999;
+  let high = 1;
+  let lowValue = npv(low, amounts, years);
+  let highValue = npv(high, amounts, years);
+  while (lowValue * highValue > 0 && high < 1e6) {
+    high *= 2;
+    highValue = npv(high, amounts, years);
+  }
+  if (!isFinite(lowValue) || !isFinite(highValue) || lowValue * highValue > 0) {
+    return null;
+  }
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    const midValue = npv(mid, amounts, years);
+    if (Math.abs(midValue) < XIRR_TOLERANCE || (high - low) / 2 < XIRR_TOLERANCE) {
+      return mid;
+    }
+    if (midValue * lowValue < 0) {
+      high = mid;
+    } else {
+      low = mid;
+      lowValue = midValue;
+    }
+  }
+  return (low + high) / 2;
+}
+
+// Converts a cumulative growth factor into an annual rate. Spans shorter than a year are
+// returned as-is rather than extrapolated.
+export function annualizeGrowth(growth: number, startDate: string, endDate: string): number {
+  const days = (Date.parse(endDate) - Date.parse(startDate)) / MS_PER_DAY;
+  if (days < DAYS_PER_YEAR || growth <= 0) {
+    return growth - 1;
+  }
+  return Math.pow(growth, DAYS_PER_YEAR / days) - 1;
+}
@@ -0,0 +1,88 @@
+// Multi-asset allocation: validation, cash-flow splitting and rebalancing rules
+import { PortfolioAllocation, RebalancingPolicy } from './shared-types';
+import { isValidMarketIndex } from './market-data';
+
+export const DEFAULT_REBALANCE_BAND = 0.05;
+
+const REBALANCING_POLICIES: RebalancingPolicy[] = ['none', 'monthly', 'quarterly', 'annual', 'threshold'];
+const WEIGHT_SUM_TOLERANCE = 0.0001;
+
+// Returns an error message for a malformed allocation, or null when it can be used
+export function validateAllocation(allocation: any): string | null {
+  if (!allocation || typeof allocation !== 'object' || Array.isArray(allocation)) {
+    return 'Allocation must map market indices to weights';
+  }
+
+  const indices = Object.keys(allocation);
+  if (indices.length === 0) {
+    return 'Allocation needs at least one market index';
+  }
+
+  const unknownIndex = indices.find(index => !isValidMarketIndex(index));
+  if (unknownIndex) {
+    return `Invalid market index in allocation: ${unknownIndex}`;
+  }
+
+  const invalidWeight = indices.find(index => {
+    const weight = allocation[index];
+    return typeof weight !== 'number' || !isFinite(weight) || weight < 0 || weight > 1;
+  });
+  if (invalidWeight) {
+    return `Allocation weight for ${invalidWeight} must be a decimal between 0 and 1`;
+  }
+
+  const total = indices.reduce((sum, index) => sum + allocation[index], 0);
+  if (Math.abs(total - 1) > WEIGHT_SUM_TOLERANCE) {
+    return 'Allocation weights must sum to 1';
+  }
+
+  return null;
+}
+
+export function validateRebalancing(policy: any, band: any): string | null {
+  if (policy !== undefined && !REBALANCING_POLICIES.includes(policy)) {
+    return `Rebalancing must be one of ${REBALANCING_POLICIES.join(', ')}`;
+  }
+  if (band !== undefined && (typeof band !== 'number' || !isFinite(band) || band <= 0 || band >= 1)) {
+    return 'Rebalance band must be a decimal between 0 and 1';
+  }
+  return null;
+}
+
+// Deposits are spread by target weight
+export function splitDeposit(amount: number, targets: number[]): number[] {
+  return targets.map(target => amount * target);
+}
+
+// Withdrawals come out of each sleeve in proportion to its current value
+export function splitWithdrawal(amount: number, sleeves: number[]): number[] {
+  const total = sleeves.reduce((sum, value) => sum + value, 0);
+  return sleeves.map(value => (total > 0 ? (amount * value) / total : 0));
+}
+
+export function currentWeights(sleeves: number[]): number[] {
+  const total = sleeves.reduce((sum, value) => sum + value, 0);
+  return sleeves.map(value => (total > 0 ? value / total : 0));
+}
+
+// Whether the policy calls for a rebalance at the end of the given month
+export function isRebalanceDue(
+  policy: RebalancingPolicy,
+  monthOfYear: number,
+  sleeves: number[],
+  targets: number[],
+  band: number
+): boolean {
+  switch (policy) {
+    case 'monthly':
+      return true;
+    case 'quarterly':
+      return monthOfYear % 3 === 0;
+    case 'annual':
+      return monthOfYear === 12;
+    case 'threshold':
+      return currentWeights(sleeves).some((weight, i) => Math.abs(weight - targets[i]) > band);
+    default:
+      return false;
+  }
+}
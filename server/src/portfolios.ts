@@ -0,0 +1,438 @@
+// Portfolios with their transactions and saved calculation scenarios, kept in the SQLite database
+import { randomUUID } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import {
+  AccountType,
+  PortfolioRequest,
+  PortfolioSummary,
+  PortfolioTransaction,
+  PortfolioTransactionRequest,
+  RecurringTransaction,
+  SavedScenario,
+  ScenarioRequest,
+  CurrencyCode
+} from './shared-types';
+import { AppDatabase } from './database';
+import { CURRENCIES, DEFAULT_MARKET_INDEX, isValidCurrency, isValidMarketIndex } from './market-data';
+import { validateCalculationRequest } from './calculation-request';
+import { validateRecurringTransactions } from './recurring-transactions';
+import { currentUser, normalizeEmail } from './auth';
+
+export const ACCOUNT_TYPES: AccountType[] = ['taxable', 'ira', 'roth-ira', '401k', 'other'];
+
+// Decades of daily trades, so a whole portfolio can be replaced in one request
+export const MAX_TRANSACTIONS_PER_REQUEST = 10000;
+const MAX_NAME_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 500;
+
+export interface PortfolioStore {
+  // The user's portfolios
+  list(ownerId: string): PortfolioSummary[];
+  get(id: string): PortfolioSummary | undefined;
+  isOwnedBy(id: string, ownerId: string): boolean;
+  create(ownerId: string, request: PortfolioRequest): PortfolioSummary;
+  // Undefined when there is no such portfolio
+  update(id: string, request: PortfolioRequest): PortfolioSummary | undefined;
+  // Removes the portfolio with its transactions and scenarios; false when there was none
+  remove(id: string): boolean;
+  // Hands portfolios created before accounts existed to the account with this email and returns
+  // how many there were; undefined when there is no such account
+  claimUnowned(ownerEmail: string): number | undefined;
+
+  listTransactions(portfolioId: string): PortfolioTransaction[];
+  getTransaction(portfolioId: string, transactionId: string): PortfolioTransaction | undefined;
+  // Adds all of the transactions or, if any insert fails, none of them
+  addTransactions(portfolioId: string, requests: PortfolioTransactionRequest[]): PortfolioTransaction[];
+  updateTransaction(portfolioId: string, transactionId: string, request: PortfolioTransactionRequest): PortfolioTransaction | undefined;
+  // Swaps the whole list in one go. Entries whose id names a current transaction keep it and its
+  // createdAt; the rest get new ids.
+  replaceTransactions(portfolioId: string, requests: PortfolioTransactionRequest[]): PortfolioTransaction[];
+  removeTransaction(portfolioId: string, transactionId: string): boolean;
+
+  listRecurringRules(portfolioId: string): RecurringTransaction[];
+  // Swaps the whole list in one go
+  replaceRecurringRules(portfolioId: string, rules: RecurringTransaction[]): RecurringTransaction[];
+
+  listScenarios(portfolioId: string): SavedScenario[];
+  getScenario(portfolioId: string, scenarioId: string): SavedScenario | undefined;
+  createScenario(portfolioId: string, request: ScenarioRequest): SavedScenario;
+  updateScenario(portfolioId: string, scenarioId: string, request: ScenarioRequest): SavedScenario | undefined;
+  removeScenario(portfolioId: string, scenarioId: string): boolean;
+}
+
+function validateText(value: any, field: string, maxLength: number, required: boolean): string | null {
+  if (value === undefined && !required) {
+    return null;
+  }
+  if (typeof value !== 'string' || (required && !value.trim())) {
+    return `${field} is required`;
+  }
+  if (value.trim().length > maxLength) {
+    return `${field} must be at most ${maxLength} characters`;
+  }
+  return null;
+}
+
+// Returns an error message for an unusable portfolio, or null when it can be stored
+export function validatePortfolio(request: any): string | null {
+  if (!request || typeof request !== 'object') {
+    return 'Portfolio body is required';
+  }
+  const textError = validateText(request.name, 'name', MAX_NAME_LENGTH, true) ||
+    validateText(request.description, 'description', MAX_DESCRIPTION_LENGTH, false);
+  if (textError) {
+    return textError;
+  }
+
+  const { accountType, baseCurrency, marketIndex } = request;
+  if (accountType !== undefined && !ACCOUNT_TYPES.includes(accountType)) {
+    return `accountType must be one of ${ACCOUNT_TYPES.join(', ')}`;
+  }
+  if (baseCurrency !== undefined && !isValidCurrency(baseCurrency)) {
+    return `baseCurrency must be one of ${Object.keys(CURRENCIES).join(', ')}`;
+  }
+  if (marketIndex !== undefined && !isValidMarketIndex(marketIndex)) {
+    return 'Invalid market index';
+  }
+  return null;
+}
+
+export function validatePortfolioTransaction(transaction: any): string | null {
+  if (!transaction || typeof transaction !== 'object') {
+    return 'Transaction must be an object';
+  }
+  if (typeof transaction.date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(transaction.date) || isNaN(Date.parse(transaction.date))) {
+    return 'Transaction date must be a valid YYYY-MM-DD date';
+  }
+  if (typeof transaction.amount !== 'number' || !isFinite(transaction.amount) || transaction.amount <= 0) {
+    return 'Transaction amount must be a positive number';
+  }
+  if (transaction.type !== 'deposit' && transaction.type !== 'withdrawal') {
+    return "Transaction type must be 'deposit' or 'withdrawal'";
+  }
+  if (transaction.id !== undefined && typeof transaction.id !== 'string') {
+    return 'Transaction id must be a string';
+  }
+  return validateText(transaction.description, 'Transaction description', MAX_DESCRIPTION_LENGTH, false);
+}
+
+// A single transaction or a list of them, as POSTed to a portfolio. A replacement list may be empty.
+export function validatePortfolioTransactions(body: any, replacing = false): string | null {
+  if (!Array.isArray(body)) {
+    return replacing ? 'Send the full list of transactions' : validatePortfolioTransaction(body);
+  }
+  if ((body.length === 0 && !replacing) || body.length > MAX_TRANSACTIONS_PER_REQUEST) {
+    return `Send between ${replacing ? 0 : 1} and ${MAX_TRANSACTIONS_PER_REQUEST} transactions at a time`;
+  }
+  for (let i = 0; i < body.length; i++) {
+    const transactionError = validatePortfolioTransaction(body[i]);
+    if (transactionError) {
+      return `Transaction ${i + 1}: ${transactionError}`;
+    }
+  }
+  return null;
+}
+
+// The full list of a portfolio's recurring rules. Their amounts are in the portfolio's base
+// currency, so a rule can't name one of its own.
+export function validatePortfolioRecurringRules(body: any): string | null {
+  const rulesError = validateRecurringTransactions(body);
+  if (rulesError) {
+    return rulesError;
+  }
+  const withCurrency = body.findIndex((rule: any) => rule.currency !== undefined);
+  if (withCurrency >= 0) {
+    return `Recurring transaction ${withCurrency + 1} can't set a currency; amounts are in the portfolio's base currency`;
+  }
+  return null;
+}
+
+export function validateScenario(request: any): string | null {
+  if (!request || typeof request !== 'object') {
+    return 'Scenario body is required';
+  }
+  const nameError = validateText(request.name, 'name', MAX_NAME_LENGTH, true);
+  if (nameError) {
+    return nameError;
+  }
+  const { settings } = request;
+  if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+    return 'settings must be a calculation request';
+  }
+  if (settings.transactions !== undefined) {
+    return "settings can't hold transactions; a scenario runs on its portfolio's transactions";
+  }
+  // The portfolio may have no transactions yet, so only an explicit starting amount is required
+  const settingsError = validateCalculationRequest({ initialAmount: 0, ...settings });
+  return settingsError ? `settings: ${settingsError}` : null;
+}
+
+interface PortfolioRow {
+  id: string;
+  name: string;
+  description: string | null;
+  account_type: AccountType;
+  base_currency: CurrencyCode;
+  market_index: string;
+  created_at: string;
+  updated_at: string;
+  transaction_count: number;
+  scenario_count: number;
+  first_transaction_date: string | null;
+  last_transaction_date: string | null;
+}
+
+interface TransactionRow {
+  id: string;
+  portfolio_id: string;
+  date: string;
+  amount: number;
+  type: 'deposit' | 'withdrawal';
+  description: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface ScenarioRow {
+  id: string;
+  portfolio_id: string;
+  name: string;
+  settings: string;
+  created_at: string;
+  updated_at: string;
+}
+
+function toPortfolio(row: PortfolioRow): PortfolioSummary {
+  return {
+    id: row.id,
+    name: row.name,
+    ...(row.description && { description: row.description }),
+    accountType: row.account_type,
+    baseCurrency: row.base_currency,
+    marketIndex: row.market_index,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    transactionCount: row.transaction_count,
+    scenarioCount: row.scenario_count,
+    ...(row.first_transaction_date && { firstTransactionDate: row.first_transaction_date }),
+    ...(row.last_transaction_date && { lastTransactionDate: row.last_transaction_date })
+  };
+}
+
+function toTransaction(row: TransactionRow): PortfolioTransaction {
+  return {
+    id: row.id,
+    portfolioId: row.portfolio_id,
+    date: row.date,
+    amount: row.amount,
+    type: row.type,
+    ...(row.description && { description: row.description }),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+function toScenario(row: ScenarioRow): SavedScenario {
+  return {
+    id: row.id,
+    portfolioId: row.portfolio_id,
+    name: row.name,
+    settings: JSON.parse(row.settings),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+// Money is kept to the cent, as everywhere else in the calculator
+function toCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// Only the fields a rule is made of, with plain YYYY-MM-DD dates
+function toStoredRule(rule: RecurringTransaction): RecurringTransaction {
+  return {
+    type: rule.type,
+    amount: toCents(rule.amount),
+    frequency: rule.frequency,
+    startDate: new Date(rule.startDate).toISOString().split('T')[0],
+    ...(rule.endDate !== undefined && { endDate: new Date(rule.endDate).toISOString().split('T')[0] }),
+    ...(rule.annualStepUp && { annualStepUp: rule.annualStepUp })
+  };
+}
+
+export function createPortfolioStore(db: AppDatabase): PortfolioStore {
+  const portfolioQuery = `
+    SELECT p.*,
+      (SELECT COUNT(*) FROM transactions t WHERE t.portfolio_id = p.id) AS transaction_count,
+      (SELECT COUNT(*) FROM scenarios s WHERE s.portfolio_id = p.id) AS scenario_count,
+      (SELECT MIN(date) FROM transactions t WHERE t.portfolio_id = p.id) AS first_transaction_date,
+      (SELECT MAX(date) FROM transactions t WHERE t.portfolio_id = p.id) AS last_transaction_date
+    FROM portfolios p`;
+  const statements = {
+    listPortfolios: db.prepare(`${portfolioQuery} WHERE p.owner_id = ? ORDER BY p.name COLLATE NOCASE, p.created_at`),
+    getPortfolio: db.prepare(`${portfolioQuery} WHERE p.id = ?`),
+    getOwner: db.prepare('SELECT owner_id FROM portfolios WHERE id = ?'),
+    insertPortfolio: db.prepare(`
+      INSERT INTO portfolios (id, owner_id, name, description, account_type, base_currency, market_index, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`),
+    updatePortfolio: db.prepare(`
+      UPDATE portfolios SET name = ?, description = ?, account_type = ?, base_currency = ?, market_index = ?, updated_at = ?
+      WHERE id = ?`),
+    touchPortfolio: db.prepare('UPDATE portfolios SET updated_at = ? WHERE id = ?'),
+    deletePortfolio: db.prepare('DELETE FROM portfolios WHERE id = ?'),
+    getUserId: db.prepare('SELECT id FROM users WHERE email = ?'),
+    claimUnowned: db.prepare('UPDATE portfolios SET owner_id = ? WHERE owner_id IS NULL'),
+
+    listTransactions: db.prepare('SELECT * FROM transactions WHERE portfolio_id = ? ORDER BY date, created_at, id'),
+    getTransaction: db.prepare('SELECT * FROM transactions WHERE portfolio_id = ? AND id = ?'),
+    insertTransaction: db.prepare(`
+      INSERT INTO transactions (id, portfolio_id, date, amount, type, description, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)`),
+    deleteTransactions: db.prepare('DELETE FROM transactions WHERE portfolio_id = ?'),
+    updateTransaction: db.prepare(`
+      UPDATE transactions SET date = ?, amount = ?, type = ?, description = ?, updated_at = ?
+      WHERE portfolio_id = ? AND id = ?`),
+    deleteTransaction: db.prepare('DELETE FROM transactions WHERE portfolio_id = ? AND id = ?'),
+
+    getRecurringRules: db.prepare('SELECT recurring_rules FROM portfolios WHERE id = ?'),
+    updateRecurringRules: db.prepare('UPDATE portfolios SET recurring_rules = ? WHERE id = ?'),
+
+    listScenarios: db.prepare('SELECT * FROM scenarios WHERE portfolio_id = ? ORDER BY name COLLATE NOCASE, created_at'),
+    getScenario: db.prepare('SELECT * FROM scenarios WHERE portfolio_id = ? AND id = ?'),
+    insertScenario: db.prepare('INSERT INTO scenarios (id, portfolio_id, name, settings, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)'),
+    updateScenario: db.prepare('UPDATE scenarios SET name = ?, settings = ?, updated_at = ? WHERE portfolio_id = ? AND id = ?'),
+    deleteScenario: db.prepare('DELETE FROM scenarios WHERE portfolio_id = ? AND id = ?')
+  };
+
+  // name, description, account_type, base_currency and market_index, with their defaults
+  const portfolioColumns = (request: PortfolioRequest): [string, string | null, AccountType, CurrencyCode, string] => [
+    request.name.trim(),
+    request.description?.trim() || null,
+    request.accountType || 'taxable',
+    request.baseCurrency || 'USD',
+    request.marketIndex || DEFAULT_MARKET_INDEX
+  ];
+
+  const get = (id: string): PortfolioSummary | undefined => {
+    const row = statements.getPortfolio.get(id) as PortfolioRow | undefined;
+    return row && toPortfolio(row);
+  };
+  const getTransaction = (portfolioId: string, transactionId: string): PortfolioTransaction | undefined => {
+    const row = statements.getTransaction.get(portfolioId, transactionId) as TransactionRow | undefined;
+    return row && toTransaction(row);
+  };
+  const getScenario = (portfolioId: string, scenarioId: string): SavedScenario | undefined => {
+    const row = statements.getScenario.get(portfolioId, scenarioId) as ScenarioRow | undefined;
+    return row && toScenario(row);
+  };
+
+  // Runs a change to a portfolio's transactions or scenarios and, unless it reports nothing
+  // changed, marks the portfolio updated
+  const changePortfolio = <T>(portfolioId: string, change: (now: string) => T): T =>
+    db.transaction(() => {
+      const now = new Date().toISOString();
+      const result = change(now);
+      if (result) {
+        statements.touchPortfolio.run(now, portfolioId);
+      }
+      return result;
+    })();
+
+  return {
+    list: ownerId => (statements.listPortfolios.all(ownerId) as PortfolioRow[]).map(toPortfolio),
+    get,
+    isOwnedBy: (id, ownerId) => (statements.getOwner.get(id) as { owner_id: string | null } | undefined)?.owner_id === ownerId,
+    create: (ownerId, request) => {
+      const id = randomUUID();
+      const now = new Date().toISOString();
+      statements.insertPortfolio.run(id, ownerId, ...portfolioColumns(request), now, now);
+      return get(id) as PortfolioSummary;
+    },
+    update: (id, request) => {
+      const { changes } = statements.updatePortfolio.run(...portfolioColumns(request), new Date().toISOString(), id);
+      return changes > 0 ? get(id) : undefined;
+    },
+    remove: id => statements.deletePortfolio.run(id).changes > 0,
+    claimUnowned: ownerEmail => db.transaction(() => {
+      const owner = statements.getUserId.get(normalizeEmail(ownerEmail)) as { id: string } | undefined;
+      return owner ? statements.claimUnowned.run(owner.id).changes : undefined;
+    })(),
+
+    listTransactions: portfolioId => (statements.listTransactions.all(portfolioId) as TransactionRow[]).map(toTransaction),
+    getTransaction,
+    addTransactions: (portfolioId, requests) => {
+      const ids = changePortfolio(portfolioId, now => requests.map(request => {
+        const id = randomUUID();
+        statements.insertTransaction.run(
+          id, portfolioId, request.date, toCents(request.amount), request.type, request.description?.trim() || null, now, now
+        );
+        return id;
+      }));
+      return ids.map(id => getTransaction(portfolioId, id) as PortfolioTransaction);
+    },
+    updateTransaction: (portfolioId, transactionId, request) => {
+      const changes = changePortfolio(portfolioId, now => statements.updateTransaction.run(
+        request.date, toCents(request.amount), request.type, request.description?.trim() || null, now, portfolioId, transactionId
+      ).changes);
+      return changes > 0 ? getTransaction(portfolioId, transactionId) : undefined;
+    },
+    replaceTransactions: (portfolioId, requests) => {
+      changePortfolio(portfolioId, now => {
+        const current = new Map((statements.listTransactions.all(portfolioId) as TransactionRow[]).map(row => [row.id, row]));
+        statements.deleteTransactions.run(portfolioId);
+        requests.forEach(request => {
+          const kept = request.id !== undefined ? current.get(request.id) : undefined;
+          // Only the first entry naming an id keeps it
+          current.delete(request.id as string);
+          statements.insertTransaction.run(
+            kept ? kept.id : randomUUID(), portfolioId, request.date, toCents(request.amount), request.type,
+            request.description?.trim() || null, kept ? kept.created_at : now, now
+          );
+        });
+        return true;
+      });
+      return (statements.listTransactions.all(portfolioId) as TransactionRow[]).map(toTransaction);
+    },
+    removeTransaction: (portfolioId, transactionId) =>
+      changePortfolio(portfolioId, () => statements.deleteTransaction.run(portfolioId, transactionId).changes) > 0,
+
+    listRecurringRules: portfolioId => {
+      const row = statements.getRecurringRules.get(portfolioId) as { recurring_rules: string } | undefined;
+      return row ? JSON.parse(row.recurring_rules) : [];
+    },
+    replaceRecurringRules: (portfolioId, rules) => {
+      const stored = rules.map(toStoredRule);
+      changePortfolio(portfolioId, () => statements.updateRecurringRules.run(JSON.stringify(stored), portfolioId).changes);
+      return stored;
+    },
+
+    listScenarios: portfolioId => (statements.listScenarios.all(portfolioId) as ScenarioRow[]).map(toScenario),
+    getScenario,
+    createScenario: (portfolioId, request) => {
+      const id = randomUUID();
+      changePortfolio(portfolioId, now =>
+        statements.insertScenario.run(id, portfolioId, request.name.trim(), JSON.stringify(request.settings), now, now));
+      return getScenario(portfolioId, id) as SavedScenario;
+    },
+    updateScenario: (portfolioId, scenarioId, request) => {
+      const changes = changePortfolio(portfolioId, now => statements.updateScenario.run(
+        request.name.trim(), JSON.stringify(request.settings), now, portfolioId, scenarioId
+      ).changes);
+      return changes > 0 ? getScenario(portfolioId, scenarioId) : undefined;
+    },
+    removeScenario: (portfolioId, scenarioId) =>
+      changePortfolio(portfolioId, () => statements.deleteScenario.run(portfolioId, scenarioId).changes) > 0
+  };
+}
+
+// Runs after requireUser on routes under /api/portfolios/:id. Anyone but the owner is told the
+// portfolio doesn't exist, so ids can't be probed.
+export function requirePortfolioOwner(portfolios: PortfolioStore) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!portfolios.isOwnedBy(req.params.id, currentUser(res).id)) {
+      res.status(404).json({ error: `No portfolio '${req.params.id}'` });
+      return;
+    }
+    next();
+  };
+}
@@ -0,0 +1,45 @@
+// Seeded pseudo-random numbers so simulations can be reproduced exactly
+
+export interface SeededRandom {
+  seed: number;
+  // Uniform in [0, 1)
+  next(): number;
+  // Standard normal via Box-Muller
+  normal(): number;
+  // Integer in [0, max)
+  integer(max: number): number;
+}
+
+// mulberry32: small, fast and good enough for Monte Carlo paths
+export function createRandom(seed: number): SeededRandom {
+  let state = seed >>> 0;
+  let spareNormal: number | null = null;
+
+  const next = (): number => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const normal = (): number => {
+    if (spareNormal !== null) {
+      const value = spareNormal;
+      spareNormal = null;
+      return value;
+    }
+    const u = Math.max(next(), Number.MIN_VALUE);
+    const v = next();
+    const radius = Math.sqrt(-2 * Math.log(u));
+    spareNormal = radius * Math.sin(2 * Math.PI * v);
+    return radius * Math.cos(2 * Math.PI * v);
+  };
+
+  return {
+    seed: seed >>> 0,
+    next,
+    normal,
+    integer: (max: number) => Math.floor(next() * max)
+  };
+}
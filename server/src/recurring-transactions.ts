@@ -0,0 +1,124 @@
+// Recurring transaction rules: validation and expansion into dated transactions
+import { RecurringTransaction, RecurrenceFrequency, RecurringOccurrence } from './shared-types';
+import { addDays, monthIndex, shiftDate } from './trading-calendar';
+import { CURRENCIES, isValidCurrency } from './market-data';
+
+const DAYS_BETWEEN: { [frequency: string]: number } = {
+  weekly: 7,
+  biweekly: 14
+};
+const MONTHS_BETWEEN: { [frequency: string]: number } = {
+  monthly: 1,
+  quarterly: 3,
+  annual: 12
+};
+export const RECURRENCE_FREQUENCIES = [...Object.keys(DAYS_BETWEEN), ...Object.keys(MONTHS_BETWEEN)] as RecurrenceFrequency[];
+
+export const MAX_RECURRING_RULES = 100;
+// Occurrences expanded for one calculation, summed over every rule; a weekly rule over a century
+// is about 5,200 of them
+export const MAX_RECURRING_OCCURRENCES = 50000;
+
+// Returns an error message for a malformed list of rules, or null when they can be expanded.
+// With lastDate, also rejects rules that would expand into too many occurrences up to it.
+export function validateRecurringTransactions(rules: any, lastDate?: string): string | null {
+  if (!Array.isArray(rules)) {
+    return 'Recurring transactions must be a list of rules';
+  }
+  if (rules.length > MAX_RECURRING_RULES) {
+    return `At most ${MAX_RECURRING_RULES} recurring transactions are allowed`;
+  }
+
+  for (let i = 0; i < rules.length; i++) {
+    const rule = rules[i];
+    const label = `Recurring transaction ${i + 1}`;
+    if (!rule || typeof rule !== 'object') {
+      return `${label} must be an object`;
+    }
+    if (rule.type !== 'deposit' && rule.type !== 'withdrawal') {
+      return `${label} type must be 'deposit' or 'withdrawal'`;
+    }
+    if (typeof rule.amount !== 'number' || !isFinite(rule.amount) || rule.amount <= 0) {
+      return `${label} amount must be a positive number`;
+    }
+    if (!RECURRENCE_FREQUENCIES.includes(rule.frequency)) {
+      return `${label} frequency must be one of ${RECURRENCE_FREQUENCIES.join(', ')}`;
+    }
+    if (!rule.startDate || isNaN(Date.parse(rule.startDate))) {
+      return `${label} needs a valid startDate`;
+    }
+    if (rule.endDate !== undefined && (isNaN(Date.parse(rule.endDate)) || new Date(rule.endDate) < new Date(rule.startDate))) {
+      return `${label} endDate must be a valid date on or after its startDate`;
+    }
+    if (rule.annualStepUp !== undefined && (typeof rule.annualStepUp !== 'number' || !isFinite(rule.annualStepUp) || rule.annualStepUp <= -1)) {
+      return `${label} annualStepUp must be a decimal rate greater than -1`;
+    }
+    if (rule.currency !== undefined && !isValidCurrency(rule.currency)) {
+      return `${label} currency must be one of ${Object.keys(CURRENCIES).join(', ')}`;
+    }
+  }
+
+  if (lastDate !== undefined) {
+    const occurrences = rules.reduce((total: number, rule: RecurringTransaction) => total + countOccurrences(rule, lastDate), 0);
+    if (occurrences > MAX_RECURRING_OCCURRENCES) {
+      return `Recurring transactions expand into more than ${MAX_RECURRING_OCCURRENCES} occurrences: use fewer rules, a shorter period or a lower frequency`;
+    }
+  }
+
+  return null;
+}
+
+// Anniversaries of firstDate that have passed by date
+function completedYears(firstDate: string, date: string): number {
+  const years = Math.floor((monthIndex(date) - monthIndex(firstDate)) / 12);
+  return date < shiftDate(firstDate, years * 12) ? years - 1 : years;
+}
+
+// A rule's first date and the last date it can occur on: its own end date or lastDate, whichever
+// comes first
+function ruleDates(rule: RecurringTransaction, lastDate: string): { firstDate: string; until: string } {
+  const firstDate = new Date(rule.startDate).toISOString().split('T')[0];
+  const ruleEnd = rule.endDate ? new Date(rule.endDate).toISOString().split('T')[0] : lastDate;
+  return { firstDate, until: ruleEnd < lastDate ? ruleEnd : lastDate };
+}
+
+// How many occurrences expandRecurringTransactions would produce for a rule, without expanding it
+function countOccurrences(rule: RecurringTransaction, lastDate: string): number {
+  const { firstDate, until } = ruleDates(rule, lastDate);
+  if (until < firstDate) {
+    return 0;
+  }
+  if (rule.frequency in DAYS_BETWEEN) {
+    const days = (Date.parse(until) - Date.parse(firstDate)) / (24 * 60 * 60 * 1000);
+    return Math.floor(days / DAYS_BETWEEN[rule.frequency]) + 1;
+  }
+  const step = MONTHS_BETWEEN[rule.frequency];
+  const steps = Math.floor((monthIndex(until) - monthIndex(firstDate)) / step);
+  return shiftDate(firstDate, steps * step) > until ? steps : steps + 1;
+}
+
+// Every occurrence of every rule up to its own end date or lastDate, whichever comes first.
+// Dates are counted from each rule's start so month-end rules don't drift.
+export function expandRecurringTransactions(rules: RecurringTransaction[], lastDate: string): RecurringOccurrence[] {
+  const occurrences: RecurringOccurrence[] = [];
+  rules.forEach((rule, ruleIndex) => {
+    const { firstDate, until } = ruleDates(rule, lastDate);
+    const stepUp = rule.annualStepUp || 0;
+
+    for (let count = 0; ; count++) {
+      const date = rule.frequency in DAYS_BETWEEN
+        ? addDays(firstDate, count * DAYS_BETWEEN[rule.frequency])
+        : shiftDate(firstDate, count * MONTHS_BETWEEN[rule.frequency]);
+      if (date > until) {
+        break;
+      }
+      occurrences.push({
+        date,
+        amount: Math.round(rule.amount * Math.pow(1 + stepUp, completedYears(firstDate, date)) * 100) / 100,
+        type: rule.type,
+        rule: ruleIndex
+      });
+    }
+  });
+  return occurrences;
+}
@@ -0,0 +1,77 @@
+// User-defined return assumptions used when useHistoricalData is false
+import { ReturnAssumption } from './shared-types';
+
+function isValidRate(rate: any): boolean {
+  return typeof rate === 'number' && isFinite(rate) && rate > -1;
+}
+
+// Returns an error message for a malformed assumption, or null when it can be used
+export function validateReturnAssumption(assumption: any): string | null {
+  if (!assumption || typeof assumption !== 'object') {
+    return 'Return assumption must be an object';
+  }
+
+  const { annualRate, yearlyRates, schedule } = assumption;
+
+  if (annualRate === undefined && yearlyRates === undefined && schedule === undefined) {
+    return 'Return assumption needs an annualRate, yearlyRates or schedule';
+  }
+
+  if (annualRate !== undefined && !isValidRate(annualRate)) {
+    return 'annualRate must be a decimal rate greater than -1';
+  }
+
+  if (yearlyRates !== undefined) {
+    if (typeof yearlyRates !== 'object' || Array.isArray(yearlyRates)) {
+      return 'yearlyRates must map years to decimal rates';
+    }
+    const invalidYear = Object.keys(yearlyRates).find(year => !/^\d{4}$/.test(year) || !isValidRate(yearlyRates[year]));
+    if (invalidYear) {
+      return `Invalid yearlyRates entry for ${invalidYear}`;
+    }
+  }
+
+  if (schedule !== undefined) {
+    if (!Array.isArray(schedule) || schedule.length === 0) {
+      return 'schedule must be a non-empty list of segments';
+    }
+    for (let i = 0; i < schedule.length; i++) {
+      const segment = schedule[i];
+      if (!segment || !isValidRate(segment.rate)) {
+        return `schedule segment ${i + 1} needs a decimal rate greater than -1`;
+      }
+      const isLast = i === schedule.length - 1;
+      if (segment.throughYear === undefined && !isLast) {
+        return `schedule segment ${i + 1} needs a throughYear; only the last segment may be open-ended`;
+      }
+      if (segment.throughYear !== undefined) {
+        if (!Number.isInteger(segment.throughYear)) {
+          return `schedule segment ${i + 1} throughYear must be a year`;
+        }
+        if (i > 0 && schedule[i - 1].throughYear >= segment.throughYear) {
+          return 'schedule segments must be in increasing throughYear order';
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+// Annual rate for a year. Precedence: yearlyRates override, then the schedule segment covering
+// the year, then annualRate, then the supplied fallback (the index's long-run average).
+export function getAssumedAnnualReturn(assumption: ReturnAssumption, year: number, fallbackRate: number): number {
+  const override = assumption.yearlyRates?.[year];
+  if (override !== undefined) {
+    return override;
+  }
+
+  if (assumption.schedule) {
+    const segment = assumption.schedule.find(s => s.throughYear === undefined || year <= s.throughYear);
+    if (segment) {
+      return segment.rate;
+    }
+  }
+
+  return assumption.annualRate !== undefined ? assumption.annualRate : fallbackRate;
+}
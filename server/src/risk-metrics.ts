@@ -0,0 +1,142 @@
+// Risk statistics computed from the engine's monthly time-weighted return series
+import { RiskMetrics, DrawdownPoint, MaxDrawdown, BenchmarkComparison } from './shared-types';
+
+export const DEFAULT_RISK_FREE_RATE = 0.02;
+
+const MONTHS_PER_YEAR = 12;
+
+// One month of portfolio performance, net of cash flows
+export interface MonthlyPerformance {
+  date: string;
+  periodReturn: number;
+}
+
+function round(value: number, places: number): number {
+  const factor = Math.pow(10, places);
+  return Math.round(value * factor) / factor;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+// Sample standard deviation
+function standardDeviation(values: number[]): number {
+  if (values.length < 2) {
+    return 0;
+  }
+  const average = mean(values);
+  return Math.sqrt(values.reduce((sum, value) => sum + Math.pow(value - average, 2), 0) / (values.length - 1));
+}
+
+// Drawdowns are measured on a growth-of-$1 index so deposits and withdrawals do not mask losses
+function buildDrawdowns(startDate: string, months: MonthlyPerformance[]): { series: DrawdownPoint[]; max: MaxDrawdown | null } {
+  const wealth: number[] = [];
+  months.reduce((value, month) => {
+    const next = value * (1 + month.periodReturn);
+    wealth.push(next);
+    return next;
+  }, 1);
+
+  const series: DrawdownPoint[] = [];
+  let peak = 1;
+  let peakDate = startDate;
+  let maxDrawdown = 0;
+  let maxPeak = 1;
+  let maxPeakDate = startDate;
+  let troughIndex = -1;
+
+  wealth.forEach((value, i) => {
+    if (value >= peak) {
+      peak = value;
+      peakDate = months[i].date;
+    }
+    const drawdown = value / peak - 1;
+    series.push({ date: months[i].date, drawdown: round(drawdown * 100, 2) });
+
+    if (drawdown < maxDrawdown) {
+      maxDrawdown = drawdown;
+      maxPeak = peak;
+      maxPeakDate = peakDate;
+      troughIndex = i;
+    }
+  });
+
+  if (troughIndex === -1) {
+    return { series, max: null };
+  }
+
+  // Recovery is the first month after the trough back at or above the old peak
+  const recoveryIndex = wealth.findIndex((value, i) => i > troughIndex && value >= maxPeak);
+
+  return {
+    series,
+    max: {
+      drawdown: round(maxDrawdown * 100, 2),
+      peakDate: maxPeakDate,
+      troughDate: months[troughIndex].date,
+      recoveryDate: recoveryIndex === -1 ? null : months[recoveryIndex].date
+    }
+  };
+}
+
+export function calculateRiskMetrics(
+  startDate: string,
+  months: MonthlyPerformance[],
+  riskFreeRate: number = DEFAULT_RISK_FREE_RATE
+): RiskMetrics {
+  const returns = months.map(month => month.periodReturn);
+  const monthlyRiskFree = Math.pow(1 + riskFreeRate, 1 / MONTHS_PER_YEAR) - 1;
+  const excessReturns = returns.map(r => r - monthlyRiskFree);
+
+  const volatility = standardDeviation(returns) * Math.sqrt(MONTHS_PER_YEAR);
+  const annualExcessReturn = returns.length > 0 ? mean(excessReturns) * MONTHS_PER_YEAR : 0;
+  const downsideDeviation = returns.length > 0
+    ? Math.sqrt(mean(excessReturns.map(r => Math.pow(Math.min(0, r), 2)))) * Math.sqrt(MONTHS_PER_YEAR)
+    : 0;
+
+  const { series, max } = buildDrawdowns(startDate, months);
+
+  return {
+    riskFreeRate,
+    annualizedVolatility: round(volatility * 100, 2),
+    sharpeRatio: volatility > 0 ? round(annualExcessReturn / volatility, 2) : null,
+    sortinoRatio: downsideDeviation > 0 ? round(annualExcessReturn / downsideDeviation, 2) : null,
+    maxDrawdown: max,
+    drawdownSeries: series
+  };
+}
+
+// Compounded return over the months, annualized once they cover at least a year
+function annualizedReturn(returns: number[]): number {
+  const growth = returns.reduce((value, r) => value * (1 + r), 1);
+  return returns.length < MONTHS_PER_YEAR || growth <= 0 ? growth - 1 : Math.pow(growth, MONTHS_PER_YEAR / returns.length) - 1;
+}
+
+// Active return is the portfolio's monthly return less the benchmark's for the same month.
+// Tracking error is its annualized volatility, and the information ratio divides the mean
+// annualized active return by it.
+export function calculateBenchmarkComparison(
+  benchmark: string,
+  name: string,
+  months: MonthlyPerformance[],
+  benchmarkReturns: number[]
+): BenchmarkComparison {
+  const returns = months.map(month => month.periodReturn);
+  const activeReturns = returns.map((r, i) => r - benchmarkReturns[i]);
+  const portfolioReturn = annualizedReturn(returns);
+  const benchmarkReturn = annualizedReturn(benchmarkReturns);
+  const trackingError = standardDeviation(activeReturns) * Math.sqrt(MONTHS_PER_YEAR);
+  const annualActiveReturn = activeReturns.length > 0 ? mean(activeReturns) * MONTHS_PER_YEAR : 0;
+
+  return {
+    benchmark,
+    name,
+    months: returns.length,
+    portfolioReturn: round(portfolioReturn * 100, 2),
+    benchmarkReturn: round(benchmarkReturn * 100, 2),
+    excessReturn: round((portfolioReturn - benchmarkReturn) * 100, 2),
+    trackingError: round(trackingError * 100, 2),
+    informationRatio: trackingError > 0 ? round(annualActiveReturn / trackingError, 2) : null
+  };
+}
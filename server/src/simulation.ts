@@ -0,0 +1,198 @@
+// Monte Carlo projections with parametric (normal/lognormal) and block-bootstrap return models
+import {
+  SimulationRequest,
+  SimulationResult,
+  SimulationModel,
+  SimulationPercentilePoint,
+  ContributionFrequency
+} from './shared-types';
+import {
+  MARKET_DATA_VERSION,
+  DEFAULT_MARKET_INDEX,
+  isValidMarketIndex,
+  getMonthlyReturnSeries
+} from './market-data';
+import { createRandom } from './random';
+import { percentileValues } from './percentiles';
+import { toDateString } from './trading-calendar';
+
+export const DEFAULT_SIMULATION_PATHS = 1000;
+export const MAX_SIMULATION_PATHS = 10000;
+export const MAX_SIMULATION_YEARS = 100;
+export const DEFAULT_BLOCK_SIZE = 12;
+
+const SIMULATION_MODELS: SimulationModel[] = ['normal', 'lognormal', 'bootstrap'];
+export const MONTHS_BETWEEN_CONTRIBUTIONS: { [frequency in ContributionFrequency]: number } = {
+  monthly: 1,
+  quarterly: 3,
+  annual: 12
+};
+
+function isFiniteNumber(value: any): value is number {
+  return typeof value === 'number' && isFinite(value);
+}
+
+// Returns an error message for an unusable request, or null when it can be simulated
+export function validateSimulationRequest(request: any): string | null {
+  if (!request || typeof request !== 'object') {
+    return 'Simulation request body is required';
+  }
+
+  const { currentValue, contributionPlan, horizonYears, marketIndex, mean, volatility, model, blockSize, paths, seed, targetValue, startDate } = request;
+
+  if (!isFiniteNumber(currentValue) || currentValue < 0) {
+    return 'currentValue must be a non-negative number';
+  }
+  if (!isFiniteNumber(horizonYears) || horizonYears <= 0 || horizonYears > MAX_SIMULATION_YEARS) {
+    return `horizonYears must be between 0 and ${MAX_SIMULATION_YEARS}`;
+  }
+  if (startDate !== undefined && isNaN(Date.parse(startDate))) {
+    return 'startDate must be a valid date';
+  }
+  if (marketIndex !== undefined && !isValidMarketIndex(marketIndex)) {
+    return 'Invalid market index';
+  }
+  if (model !== undefined && !SIMULATION_MODELS.includes(model)) {
+    return `model must be one of ${SIMULATION_MODELS.join(', ')}`;
+  }
+  if (mean !== undefined && (!isFiniteNumber(mean) || mean <= -1)) {
+    return 'mean must be a decimal annual return greater than -1';
+  }
+  if (volatility !== undefined && (!isFiniteNumber(volatility) || volatility < 0)) {
+    return 'volatility must be a non-negative decimal';
+  }
+  if (model === 'bootstrap' && (mean !== undefined || volatility !== undefined)) {
+    return 'mean and volatility apply to the normal and lognormal models only';
+  }
+  if (blockSize !== undefined && (!Number.isInteger(blockSize) || blockSize < 1)) {
+    return 'blockSize must be a positive whole number of months';
+  }
+  if (paths !== undefined && (!Number.isInteger(paths) || paths < 1 || paths > MAX_SIMULATION_PATHS)) {
+    return `paths must be a whole number between 1 and ${MAX_SIMULATION_PATHS}`;
+  }
+  if (seed !== undefined && !Number.isInteger(seed)) {
+    return 'seed must be an integer';
+  }
+  if (targetValue !== undefined && (!isFiniteNumber(targetValue) || targetValue <= 0)) {
+    return 'targetValue must be a positive number';
+  }
+  if (contributionPlan !== undefined) {
+    if (!contributionPlan || !isFiniteNumber(contributionPlan.amount) || contributionPlan.amount < 0) {
+      return 'contributionPlan.amount must be a non-negative number';
+    }
+    if (contributionPlan.frequency !== undefined && !(contributionPlan.frequency in MONTHS_BETWEEN_CONTRIBUTIONS)) {
+      return 'contributionPlan.frequency must be monthly, quarterly or annual';
+    }
+    if (contributionPlan.type !== undefined && contributionPlan.type !== 'deposit' && contributionPlan.type !== 'withdrawal') {
+      return "contributionPlan.type must be 'deposit' or 'withdrawal'";
+    }
+  }
+
+  return null;
+}
+
+// Annualized arithmetic mean and volatility of an index's monthly history
+export function getHistoricalMoments(index: string): { mean: number; volatility: number } {
+  const returns = getMonthlyReturnSeries(index).map(point => point.return);
+  const monthlyMean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const monthlyVariance = returns.reduce((sum, r) => sum + Math.pow(r - monthlyMean, 2), 0) / (returns.length - 1);
+  return {
+    mean: Math.pow(1 + monthlyMean, 12) - 1,
+    volatility: Math.sqrt(monthlyVariance * 12)
+  };
+}
+
+export function runSimulation(request: SimulationRequest): SimulationResult {
+  const marketIndex = request.marketIndex || DEFAULT_MARKET_INDEX;
+  const model: SimulationModel = request.model || 'lognormal';
+  const pathCount = request.paths || DEFAULT_SIMULATION_PATHS;
+  const horizonMonths = Math.round(request.horizonYears * 12);
+  const blockSize = request.blockSize || DEFAULT_BLOCK_SIZE;
+  // Unseeded runs still report the seed they used so they can be replayed
+  const random = createRandom(request.seed !== undefined ? request.seed : Math.floor(Math.random() * 2 ** 32));
+
+  const historical = getHistoricalMoments(marketIndex);
+  const mean = request.mean !== undefined ? request.mean : historical.mean;
+  const volatility = request.volatility !== undefined ? request.volatility : historical.volatility;
+
+  const monthlyVolatility = volatility / Math.sqrt(12);
+  const normalMonthlyMean = Math.pow(1 + mean, 1 / 12) - 1;
+  // Drift chosen so the expected monthly growth factor still compounds to the annual mean
+  const logMonthlyMean = Math.log(1 + mean) / 12 - (monthlyVolatility * monthlyVolatility) / 2;
+
+  const history = getMonthlyReturnSeries(marketIndex).map(point => point.return);
+  const blockCursor = new Int32Array(pathCount);
+  const blockRemaining = new Int32Array(pathCount);
+
+  const drawMonthlyReturn = (path: number): number => {
+    if (model === 'normal') {
+      return Math.max(-1, normalMonthlyMean + monthlyVolatility * random.normal());
+    }
+    if (model === 'lognormal') {
+      return Math.exp(logMonthlyMean + monthlyVolatility * random.normal()) - 1;
+    }
+    // Circular block bootstrap keeps the autocorrelation and crash clustering of real history
+    if (blockRemaining[path] === 0) {
+      blockCursor[path] = random.integer(history.length);
+      blockRemaining[path] = blockSize;
+    }
+    const value = history[blockCursor[path] % history.length];
+    blockCursor[path]++;
+    blockRemaining[path]--;
+    return value;
+  };
+
+  const plan = request.contributionPlan;
+  const contributionStep = MONTHS_BETWEEN_CONTRIBUTIONS[plan?.frequency || 'monthly'];
+  const contributionAmount = plan ? (plan.type === 'withdrawal' ? -plan.amount : plan.amount) : 0;
+
+  const start = request.startDate ? new Date(request.startDate) : new Date();
+  const startYear = start.getFullYear();
+  const startMonth = start.getMonth();
+
+  const values = new Float64Array(pathCount).fill(request.currentValue);
+  const percentiles: SimulationPercentilePoint[] = [];
+  let plannedNetContributions = 0;
+
+  for (let month = 0; month < horizonMonths; month++) {
+    // Contributions land at the start of the month, before that month's return, as in the calculator
+    const contribution = contributionAmount !== 0 && month % contributionStep === 0 ? contributionAmount : 0;
+    plannedNetContributions += contribution;
+
+    for (let path = 0; path < pathCount; path++) {
+      const funded = Math.max(0, values[path] + contribution);
+      values[path] = funded * (1 + drawMonthlyReturn(path));
+    }
+
+    const labelMonth = startMonth + month;
+    percentiles.push({
+      month: month + 1,
+      date: toDateString(startYear + Math.floor(labelMonth / 12), (labelMonth % 12) + 1, 1),
+      ...percentileValues(values)
+    });
+  }
+
+  const result: SimulationResult = {
+    model,
+    marketIndex,
+    paths: pathCount,
+    seed: random.seed,
+    horizonMonths,
+    mean,
+    volatility,
+    ...(model === 'bootstrap' && { blockSize }),
+    plannedNetContributions: Math.round(plannedNetContributions * 100) / 100,
+    percentiles,
+    finalValue: percentileValues(values),
+    dataVersion: MARKET_DATA_VERSION
+  };
+
+  if (request.targetValue !== undefined) {
+    const target = request.targetValue;
+    const reached = values.reduce((count, value) => count + (value >= target ? 1 : 0), 0);
+    result.targetValue = target;
+    result.probabilityOfReachingTarget = Math.round((reached / pathCount) * 10000) / 100;
+  }
+
+  return result;
+}
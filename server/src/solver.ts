@@ -0,0 +1,236 @@
+// Goal seeking: finds the contribution, constant return or date that reaches a target value
+import {
+  SolveFor,
+  SolveRequest,
+  SolveResult,
+  ContributionPlan,
+  RecurringTransaction
+} from './shared-types';
+import { MARKET_DATA_VERSION, MARKET_INDICES, CURRENCIES, DEFAULT_MARKET_INDEX, isValidMarketIndex, isValidCurrency } from './market-data';
+import { calculateCompoundInterestWithDates, CalculationOptions } from './compound-engine';
+import { validateReturnAssumption } from './return-assumptions';
+import { validateFeeSchedule } from './fees';
+import { MONTHS_BETWEEN_CONTRIBUTIONS, MAX_SIMULATION_YEARS } from './simulation';
+import { daysInMonth, shiftDate, toDateString } from './trading-calendar';
+import { validateRecurringTransactions, expandRecurringTransactions } from './recurring-transactions';
+import { toReportingCurrency } from './calculation-request';
+
+export const MAX_SOLVER_ITERATIONS = 100;
+// Searches give up beyond these, reporting the target as unreachable
+export const MAX_SOLVED_CONTRIBUTION = 1e9;
+export const MAX_SOLVED_RETURN = 10;
+
+const SOLVE_FOR: SolveFor[] = ['contribution', 'annualReturn', 'targetDate'];
+const MIN_SOLVED_RETURN = -0.99;
+const CONTRIBUTION_TOLERANCE = 0.005;
+const RETURN_TOLERANCE = 0.000001;
+
+function isFiniteNumber(value: any): value is number {
+  return typeof value === 'number' && isFinite(value);
+}
+
+// Returns an error message for an unusable request, or null when it can be solved
+export function validateSolveRequest(request: any): string | null {
+  if (!request || typeof request !== 'object') {
+    return 'Solve request body is required';
+  }
+
+  const {
+    solveFor,
+    targetValue,
+    initialAmount,
+    transactions,
+    recurringTransactions,
+    contributionPlan,
+    startDate,
+    contributionStartDate,
+    endDate,
+    marketIndex,
+    returnAssumption,
+    fees,
+    reportingCurrency
+  } = request;
+
+  if (!SOLVE_FOR.includes(solveFor)) {
+    return `solveFor must be one of ${SOLVE_FOR.join(', ')}`;
+  }
+  if (!isFiniteNumber(targetValue) || targetValue <= 0) {
+    return 'targetValue must be a positive number';
+  }
+  if (initialAmount !== undefined && (!isFiniteNumber(initialAmount) || initialAmount < 0)) {
+    return 'initialAmount must be a non-negative number';
+  }
+  if (!startDate || isNaN(Date.parse(startDate))) {
+    return 'A valid start date is required';
+  }
+  if (contributionStartDate !== undefined && (isNaN(Date.parse(contributionStartDate)) || new Date(contributionStartDate) < new Date(startDate))) {
+    return 'contributionStartDate must be a valid date on or after the start date';
+  }
+  if (solveFor !== 'targetDate') {
+    if (!endDate || isNaN(Date.parse(endDate))) {
+      return 'A valid end date is required';
+    }
+    if (new Date(endDate) <= new Date(startDate)) {
+      return 'End date must be after start date';
+    }
+  }
+  if (marketIndex !== undefined && !isValidMarketIndex(marketIndex)) {
+    return 'Invalid market index';
+  }
+  if (reportingCurrency !== undefined && !isValidCurrency(reportingCurrency)) {
+    return `Reporting currency must be one of ${Object.keys(CURRENCIES).join(', ')}`;
+  }
+  if (Array.isArray(transactions) && transactions.some((t: any) => t && t.currency !== undefined && !isValidCurrency(t.currency))) {
+    return `Transaction currency must be one of ${Object.keys(CURRENCIES).join(', ')}`;
+  }
+
+  if (contributionPlan !== undefined) {
+    if (!contributionPlan || typeof contributionPlan !== 'object') {
+      return 'contributionPlan must be an object';
+    }
+    // The amount is what gets solved for, so it may be left out
+    if (solveFor !== 'contribution' && (!isFiniteNumber(contributionPlan.amount) || contributionPlan.amount < 0)) {
+      return 'contributionPlan.amount must be a non-negative number';
+    }
+    if (contributionPlan.frequency !== undefined && !(contributionPlan.frequency in MONTHS_BETWEEN_CONTRIBUTIONS)) {
+      return 'contributionPlan.frequency must be monthly, quarterly or annual';
+    }
+    if (contributionPlan.type !== undefined && contributionPlan.type !== 'deposit' && contributionPlan.type !== 'withdrawal') {
+      return "contributionPlan.type must be 'deposit' or 'withdrawal'";
+    }
+  }
+  if (solveFor === 'contribution' && contributionPlan?.type === 'withdrawal') {
+    return 'Solving for the contribution needs a deposit plan';
+  }
+
+  if (recurringTransactions !== undefined) {
+    // A target date is searched for up to the simulation horizon, so rules are expanded that far
+    const lastDate = solveFor === 'targetDate'
+      ? shiftDate(new Date(startDate).toISOString().split('T')[0], MAX_SIMULATION_YEARS * 12)
+      : new Date(endDate).toISOString().split('T')[0];
+    const recurringError = validateRecurringTransactions(recurringTransactions, lastDate);
+    if (recurringError) {
+      return recurringError;
+    }
+  }
+  if (returnAssumption !== undefined) {
+    const assumptionError = validateReturnAssumption(returnAssumption);
+    if (assumptionError) {
+      return assumptionError;
+    }
+  }
+  if (fees !== undefined) {
+    const feeError = validateFeeSchedule(fees);
+    if (feeError) {
+      return feeError;
+    }
+  }
+
+  return null;
+}
+
+// Smallest input at or above `low` whose run reaches the target, for a monotonic `reaches` that is
+// false at `low`. The guess doubles until it reaches, then bisection closes the bracket; returns
+// `limit` when even that falls short.
+function searchUpwards(low: number, guess: number, limit: number, tolerance: number, reaches: (input: number) => boolean): number {
+  let high = guess;
+  while (!reaches(high)) {
+    if (high >= limit) {
+      return limit;
+    }
+    low = high;
+    high = Math.min(high * 2, limit);
+  }
+
+  for (let iteration = 0; high - low > tolerance && iteration < MAX_SOLVER_ITERATIONS; iteration++) {
+    const mid = (low + high) / 2;
+    if (reaches(mid)) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+  return high;
+}
+
+export function solve(request: SolveRequest): SolveResult {
+  const marketIndex = request.marketIndex || DEFAULT_MARKET_INDEX;
+  const reportingCurrency = request.reportingCurrency || MARKET_INDICES[marketIndex].currency;
+  const principal = request.initialAmount || 0;
+  const transactions = toReportingCurrency(request.transactions || [], reportingCurrency);
+  const plan: ContributionPlan = request.contributionPlan || { amount: 0 };
+  const target = request.targetValue;
+  const startDate = new Date(request.startDate).toISOString().split('T')[0];
+  const contributionStartDate = request.contributionStartDate
+    ? new Date(request.contributionStartDate).toISOString().split('T')[0]
+    : startDate;
+  const endDate = request.solveFor === 'targetDate'
+    ? shiftDate(startDate, MAX_SIMULATION_YEARS * 12)
+    : new Date(request.endDate as string).toISOString().split('T')[0];
+
+  // The contribution plan as a recurring rule starting on contributionStartDate
+  const contributionRule = (amount: number): RecurringTransaction => ({
+    type: plan.type || 'deposit',
+    amount,
+    frequency: plan.frequency || 'monthly',
+    startDate: contributionStartDate
+  });
+
+  const recurring = request.recurringTransactions || [];
+  let runs = 0;
+  const run = (contribution: number, options: CalculationOptions, useHistoricalData: boolean) => {
+    runs++;
+    return calculateCompoundInterestWithDates(principal, [...transactions], startDate, endDate, useHistoricalData, marketIndex, {
+      fees: request.fees,
+      reportingCurrency,
+      recurringTransactions: [...recurring, ...(contribution > 0 ? [contributionRule(contribution)] : [])],
+      ...options
+    });
+  };
+  const useHistoricalData = request.useHistoricalData !== false;
+  const assumed = { returnAssumption: request.returnAssumption };
+  const finalValueWith = (contribution: number) => run(contribution, assumed, useHistoricalData).summary.finalAmount;
+  const finalValueAt = (annualRate: number) => run(plan.amount, { returnAssumption: { annualRate } }, false).summary.finalAmount;
+
+  const result: SolveResult = {
+    solveFor: request.solveFor,
+    targetValue: target,
+    reachable: true,
+    achievedValue: 0,
+    iterations: 0,
+    marketIndex,
+    reportingCurrency,
+    dataVersion: MARKET_DATA_VERSION
+  };
+
+  if (request.solveFor === 'contribution') {
+    result.contributionFrequency = plan.frequency || 'monthly';
+    const contributionCount = expandRecurringTransactions([contributionRule(1)], endDate).length;
+    const reaches = (amount: number) => finalValueWith(amount) >= target;
+    const solved = reaches(0)
+      ? 0
+      : searchUpwards(0, Math.max(1, target / Math.max(1, contributionCount)), MAX_SOLVED_CONTRIBUTION, CONTRIBUTION_TOLERANCE, reaches);
+    // Rounded up to the cent so the solved amount still reaches the target
+    result.contributionAmount = Math.ceil(solved * 100) / 100;
+    result.achievedValue = finalValueWith(result.contributionAmount);
+    result.reachable = result.achievedValue >= target;
+  } else if (request.solveFor === 'annualReturn') {
+    const reaches = (annualRate: number) => finalValueAt(annualRate) >= target;
+    const solved = reaches(MIN_SOLVED_RETURN)
+      ? MIN_SOLVED_RETURN
+      : searchUpwards(MIN_SOLVED_RETURN, 0.1, MAX_SOLVED_RETURN, RETURN_TOLERANCE, reaches);
+    result.annualReturn = Math.round(solved * 10000) / 100;
+    result.achievedValue = finalValueAt(solved);
+    result.reachable = result.achievedValue >= target;
+  } else {
+    // A single run far into the future; past the end of the history it grows at the assumed rate
+    const { monthlyData, summary } = run(plan.amount, assumed, useHistoricalData);
+    const reached = monthlyData.find(point => point.amount >= target);
+    result.targetDate = reached ? toDateString(reached.year, reached.monthOfYear, daysInMonth(reached.year, reached.monthOfYear)) : null;
+    result.achievedValue = reached ? reached.amount : summary.finalAmount;
+    result.reachable = !!reached;
+  }
+
+  result.iterations = runs;
+  return result;
+}
@@ -0,0 +1,151 @@
+// Capital-gains tax ledger: average-cost basis with dated lots for the short/long-term split
+import { TaxProfile } from './shared-types';
+
+interface BasisLot {
+  date: string;
+  basis: number;
+}
+
+export interface YearTaxes {
+  realizedGains: number;
+  capitalGainsTax: number;
+  dividendTax: number;
+}
+
+export interface TaxLedger {
+  addBasis(date: string, amount: number): void;
+  // Sells `amount` out of a portfolio worth `portfolioValue` and records the realized gain;
+  // selling costs reduce the proceeds
+  realize(date: string, amount: number, portfolioValue: number, costs?: number): void;
+  addDividendTax(amount: number): void;
+  // Nets the year's gains and losses, carries any net loss forward and returns the year's taxes
+  settleYear(): YearTaxes;
+  // Tax that would be due if the whole portfolio were sold on `date`
+  liquidationTax(date: string, portfolioValue: number): number;
+  totalBasis(): number;
+}
+
+function isValidRate(rate: any): boolean {
+  return typeof rate === 'number' && isFinite(rate) && rate >= 0 && rate < 1;
+}
+
+// Returns an error message for a malformed tax profile, or null when it can be used
+export function validateTaxProfile(profile: any): string | null {
+  if (!profile || typeof profile !== 'object' || Array.isArray(profile)) {
+    return 'Tax profile must be an object';
+  }
+  const rates = ['shortTermRate', 'longTermRate', 'ordinaryIncomeRate', 'dividendTaxDrag'];
+  const invalid = rates.find(rate => profile[rate] !== undefined && !isValidRate(profile[rate]));
+  if (invalid) {
+    return `${invalid} must be a decimal between 0 and 1`;
+  }
+  return null;
+}
+
+// Gains are long-term once held for more than a year
+function isLongTerm(lotDate: string, saleDate: string): boolean {
+  const oneYearBefore = `${parseInt(saleDate.slice(0, 4)) - 1}${saleDate.slice(4, 10)}`;
+  return lotDate.slice(0, 10) < oneYearBefore;
+}
+
+// Losses in one bucket offset gains in the other, then carried-forward losses offset what is left
+function netGains(shortTerm: number, longTerm: number, carriedLoss: number) {
+  let st = shortTerm;
+  let lt = longTerm;
+  if (st < 0 && lt > 0) {
+    const offset = Math.min(-st, lt);
+    st += offset;
+    lt -= offset;
+  }
+  if (lt < 0 && st > 0) {
+    const offset = Math.min(-lt, st);
+    lt += offset;
+    st -= offset;
+  }
+
+  let carry = carriedLoss;
+  const shortOffset = Math.min(carry, Math.max(0, st));
+  st -= shortOffset;
+  carry -= shortOffset;
+  const longOffset = Math.min(carry, Math.max(0, lt));
+  lt -= longOffset;
+  carry -= longOffset;
+  carry += Math.max(0, -st) + Math.max(0, -lt);
+
+  return { shortTerm: Math.max(0, st), longTerm: Math.max(0, lt), carriedLoss: carry };
+}
+
+export function createTaxLedger(profile: TaxProfile): TaxLedger {
+  // Short-term gains are taxed as ordinary income unless a separate rate is given
+  const shortTermRate = profile.shortTermRate ?? profile.ordinaryIncomeRate ?? 0;
+  const longTermRate = profile.longTermRate ?? 0;
+
+  const lots: BasisLot[] = [];
+  let yearShortTerm = 0;
+  let yearLongTerm = 0;
+  let yearDividendTax = 0;
+  let carriedLoss = 0;
+
+  const totalBasis = () => lots.reduce((sum, lot) => sum + lot.basis, 0);
+
+  // Average cost: every lot gives up the same fraction of its basis, and the gain is split
+  // between short and long term in proportion to the basis sold from each
+  const splitGain = (date: string, proceeds: number, fraction: number) => {
+    const basisSold = totalBasis() * fraction;
+    const longTermBasis = lots
+      .filter(lot => isLongTerm(lot.date, date))
+      .reduce((sum, lot) => sum + lot.basis * fraction, 0);
+    const gain = proceeds - basisSold;
+    const longTermShare = basisSold > 0 ? longTermBasis / basisSold : 1;
+    return { shortTerm: gain * (1 - longTermShare), longTerm: gain * longTermShare };
+  };
+
+  return {
+    addBasis(date: string, amount: number) {
+      if (amount > 0) {
+        lots.push({ date, basis: amount });
+      }
+    },
+
+    realize(date: string, amount: number, portfolioValue: number, costs: number = 0) {
+      if (amount <= 0 || portfolioValue <= 0) {
+        return;
+      }
+      const fraction = Math.min(1, amount / portfolioValue);
+      const { shortTerm, longTerm } = splitGain(date, amount - costs, fraction);
+      yearShortTerm += shortTerm;
+      yearLongTerm += longTerm;
+      lots.forEach(lot => { lot.basis *= (1 - fraction); });
+    },
+
+    addDividendTax(amount: number) {
+      yearDividendTax += amount;
+    },
+
+    settleYear(): YearTaxes {
+      const realizedGains = yearShortTerm + yearLongTerm;
+      const netted = netGains(yearShortTerm, yearLongTerm, carriedLoss);
+      const taxes = {
+        realizedGains,
+        capitalGainsTax: netted.shortTerm * shortTermRate + netted.longTerm * longTermRate,
+        dividendTax: yearDividendTax
+      };
+      carriedLoss = netted.carriedLoss;
+      yearShortTerm = 0;
+      yearLongTerm = 0;
+      yearDividendTax = 0;
+      return taxes;
+    },
+
+    liquidationTax(date: string, portfolioValue: number): number {
+      if (portfolioValue <= 0) {
+        return 0;
+      }
+      const { shortTerm, longTerm } = splitGain(date, portfolioValue, 1);
+      const netted = netGains(yearShortTerm + shortTerm, yearLongTerm + longTerm, carriedLoss);
+      return netted.shortTerm * shortTermRate + netted.longTerm * longTermRate;
+    },
+
+    totalBasis
+  };
+}
@@ -0,0 +1,127 @@
+// US equity trading calendar used by the daily calculation engine.
+// Models weekends and the regular NYSE full-day holidays; one-off closures are not modeled.
+
+export function toDateString(year: number, monthOfYear: number, day: number): string {
+  return `${year}-${monthOfYear.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`;
+}
+
+export function daysInMonth(year: number, monthOfYear: number): number {
+  return new Date(Date.UTC(year, monthOfYear, 0)).getUTCDate();
+}
+
+// Months since year 0, so month arithmetic is plain integer arithmetic
+export function monthIndex(date: string): number {
+  return parseInt(date.slice(0, 4)) * 12 + parseInt(date.slice(5, 7)) - 1;
+}
+
+// Moves a YYYY-MM-DD date by whole months, clamping the day to the target month's length
+export function shiftDate(date: string, months: number): string {
+  const target = monthIndex(date) + months;
+  const year = Math.floor(target / 12);
+  const monthOfYear = (target % 12) + 1;
+  const day = Math.min(parseInt(date.slice(8, 10)) || 1, daysInMonth(year, monthOfYear));
+  return toDateString(year, monthOfYear, day);
+}
+
+export function addDays(date: string, days: number): string {
+  const shifted = new Date(Date.UTC(parseInt(date.slice(0, 4)), parseInt(date.slice(5, 7)) - 1, parseInt(date.slice(8, 10)) + days));
+  return toDateString(shifted.getUTCFullYear(), shifted.getUTCMonth() + 1, shifted.getUTCDate());
+}
+
+function weekday(year: number, monthOfYear: number, day: number): number {
+  return new Date(Date.UTC(year, monthOfYear - 1, day)).getUTCDay();
+}
+
+// Day of month for the nth given weekday (0 = Sunday); n = -1 picks the last one
+function nthWeekday(year: number, monthOfYear: number, dayOfWeek: number, n: number): number {
+  if (n > 0) {
+    const first = weekday(year, monthOfYear, 1);
+    return 1 + ((dayOfWeek - first + 7) % 7) + (n - 1) * 7;
+  }
+  const lastDay = daysInMonth(year, monthOfYear);
+  const last = weekday(year, monthOfYear, lastDay);
+  return lastDay - ((last - dayOfWeek + 7) % 7);
+}
+
+// Anonymous Gregorian algorithm
+function easterSunday(year: number): { monthOfYear: number; day: number } {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const monthOfYear = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return { monthOfYear, day };
+}
+
+// Fixed-date holidays move to Friday when on a Saturday and to Monday when on a Sunday
+function observed(year: number, monthOfYear: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, monthOfYear - 1, day));
+  const dayOfWeek = date.getUTCDay();
+  if (dayOfWeek === 6) {
+    // NYSE does not close on Dec 31 for a Saturday New Year's Day
+    if (monthOfYear === 1 && day === 1) {
+      return null;
+    }
+    date.setUTCDate(date.getUTCDate() - 1);
+  } else if (dayOfWeek === 0) {
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+  return date.toISOString().split('T')[0];
+}
+
+const holidayCache = new Map<number, Set<string>>();
+
+export function getMarketHolidays(year: number): Set<string> {
+  const cached = holidayCache.get(year);
+  if (cached) {
+    return cached;
+  }
+
+  const easter = easterSunday(year);
+  const goodFriday = new Date(Date.UTC(year, easter.monthOfYear - 1, easter.day - 2));
+
+  const holidays = [
+    observed(year, 1, 1),
+    year >= 1998 ? toDateString(year, 1, nthWeekday(year, 1, 1, 3)) : null, // Martin Luther King Jr. Day
+    toDateString(year, 2, nthWeekday(year, 2, 1, 3)), // Presidents' Day
+    goodFriday.toISOString().split('T')[0],
+    toDateString(year, 5, nthWeekday(year, 5, 1, -1)), // Memorial Day
+    year >= 2022 ? observed(year, 6, 19) : null, // Juneteenth
+    observed(year, 7, 4),
+    toDateString(year, 9, nthWeekday(year, 9, 1, 1)), // Labor Day
+    toDateString(year, 11, nthWeekday(year, 11, 4, 4)), // Thanksgiving
+    observed(year, 12, 25)
+  ].filter((date): date is string => date !== null);
+
+  const result = new Set(holidays);
+  holidayCache.set(year, result);
+  return result;
+}
+
+export function isTradingDay(year: number, monthOfYear: number, day: number): boolean {
+  const dayOfWeek = weekday(year, monthOfYear, day);
+  if (dayOfWeek === 0 || dayOfWeek === 6) {
+    return false;
+  }
+  return !getMarketHolidays(year).has(toDateString(year, monthOfYear, day));
+}
+
+// All trading days in a month as YYYY-MM-DD strings
+export function getTradingDays(year: number, monthOfYear: number): string[] {
+  const days: string[] = [];
+  for (let day = 1; day <= daysInMonth(year, monthOfYear); day++) {
+    if (isTradingDay(year, monthOfYear, day)) {
+      days.push(toDateString(year, monthOfYear, day));
+    }
+  }
+  return days;
+}
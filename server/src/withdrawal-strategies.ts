@@ -0,0 +1,118 @@
+// Retirement withdrawal strategies: how much to take out in each year of decumulation
+import { DecumulationPlan, WithdrawalStrategy } from './shared-types';
+
+export const DEFAULT_WITHDRAWAL_RATE = 0.04;
+export const DEFAULT_GUARDRAIL = 0.2;
+export const DEFAULT_GUARDRAIL_ADJUSTMENT = 0.1;
+export const DEFAULT_EXPECTED_RETURN = 0.05;
+
+const WITHDRAWAL_STRATEGIES: WithdrawalStrategy[] = ['constantInflationAdjusted', 'constantPercentage', 'guytonKlinger', 'variablePercentage'];
+// Guyton-Klinger stops cutting withdrawals this close to the end of the horizon
+const PRESERVATION_CUTOFF_YEARS = 15;
+
+export interface RetirementYear {
+  portfolioValue: number;
+  // Inflation since the previous retirement year began, decimal
+  inflation: number;
+  // Portfolio time-weighted return over the previous retirement year, decimal
+  priorYearReturn: number;
+  // Retirement years left, counting this one
+  remainingYears: number;
+}
+
+export interface WithdrawalPlanner {
+  // The withdrawal for the retirement year that is starting
+  nextYear(year: RetirementYear): number;
+}
+
+function isValidRate(rate: any): boolean {
+  return typeof rate === 'number' && isFinite(rate) && rate > 0 && rate < 1;
+}
+
+// Returns an error message for a malformed decumulation plan, or null when it can be used over
+// the given period
+export function validateDecumulationPlan(plan: any, startDate: string, endDate: string): string | null {
+  if (!plan || typeof plan !== 'object' || Array.isArray(plan)) {
+    return 'Decumulation plan must be an object';
+  }
+
+  const { strategy, withdrawalRate, guardrail, adjustment, expectedReturn } = plan;
+
+  if (!WITHDRAWAL_STRATEGIES.includes(strategy)) {
+    return `Withdrawal strategy must be one of ${WITHDRAWAL_STRATEGIES.join(', ')}`;
+  }
+  if (withdrawalRate !== undefined && !isValidRate(withdrawalRate)) {
+    return 'withdrawalRate must be a decimal between 0 and 1';
+  }
+  if (plan.startDate !== undefined) {
+    const decumulationStart = Date.parse(plan.startDate);
+    if (isNaN(decumulationStart) || decumulationStart < Date.parse(startDate) || decumulationStart > Date.parse(endDate)) {
+      return 'Decumulation startDate must fall inside the investment period';
+    }
+  }
+  if (guardrail !== undefined && !isValidRate(guardrail)) {
+    return 'guardrail must be a decimal between 0 and 1';
+  }
+  if (adjustment !== undefined && !isValidRate(adjustment)) {
+    return 'adjustment must be a decimal between 0 and 1';
+  }
+  if (expectedReturn !== undefined && (typeof expectedReturn !== 'number' || !isFinite(expectedReturn) || expectedReturn <= -1)) {
+    return 'expectedReturn must be a decimal rate greater than -1';
+  }
+  return null;
+}
+
+// Share of the portfolio that, taken at the start of each year and growing the rest at
+// expectedReturn, spends it down to nothing over the remaining years
+function amortizationRate(expectedReturn: number, remainingYears: number): number {
+  if (remainingYears <= 1) {
+    return 1;
+  }
+  if (expectedReturn === 0) {
+    return 1 / remainingYears;
+  }
+  return expectedReturn / ((1 + expectedReturn) * (1 - Math.pow(1 + expectedReturn, -remainingYears)));
+}
+
+export function createWithdrawalPlanner(plan: DecumulationPlan): WithdrawalPlanner {
+  const initialRate = plan.withdrawalRate ?? DEFAULT_WITHDRAWAL_RATE;
+  const guardrail = plan.guardrail ?? DEFAULT_GUARDRAIL;
+  const adjustment = plan.adjustment ?? DEFAULT_GUARDRAIL_ADJUSTMENT;
+  const expectedReturn = plan.expectedReturn ?? DEFAULT_EXPECTED_RETURN;
+
+  let previous: number | null = null;
+
+  // Guyton-Klinger: inflation raises are skipped after a losing year when the rate is already above
+  // its starting level, then the guardrails cut or raise the withdrawal when the rate drifts too far
+  const guardrails = (last: number, year: RetirementYear): number => {
+    const value = year.portfolioValue;
+    const lastRate = value > 0 ? last / value : Infinity;
+    let withdrawal = year.priorYearReturn < 0 && lastRate > initialRate ? last : last * (1 + year.inflation);
+    const rate = value > 0 ? withdrawal / value : Infinity;
+    if (rate > initialRate * (1 + guardrail) && year.remainingYears > PRESERVATION_CUTOFF_YEARS) {
+      withdrawal *= 1 - adjustment;
+    } else if (rate < initialRate * (1 - guardrail)) {
+      withdrawal *= 1 + adjustment;
+    }
+    return withdrawal;
+  };
+
+  return {
+    nextYear(year: RetirementYear): number {
+      let withdrawal: number;
+      if (plan.strategy === 'constantPercentage') {
+        withdrawal = year.portfolioValue * initialRate;
+      } else if (plan.strategy === 'variablePercentage') {
+        withdrawal = year.portfolioValue * amortizationRate(expectedReturn, year.remainingYears);
+      } else if (previous === null) {
+        withdrawal = year.portfolioValue * initialRate;
+      } else if (plan.strategy === 'guytonKlinger') {
+        withdrawal = guardrails(previous, year);
+      } else {
+        withdrawal = previous * (1 + year.inflation);
+      }
+      previous = Math.max(0, withdrawal);
+      return previous;
+    }
+  };
+}
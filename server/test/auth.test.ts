@@ -0,0 +1,70 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { openDatabase } from '../src/database';
+import { createAuthStore, currentUser, requireUser, validateCredentials } from '../src/auth';
+import { mockRequest, mockResponse, runMiddleware } from './http';
+
+const credentials = { email: 'Ada@Example.com ', password: 'correct horse' };
+
+describe('validateCredentials', () => {
+  test('accepts a usable email and password', () => {
+    assert.equal(validateCredentials(credentials), null);
+  });
+
+  test('rejects missing or malformed fields', () => {
+    assert.match(validateCredentials(undefined) as string, /required/);
+    assert.match(validateCredentials({ ...credentials, email: 'not-an-email' }) as string, /email/);
+    assert.match(validateCredentials({ ...credentials, password: 'short' }) as string, /password/);
+    assert.match(validateCredentials({ ...credentials, password: 'x'.repeat(201) }) as string, /password/);
+  });
+});
+
+describe('auth store', () => {
+  test('registers once per email, case-insensitively', async () => {
+    const auth = createAuthStore(openDatabase(':memory:'));
+    const session = await auth.register(credentials);
+    assert.ok(session);
+    assert.equal(session.user.email, 'ada@example.com');
+    assert.equal(await auth.register({ ...credentials, email: 'ADA@example.com' }), undefined);
+  });
+
+  test('logs in only with the right password', async () => {
+    const auth = createAuthStore(openDatabase(':memory:'));
+    await auth.register(credentials);
+    assert.ok(await auth.login({ email: 'ada@example.com', password: credentials.password }));
+    assert.equal(await auth.login({ email: 'ada@example.com', password: 'wrong password' }), undefined);
+    assert.equal(await auth.login({ email: 'nobody@example.com', password: credentials.password }), undefined);
+  });
+
+  test('a token authenticates until it is logged out', async () => {
+    const auth = createAuthStore(openDatabase(':memory:'));
+    const session = await auth.register(credentials);
+    assert.ok(session);
+    assert.deepEqual(auth.authenticate(session.token), session.user);
+    auth.logout(session.token);
+    assert.equal(auth.authenticate(session.token), undefined);
+    assert.equal(auth.authenticate('made-up'), undefined);
+  });
+});
+
+describe('requireUser', () => {
+  test('passes a valid bearer token through with its user', async () => {
+    const auth = createAuthStore(openDatabase(':memory:'));
+    const session = await auth.register(credentials);
+    assert.ok(session);
+    const mock = mockResponse();
+    const passed = runMiddleware(requireUser(auth), mockRequest({ headers: { authorization: `Bearer ${session.token}` } }), mock.res);
+    assert.equal(passed, true);
+    assert.deepEqual(currentUser(mock.res), session.user);
+  });
+
+  test('answers 401 without a valid token', async () => {
+    const auth = createAuthStore(openDatabase(':memory:'));
+    for (const authorization of [undefined, 'Bearer made-up', 'Basic abc']) {
+      const mock = mockResponse();
+      const headers: Record<string, string> = authorization ? { authorization } : {};
+      assert.equal(runMiddleware(requireUser(auth), mockRequest({ headers }), mock.res), false);
+      assert.equal(mock.statusCode, 401);
+    }
+  });
+});
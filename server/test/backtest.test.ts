@@ -0,0 +1,48 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { runRollingBacktest, validateRollingBacktestRequest } from '../src/backtest';
+import { loadBuiltInMarketData } from './helpers';
+
+before(loadBuiltInMarketData);
+
+const request = {
+  initialAmount: 10000,
+  transactions: [{ date: '2001-01-01', amount: 500, type: 'deposit' }],
+  startDate: '2000-01-01',
+  endDate: '2009-12-31'
+};
+
+describe('validateRollingBacktestRequest', () => {
+  test('accepts a period that fits in the history', () => {
+    assert.equal(validateRollingBacktestRequest(request), null);
+    assert.equal(validateRollingBacktestRequest({ ...request, step: 'month', thresholdReturn: 0.05 }), null);
+  });
+
+  test('rejects transactions that are not an array', () => {
+    assert.equal(validateRollingBacktestRequest({ ...request, transactions: 'oops' }), 'Transactions must be an array');
+  });
+
+  test('rejects bad amounts, indices, dates, steps, thresholds and periods', () => {
+    assert.equal(validateRollingBacktestRequest({ startDate: '2000-01-01', endDate: '2009-12-31' }), 'Either initial amount or transactions are required');
+    assert.equal(validateRollingBacktestRequest({ ...request, marketIndex: 'nope' }), 'Invalid market index');
+    assert.equal(validateRollingBacktestRequest({ ...request, endDate: 'soon' }), 'Valid start and end dates are required');
+    assert.equal(validateRollingBacktestRequest({ ...request, step: 'week' }), "Step must be 'year' or 'month'");
+    assert.match(validateRollingBacktestRequest({ ...request, thresholdReturn: '5%' }) as string, /Threshold/);
+    assert.equal(validateRollingBacktestRequest({ ...request, endDate: '1999-01-01' }), 'End date must be after start date');
+    assert.match(validateRollingBacktestRequest({ ...request, startDate: '1800-01-01' }) as string, /longer than the available/);
+    assert.match(validateRollingBacktestRequest({ ...request, decumulation: { strategy: 'spend-it-all', startDate: '2005-01-01' } }) as string, /Withdrawal strategy/);
+  });
+});
+
+describe('runRollingBacktest', () => {
+  test('runs one window per shift, including the actual period', () => {
+    const transactions = [{ date: '2001-01-01', amount: 500, type: 'deposit' as const }];
+    const result = runRollingBacktest(10000, transactions, '2000-01-01', '2009-12-31', 'sp500');
+    assert.equal(result.windowCount, result.windows.length);
+    assert.ok(result.windowCount > 1);
+    assert.equal(result.windowMonths, 120);
+    assert.ok(result.windows.some(window => window.startDate === '2000-01-01'));
+    assert.ok(result.worstWindow.finalAmount <= result.bestWindow.finalAmount);
+    result.windows.forEach(window => assert.equal(window.totalContributions, 10500));
+  });
+});
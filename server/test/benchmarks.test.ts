@@ -0,0 +1,71 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createBenchmarkStore, validateBenchmark } from '../src/benchmarks';
+import { createCustomSeriesStore, seriesMonths } from '../src/custom-series';
+import { MARKET_INDICES } from '../src/market-data';
+import { monthIndex } from '../src/trading-calendar';
+import { loadBuiltInMarketData } from './helpers';
+
+before(loadBuiltInMarketData);
+
+const tempDirs: string[] = [];
+after(() => tempDirs.forEach(dir => fs.rmSync(dir, { recursive: true, force: true })));
+
+function tempDir(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'benchmarks-test-'));
+  tempDirs.push(dir);
+  return dir;
+}
+
+// Flat 0.5% a month between two YYYY-MM months, inclusive
+function monthlyReturns(from: string, to: string) {
+  const returns = [];
+  for (let month = monthIndex(`${from}-01`); month <= monthIndex(`${to}-01`); month++) {
+    returns.push({ date: `${Math.floor(month / 12)}-${String((month % 12) + 1).padStart(2, '0')}`, return: 0.005 });
+  }
+  return returns;
+}
+
+function seriesRequest(from: string, to: string) {
+  return { name: 'House fund', currency: 'USD' as const, totalReturn: true, returns: monthlyReturns(from, to) };
+}
+
+describe('validateBenchmark', () => {
+  test('accepts a blend of indices', () => {
+    assert.equal(validateBenchmark({ name: '60/40', allocation: { sp500: 0.6, usagg: 0.4 } }), null);
+  });
+
+  test('rejects a missing name, bad weights or an unknown currency', () => {
+    assert.equal(validateBenchmark({ allocation: { sp500: 1 } }), 'name is required');
+    assert.ok(validateBenchmark({ name: 'x', allocation: { sp500: 0.5 } }));
+    assert.ok(validateBenchmark({ name: 'x', allocation: { sp500: 1 }, currency: 'XXX' }));
+  });
+});
+
+describe('benchmark store', () => {
+  test('blends the components into an index of its own', async () => {
+    const store = createBenchmarkStore(tempDir());
+    const benchmark = await store.save('test-sixty-forty', { name: '60/40', allocation: { sp500: 0.6, usagg: 0.4 } });
+    assert.equal(benchmark.rebalancing, 'monthly');
+    assert.equal(benchmark.currency, 'USD');
+    assert.equal(MARKET_INDICES['test-sixty-forty'].category, 'multi-asset');
+    assert.deepEqual(store.dependents('usagg'), ['test-sixty-forty']);
+    assert.equal(await store.remove('test-sixty-forty'), true);
+    assert.equal(MARKET_INDICES['test-sixty-forty'], undefined);
+  });
+
+  test('finds the benchmarks a replacement series would leave without a shared full year', async () => {
+    const series = createCustomSeriesStore(tempDir());
+    const store = createBenchmarkStore(tempDir());
+    await series.save('test-house', seriesRequest('2009-12', '2014-12'));
+    await store.save('test-house-blend', { name: 'House and TIPS', allocation: { tips: 0.5, 'test-house': 0.5 } });
+
+    // TIPS returns start in 1998
+    assert.deepEqual(store.dependentsBrokenBy('test-house', seriesMonths(seriesRequest('1997-12', '1999-12'))), []);
+    assert.deepEqual(store.dependentsBrokenBy('test-house', seriesMonths(seriesRequest('1990-12', '1993-12'))), ['test-house-blend']);
+    assert.deepEqual(store.dependentsBrokenBy('sp500', seriesMonths(seriesRequest('1990-12', '1993-12'))), []);
+  });
+});
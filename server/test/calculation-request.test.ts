@@ -0,0 +1,85 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  MAX_BATCH_SCENARIOS,
+  parseTransactions,
+  runBatchCalculation,
+  runCalculationRequest,
+  validateBatchCalculationRequest,
+  validateCalculationRequest
+} from '../src/calculation-request';
+import { MAX_RECURRING_RULES } from '../src/recurring-transactions';
+import { loadBuiltInMarketData } from './helpers';
+
+before(loadBuiltInMarketData);
+
+const request = {
+  initialAmount: 10000,
+  transactions: [{ date: '2015-06-01', amount: 1000, type: 'deposit' as const }],
+  startDate: '2015-01-01',
+  endDate: '2019-12-31'
+};
+
+describe('parseTransactions', () => {
+  test('drops malformed transactions and parses amounts', () => {
+    assert.deepEqual(parseTransactions([
+      { date: '2020-01-01', amount: '250.5', type: 'deposit' },
+      { date: '2020-01-01', amount: 100, type: 'gift' },
+      { amount: 100, type: 'deposit' },
+      null
+    ]), [{ date: '2020-01-01', amount: 250.5, type: 'deposit' }]);
+  });
+});
+
+describe('validateCalculationRequest', () => {
+  test('accepts a plain request', () => {
+    assert.equal(validateCalculationRequest(request), null);
+  });
+
+  test('rejects unusable requests', () => {
+    assert.equal(validateCalculationRequest({ startDate: '2015-01-01' }), 'Either initial amount or transactions are required');
+    assert.equal(validateCalculationRequest({ ...request, startDate: undefined }), 'Start date is required');
+    assert.equal(validateCalculationRequest({ ...request, marketIndex: 'nope' }), 'Invalid market index');
+    assert.equal(validateCalculationRequest({ ...request, granularity: 'weekly' }), "Granularity must be 'daily' or 'monthly'");
+    assert.equal(validateCalculationRequest({ ...request, transactions: 'oops' }), 'Transactions must be an array');
+    assert.match(validateCalculationRequest({ ...request, transactions: [{ ...request.transactions[0], currency: 'XYZ' }] }) as string, /Transaction currency/);
+  });
+
+  test('rejects recurring rules that expand into too many occurrences by the end date', () => {
+    const weekly = { type: 'deposit', amount: 100, frequency: 'weekly', startDate: '1950-01-01' };
+    const recurringTransactions = Array(MAX_RECURRING_RULES).fill(weekly);
+    assert.match(validateCalculationRequest({ ...request, recurringTransactions }) as string, /more than/);
+    assert.equal(validateCalculationRequest({ ...request, recurringTransactions, endDate: '1951-01-01' }), null);
+    assert.match(validateCalculationRequest({ ...request, recurringTransactions: Array(MAX_RECURRING_RULES + 1).fill(weekly) }) as string, /At most/);
+  });
+});
+
+describe('runCalculationRequest', () => {
+  test('converts transactions into the reporting currency', () => {
+    const inDollars = runCalculationRequest({ ...request, initialAmount: 0 });
+    const inPounds = runCalculationRequest({ ...request, initialAmount: 0, transactions: [{ ...request.transactions[0], currency: 'GBP' }] });
+    assert.ok((inPounds.summary.totalDeposits as number) > (inDollars.summary.totalDeposits as number));
+  });
+});
+
+describe('batch calculations', () => {
+  const scenarios = [{ marketIndex: 'sp500' }, { allocation: { sp500: 0.6, nasdaq: 0.4 } }, { marketIndex: 'nasdaq', label: 'Tech' }];
+
+  test('validate every scenario against the shared request', () => {
+    assert.equal(validateBatchCalculationRequest({ ...request, scenarios }), null);
+    assert.match(validateBatchCalculationRequest({ ...request, scenarios: [] }) as string, /non-empty list/);
+    assert.equal(
+      validateBatchCalculationRequest({ ...request, scenarios: Array(MAX_BATCH_SCENARIOS + 1).fill({}) }),
+      `At most ${MAX_BATCH_SCENARIOS} scenarios can be calculated at once`
+    );
+    assert.equal(validateBatchCalculationRequest({ ...request, scenarios: [{}, { marketIndex: 'nope' }] }), 'Scenario 2: Invalid market index');
+  });
+
+  test('run the same cash flows through each scenario in order', () => {
+    const { results } = runBatchCalculation({ ...request, scenarios });
+    assert.deepEqual(results.map(result => result.label), ['S&P 500', '60% S&P 500 / 40% NASDAQ', 'Tech']);
+    assert.deepEqual(results[1].allocation, { sp500: 0.6, nasdaq: 0.4 });
+    results.forEach(result => assert.equal(result.result.summary.totalDeposits, 11000));
+    assert.notEqual(results[0].result.summary.finalAmount, results[2].result.summary.finalAmount);
+  });
+});
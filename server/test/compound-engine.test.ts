@@ -0,0 +1,124 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateCompoundInterestWithDates } from '../src/compound-engine';
+import { convertAmount, getAnnualReturns } from '../src/market-data';
+import { loadBuiltInMarketData } from './helpers';
+
+before(loadBuiltInMarketData);
+
+describe('fees', () => {
+  test('daily points carry the no-fee value of their own date', () => {
+    const deposits = [{ date: '2020-01-02', amount: 10000, type: 'deposit' as const }];
+    const run = (fees?: { advisoryFee: number; advisoryBilling: 'monthly' }) =>
+      calculateCompoundInterestWithDates(0, deposits, '2020-01-01', '2020-12-31', true, 'sp500', { granularity: 'daily', fees });
+    const withFees = run({ advisoryFee: 0.01, advisoryBilling: 'monthly' }).dailyData || [];
+    const noFees = run().dailyData || [];
+
+    // Billing days that aren't trading days add points only the fee run has
+    assert.ok(withFees.length > noFees.length);
+    assert.equal(withFees.filter(point => point.valueWithoutFees !== undefined).length, withFees.length);
+
+    const noFeeAmounts = new Map(noFees.map(point => [point.date, point.amount]));
+    let latest = 0;
+    withFees.forEach(point => {
+      latest = noFeeAmounts.get(point.date) ?? latest;
+      assert.equal(point.valueWithoutFees, latest, point.date);
+    });
+    const last = withFees[withFees.length - 1];
+    assert.equal(last.date, '2020-12-31');
+    assert.ok((last.valueWithoutFees as number) > last.amount);
+  });
+
+  test('monthly points line up with the no-fee run', () => {
+    const deposits = [{ date: '2015-01-01', amount: 10000, type: 'deposit' as const }];
+    const withFees = calculateCompoundInterestWithDates(0, deposits, '2015-01-01', '2019-12-31', true, 'sp500', {
+      fees: { expenseRatio: 0.005, advisoryFee: 0.01, advisoryBilling: 'quarterly' }
+    });
+    const noFees = calculateCompoundInterestWithDates(0, deposits, '2015-01-01', '2019-12-31', true, 'sp500');
+
+    assert.equal(withFees.monthlyData.length, noFees.monthlyData.length);
+    withFees.monthlyData.forEach((point, i) => assert.equal(point.valueWithoutFees, noFees.monthlyData[i].amount));
+    assert.equal(withFees.summary.fees?.valueWithoutFees, noFees.summary.finalAmount);
+    assert.ok((withFees.summary.fees?.costOfFees as number) > 0);
+  });
+});
+
+describe('real terms', () => {
+  const deposits = [{ date: '2010-01-01', amount: 10000, type: 'deposit' as const }];
+
+  test('deflate values into dollars of the base year', () => {
+    const { summary } = calculateCompoundInterestWithDates(0, deposits, '2010-01-01', '2019-12-31', true, 'sp500', { realTerms: true });
+    assert.equal(summary.real?.baseYear, 2019);
+    assert.equal(summary.real?.cpiRegion, 'us');
+    assert.ok((summary.real?.cumulativeInflation as number) > 0);
+    assert.ok((summary.real?.contributions as number) > summary.totalContributions);
+
+    const early = calculateCompoundInterestWithDates(0, deposits, '2010-01-01', '2019-12-31', true, 'sp500', { realTerms: true, realBaseYear: 2010 });
+    assert.ok((early.summary.real?.amount as number) < early.summary.finalAmount);
+  });
+
+  test('are left out unless asked for', () => {
+    const { summary } = calculateCompoundInterestWithDates(0, deposits, '2010-01-01', '2019-12-31', true, 'sp500');
+    assert.equal(summary.real, undefined);
+  });
+});
+
+describe('average annual return', () => {
+  test('only counts the years every sleeve has history for', () => {
+    // TIPS returns start in 1998, eight years after the S&P 500's
+    const run = (allocation: Record<string, number>) => calculateCompoundInterestWithDates(
+      10000, [], '1995-01-01', '2004-12-31', true, 'sp500', { allocation }
+    ).summary.averageAnnualReturn;
+
+    const years = [1998, 1999, 2000, 2001, 2002, 2003, 2004];
+    const expected = years.reduce((sum, year) =>
+      sum + 0.5 * getAnnualReturns('sp500')[year] + 0.5 * getAnnualReturns('tips')[year], 0) / years.length;
+    assert.equal(run({ sp500: 0.5, tips: 0.5 }), (expected * 100).toFixed(2));
+    assert.equal(run({ tips: 0.5, sp500: 0.5 }), (expected * 100).toFixed(2));
+  });
+});
+
+describe('reporting currency', () => {
+  const deposits = [{ date: '2010-01-01', amount: 10000, type: 'deposit' as const }];
+
+  test('splits growth in a foreign index into market and currency gains', () => {
+    const { summary } = calculateCompoundInterestWithDates(0, deposits, '2010-01-01', '2019-12-31', true, 'ftse100', { reportingCurrency: 'USD' });
+    const currency = summary.currency;
+    assert.ok(currency);
+    assert.equal(currency.hedging, 'unhedged');
+    assert.deepEqual(currency.indexCurrencies, { ftse100: 'GBP' });
+    assert.ok(currency.currencyGain < 0);
+  });
+
+  test('hedged holdings carry no currency gain', () => {
+    const { summary } = calculateCompoundInterestWithDates(0, deposits, '2010-01-01', '2019-12-31', true, 'ftse100', {
+      reportingCurrency: 'USD',
+      currencyHedging: 'hedged'
+    });
+    assert.equal(summary.currency?.currencyGain, 0);
+  });
+});
+
+describe('recurring transactions', () => {
+  test('occurrences in another currency are converted into the reporting currency', () => {
+    const rule = { type: 'deposit' as const, amount: 1000, frequency: 'quarterly' as const, startDate: '2015-01-15' };
+    const run = (currency?: 'GBP' | 'USD') => calculateCompoundInterestWithDates(0, [], '2015-01-01', '2016-12-31', true, 'sp500', {
+      recurringTransactions: [{ ...rule, ...(currency && { currency }) }],
+      reportingCurrency: 'USD'
+    });
+
+    const inUsd = run('USD').recurringOccurrences || [];
+    assert.deepEqual(inUsd, run().recurringOccurrences);
+    assert.equal(inUsd.length, 8);
+    inUsd.forEach(occurrence => assert.equal(occurrence.amount, 1000));
+
+    const inGbp = run('GBP').recurringOccurrences || [];
+    assert.equal(inGbp.length, 8);
+    inGbp.forEach(occurrence => {
+      const year = parseInt(occurrence.date.split('-')[0]);
+      assert.equal(occurrence.amount, Math.round(convertAmount(1000, 'GBP', 'USD', year) * 100) / 100);
+      // Sterling was worth more than a dollar throughout
+      assert.ok(occurrence.amount > 1000);
+    });
+  });
+});
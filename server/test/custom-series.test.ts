@@ -0,0 +1,78 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createCustomSeriesStore, seriesMonths, validateCustomSeries } from '../src/custom-series';
+import { MARKET_INDICES, getMonthlyReturn } from '../src/market-data';
+import { loadBuiltInMarketData } from './helpers';
+
+before(loadBuiltInMarketData);
+
+const tempDirs: string[] = [];
+after(() => tempDirs.forEach(dir => fs.rmSync(dir, { recursive: true, force: true })));
+
+function tempDir(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'custom-series-test-'));
+  tempDirs.push(dir);
+  return dir;
+}
+
+// December 2019 to December 2020 at 1% a month
+const prices = Array.from({ length: 13 }, (_, i) => ({
+  date: i === 0 ? '2019-12' : `2020-${String(i).padStart(2, '0')}`,
+  close: 100 * Math.pow(1.01, i)
+}));
+const series = { name: 'House fund', currency: 'USD' as const, totalReturn: true, prices };
+
+describe('validateCustomSeries', () => {
+  test('accepts prices or returns covering a calendar year', () => {
+    assert.equal(validateCustomSeries(series), null);
+    const returns = prices.slice(1).map(price => ({ date: price.date, return: 0.01 }));
+    assert.equal(validateCustomSeries({ ...series, prices: undefined, returns }), null);
+    assert.deepEqual(seriesMonths({ ...series, prices: undefined, returns }), returns.map(point => point.date));
+  });
+
+  test('rejects unusable series', () => {
+    assert.equal(validateCustomSeries({ ...series, name: ' ' }), 'name is required');
+    assert.match(validateCustomSeries({ ...series, totalReturn: 'yes' }) as string, /totalReturn/);
+    assert.equal(validateCustomSeries({ ...series, returns: [] }), 'Give the series as either prices or returns');
+    assert.equal(validateCustomSeries({ ...series, prices: [...prices, prices[3]] }), 'prices has more than one entry for 2020-03');
+    assert.equal(validateCustomSeries({ ...series, prices: prices.filter((_, i) => i !== 5) }), 'Series has a gap: no data between 2020-04 and 2020-06');
+    assert.match(validateCustomSeries({ ...series, prices: prices.slice(0, 12) }) as string, /at least one calendar year/);
+  });
+
+  test('flags monthly moves that look like data errors unless allowed', () => {
+    const jumpy = prices.map((price, i) => (i === 6 ? { ...price, close: price.close * 2 } : price));
+    assert.match(validateCustomSeries({ ...series, prices: jumpy }) as string, /2020-06 \(\d+\.\d+%\)/);
+    assert.equal(validateCustomSeries({ ...series, prices: jumpy, allowOutliers: true }), null);
+  });
+});
+
+describe('custom series store', () => {
+  test('loads saved series into the market data and keeps them on disk', async () => {
+    const dir = tempDir();
+    const store = createCustomSeriesStore(dir);
+    const saved = await store.save('test-house-fund', series);
+    assert.equal(saved.name, 'House fund');
+    assert.equal(MARKET_INDICES['test-house-fund'].name, 'House fund');
+    assert.ok(Math.abs(getMonthlyReturn('test-house-fund', 2020, 5) - 0.01) < 1e-9);
+
+    const summary = store.list()[0];
+    assert.deepEqual([summary.format, summary.startMonth, summary.endMonth, summary.months], ['prices', '2020-01', '2020-12', 12]);
+    assert.equal(createCustomSeriesStore(dir).get('test-house-fund')?.name, 'House fund');
+
+    assert.equal(await store.remove('test-house-fund'), true);
+    assert.equal(MARKET_INDICES['test-house-fund'], undefined);
+    assert.equal(await store.remove('test-house-fund'), false);
+  });
+
+  test('keeps the creation time when a series is replaced', async () => {
+    const store = createCustomSeriesStore(tempDir());
+    const first = await store.save('test-replaced', series);
+    const second = await store.save('test-replaced', { ...series, name: 'Renamed' });
+    assert.equal(second.createdAt, first.createdAt);
+    assert.equal(second.name, 'Renamed');
+    await store.remove('test-replaced');
+  });
+});
@@ -0,0 +1,51 @@
+import { after, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { migrate, openDatabase } from '../src/database';
+
+const tempDirs: string[] = [];
+after(() => tempDirs.forEach(dir => fs.rmSync(dir, { recursive: true, force: true })));
+
+describe('migrate', () => {
+  test('brings a new database up to date once', () => {
+    const db = new Database(':memory:');
+    assert.deepEqual(migrate(db), [1, 2, 3, 4]);
+    assert.deepEqual(migrate(db), []);
+    const columns = (db.prepare('PRAGMA table_info(portfolios)').all() as { name: string }[]).map(column => column.name);
+    assert.ok(columns.includes('owner_id') && columns.includes('recurring_rules'));
+  });
+
+  test('applies only the migrations a database is missing', () => {
+    const db = new Database(':memory:');
+    // Left at version 3, with only the table version 4 alters
+    db.exec(`
+      CREATE TABLE schema_migrations (version INTEGER PRIMARY KEY, name TEXT NOT NULL, applied_at TEXT NOT NULL);
+      INSERT INTO schema_migrations VALUES (1, '', ''), (2, '', ''), (3, '', '');
+      CREATE TABLE portfolios (id TEXT PRIMARY KEY);
+    `);
+    assert.deepEqual(migrate(db), [4]);
+  });
+
+  test('refuses a database written by a newer server', () => {
+    const db = new Database(':memory:');
+    migrate(db);
+    db.prepare("INSERT INTO schema_migrations (version, name, applied_at) VALUES (99, 'future', '')").run();
+    assert.throws(() => migrate(db), /Database schema version 99 is newer than this server supports \(4\)/);
+  });
+});
+
+describe('openDatabase', () => {
+  test('creates the file and its directory, and enforces foreign keys', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'database-test-'));
+    tempDirs.push(dir);
+    const db = openDatabase(path.join(dir, 'nested', 'app.sqlite'));
+    assert.ok(fs.existsSync(path.join(dir, 'nested', 'app.sqlite')));
+    assert.throws(() => db.prepare(`
+      INSERT INTO transactions (id, portfolio_id, date, amount, type, created_at, updated_at)
+      VALUES ('t', 'missing', '2020-01-01', 1, 'deposit', '', '')`).run(), /FOREIGN KEY/);
+    db.close();
+  });
+});
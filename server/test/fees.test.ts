@@ -0,0 +1,55 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { hasFees, transactionFee, validateFeeSchedule } from '../src/fees';
+import { calculateCompoundInterestWithDates } from '../src/compound-engine';
+import { loadBuiltInMarketData } from './helpers';
+
+before(loadBuiltInMarketData);
+
+describe('validateFeeSchedule', () => {
+  test('accepts a full schedule', () => {
+    assert.equal(validateFeeSchedule({
+      expenseRatio: 0.002,
+      advisoryFee: 0.01,
+      advisoryBilling: 'monthly',
+      depositFee: { flat: 5 },
+      withdrawalFee: { percent: 0.01 }
+    }), null);
+  });
+
+  test('rejects unusable fields', () => {
+    assert.equal(validateFeeSchedule([]), 'Fees must be an object');
+    assert.match(validateFeeSchedule({ expenseRatio: 1 }) as string, /expenseRatio/);
+    assert.match(validateFeeSchedule({ advisoryBilling: 'yearly' }) as string, /advisoryBilling/);
+    assert.equal(validateFeeSchedule({ depositFee: 5 }), 'depositFee must be an object with flat and/or percent');
+    assert.match(validateFeeSchedule({ withdrawalFee: { flat: -1 } }) as string, /withdrawalFee.flat/);
+  });
+});
+
+describe('transactionFee', () => {
+  test('adds the flat and percent parts, capped at the transaction', () => {
+    assert.equal(transactionFee({ flat: 5, percent: 0.01 }, 1000), 15);
+    assert.equal(transactionFee({ flat: 50 }, 20), 20);
+    assert.equal(transactionFee(undefined, 1000), 0);
+  });
+
+  test('zero-rate schedules count as no fees', () => {
+    assert.equal(hasFees({ expenseRatio: 0, depositFee: { flat: 0 } }), false);
+    assert.equal(hasFees({ withdrawalFee: { percent: 0.01 } }), true);
+  });
+});
+
+describe('calculations with fees', () => {
+  test('break the fees down and cost more than they charge', () => {
+    const { summary } = calculateCompoundInterestWithDates(
+      0, [{ date: '2010-01-01', amount: 10000, type: 'deposit' }], '2010-01-01', '2019-12-31', true, 'sp500',
+      { fees: { expenseRatio: 0.005, advisoryFee: 0.01, depositFee: { flat: 20 } } }
+    );
+    const fees = summary.fees;
+    assert.ok(fees);
+    assert.equal(fees.transactionFees, 20);
+    assert.ok(Math.abs(fees.totalFees - (fees.expenseRatioFees + fees.advisoryFees + fees.transactionFees)) < 0.05);
+    assert.ok(fees.costOfFees > fees.totalFees);
+    assert.ok(Math.abs(fees.valueWithoutFees - summary.finalAmount - fees.costOfFees) < 0.05);
+  });
+});
@@ -0,0 +1,11 @@
+// Shared setup for the server tests
+import { loadMarketData } from '../src/market-data';
+import { createBuiltInProvider } from '../src/market-data-providers';
+
+let loading: Promise<void> | null = null;
+
+// Fills the market data repository with the bundled series, once per test process
+export function loadBuiltInMarketData(): Promise<void> {
+  loading = loading || loadMarketData([createBuiltInProvider()]);
+  return loading;
+}
@@ -0,0 +1,42 @@
+// Minimal stand-ins for Express requests and responses, for testing middleware without a server
+import { Request, Response } from 'express';
+
+export interface MockResponse {
+  res: Response;
+  statusCode: number;
+  body: any;
+}
+
+export function mockRequest(fields: { headers?: Record<string, string>; params?: Record<string, string>; body?: any } = {}): Request {
+  return { headers: {}, params: {}, ...fields } as unknown as Request;
+}
+
+export function mockResponse(): MockResponse {
+  const mock: MockResponse = { res: undefined as unknown as Response, statusCode: 200, body: undefined };
+  const res: any = {
+    locals: {},
+    status: (code: number) => {
+      mock.statusCode = code;
+      return res;
+    },
+    json: (body: any) => {
+      mock.body = body;
+      return res;
+    }
+  };
+  mock.res = res;
+  return mock;
+}
+
+// Runs a middleware and reports whether it passed the request on
+export function runMiddleware(
+  middleware: (req: Request, res: Response, next: () => void) => void,
+  req: Request,
+  res: Response
+): boolean {
+  let passed = false;
+  middleware(req, res, () => {
+    passed = true;
+  });
+  return passed;
+}
@@ -0,0 +1,53 @@
+import { after, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createJsonFileStore, validateStoredId } from '../src/json-file-store';
+
+interface Note {
+  id: string;
+  text: string;
+}
+
+const tempDirs: string[] = [];
+after(() => tempDirs.forEach(dir => fs.rmSync(dir, { recursive: true, force: true })));
+
+function tempDir(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'json-file-store-test-'));
+  tempDirs.push(dir);
+  return dir;
+}
+
+const checkNote = (note: any) => (typeof note.text === 'string' ? validateStoredId(note.id) : 'text is required');
+
+describe('validateStoredId', () => {
+  test('allows safe lowercase file names only', () => {
+    assert.equal(validateStoredId('sixty-forty_2'), null);
+    ['', 'Upper', '-leading', '../escape', 'a'.repeat(41), 7].forEach(id => assert.ok(validateStoredId(id), String(id)));
+  });
+});
+
+describe('createJsonFileStore', () => {
+  test('writes one file per entity and reads them back', () => {
+    const dir = path.join(tempDir(), 'notes');
+    const store = createJsonFileStore<Note>(dir, 'Note', checkNote);
+    assert.deepEqual(store.all(), {});
+    store.write({ id: 'first', text: 'hello' });
+    assert.deepEqual(fs.readdirSync(dir), ['first.json']);
+    assert.deepEqual(createJsonFileStore<Note>(dir, 'Note', checkNote).all(), { first: { id: 'first', text: 'hello' } });
+
+    assert.equal(store.remove('first'), true);
+    assert.equal(store.remove('first'), false);
+    assert.deepEqual(fs.readdirSync(dir), []);
+  });
+
+  test('refuses to start from a file that is unreadable or fails the check', () => {
+    const dir = tempDir();
+    fs.writeFileSync(path.join(dir, 'broken.json'), '{');
+    assert.throws(() => createJsonFileStore<Note>(dir, 'Note', checkNote).all(), /Note file .*broken.json is not valid JSON/);
+
+    fs.writeFileSync(path.join(dir, 'broken.json'), JSON.stringify({ id: 'broken' }));
+    assert.throws(() => createJsonFileStore<Note>(dir, 'Note', checkNote).all(), /is invalid: text is required/);
+  });
+});
@@ -0,0 +1,48 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { compareLumpVsDca, validateLumpVsDcaRequest, MAX_DCA_MONTHS } from '../src/lump-vs-dca';
+import { loadBuiltInMarketData } from './helpers';
+
+before(loadBuiltInMarketData);
+
+const request = { amount: 12000, startDate: '2010-01-01', dcaMonths: 12 };
+
+describe('validateLumpVsDcaRequest', () => {
+  test('accepts a comparison within the limits', () => {
+    assert.equal(validateLumpVsDcaRequest(request), null);
+    assert.equal(validateLumpVsDcaRequest({ ...request, dcaMonths: MAX_DCA_MONTHS, frequency: 'weekly' }), null);
+  });
+
+  test('rejects unusable fields', () => {
+    assert.match(validateLumpVsDcaRequest({ ...request, amount: -1 }) as string, /amount/);
+    assert.match(validateLumpVsDcaRequest({ ...request, dcaMonths: MAX_DCA_MONTHS + 1 }) as string, /dcaMonths/);
+    assert.match(validateLumpVsDcaRequest({ ...request, frequency: 'hourly' }) as string, /frequency/);
+    assert.equal(validateLumpVsDcaRequest({ ...request, endDate: '2010-06-30' }), 'End date must not fall before the end of the DCA period');
+    assert.equal(validateLumpVsDcaRequest({ ...request, marketIndices: ['nope'] }), 'Invalid market index: nope');
+  });
+
+  test('rejects a win-rate replay too large to run', () => {
+    const weekly = { ...request, dcaMonths: MAX_DCA_MONTHS, frequency: 'weekly' };
+    assert.match(validateLumpVsDcaRequest({ ...weekly, marketIndices: ['sp500', 'nasdaq'] }) as string, /Too many installments/);
+    assert.equal(validateLumpVsDcaRequest({ ...weekly, frequency: 'monthly', marketIndices: ['sp500', 'nasdaq'] }), null);
+  });
+});
+
+describe('compareLumpVsDca', () => {
+  test('invests the same amount both ways', () => {
+    const result = compareLumpVsDca(request);
+    assert.equal(result.installments, 12);
+    assert.equal(result.installmentAmount, 1000);
+    const [comparison] = result.comparisons;
+    assert.equal(comparison.lumpSum.series[comparison.lumpSum.series.length - 1].contributions, 12000);
+    assert.equal(comparison.dca.series[comparison.dca.series.length - 1].contributions, 12000);
+    assert.ok(comparison.startDatesTested > 0);
+  });
+
+  test('the win rate does not depend on the chart granularity', () => {
+    const monthly = compareLumpVsDca(request).comparisons[0];
+    const daily = compareLumpVsDca({ ...request, granularity: 'daily' }).comparisons[0];
+    assert.equal(daily.lumpSumWinRate, monthly.lumpSumWinRate);
+    assert.equal(daily.startDatesTested, monthly.startDatesTested);
+  });
+});
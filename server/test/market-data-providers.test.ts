@@ -0,0 +1,95 @@
+import { after, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  closesFromReturns,
+  createBuiltInProvider,
+  createFileSystemProvider,
+  monthEndCloses,
+  returnsFromCloses,
+  withinRange
+} from '../src/market-data-providers';
+
+const tempDirs: string[] = [];
+after(() => tempDirs.forEach(dir => fs.rmSync(dir, { recursive: true, force: true })));
+
+function tempDir(files: { [name: string]: string }): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'providers-test-'));
+  tempDirs.push(dir);
+  Object.keys(files).forEach(name => fs.writeFileSync(path.join(dir, name), files[name]));
+  return dir;
+}
+
+describe('series helpers', () => {
+  test('withinRange compares dates at the precision of each point', () => {
+    const points = [{ date: '2019', return: 0.1 }, { date: '2020', return: 0.2 }, { date: '2021', return: 0.3 }];
+    assert.deepEqual(withinRange(points, { granularity: 'annual', startDate: '2020-06-30', endDate: '2021-01' }).map(p => p.date), ['2020', '2021']);
+  });
+
+  test('month-end closes take the last price of each month', () => {
+    assert.deepEqual(monthEndCloses([
+      { date: '2020-01-31', close: 110 },
+      { date: '2020-01-02', close: 100 },
+      { date: '2020-02-14', close: 120 }
+    ]), { '2020-01': 110, '2020-02': 120 });
+  });
+
+  test('returns and closes convert back and forth', () => {
+    const returns = [{ date: '2020-01', return: 0.1 }, { date: '2020-02', return: -0.5 }];
+    const closes = closesFromReturns(returns);
+    assert.deepEqual(Object.keys(closes), ['2019-12', '2020-01', '2020-02']);
+    const back = returnsFromCloses(closes, 'monthly');
+    assert.deepEqual(back.map(point => point.date), ['2020-01', '2020-02']);
+    back.forEach((point, i) => assert.ok(Math.abs(point.return - returns[i].return) < 1e-12));
+  });
+
+  test('annual returns run December to December', () => {
+    const closes = { '2019-12': 100, '2020-06': 90, '2020-12': 110, '2021-12': 99 };
+    const annual = returnsFromCloses(closes, 'annual');
+    assert.deepEqual(annual.map(point => point.date), ['2020', '2021']);
+    assert.ok(Math.abs(annual[1].return + 0.1) < 1e-12);
+  });
+});
+
+describe('createBuiltInProvider', () => {
+  test('serves the bundled indices', async () => {
+    const provider = createBuiltInProvider();
+    const ids = (await provider.listIndices()).map(definition => definition.id);
+    assert.ok(ids.includes('sp500') && ids.includes('ftse100'));
+    const series = await provider.getSeries('sp500', { granularity: 'annual', startDate: '2008', endDate: '2008' });
+    assert.deepEqual(series, [{ date: '2008', return: -0.37 }]);
+  });
+});
+
+describe('createFileSystemProvider', () => {
+  test('reads CSV and JSON price files named after their index', async () => {
+    const provider = createFileSystemProvider(tempDir({
+      'house-fund.csv': 'date,close\n2019-12-31,100\n2020-01-15,104\n2020-01-31,105\n',
+      'gilts.json': JSON.stringify({ name: 'Gilts', currency: 'GBP', category: 'bond', prices: [{ date: '2019-12', close: 50 }, { date: '2020-12', close: 55 }] }),
+      'notes.txt': 'ignored'
+    }));
+    const definitions = await provider.listIndices();
+    assert.deepEqual(definitions.map(definition => definition.id), ['gilts', 'house-fund']);
+    assert.equal(definitions[0].currency, 'GBP');
+    assert.equal(definitions[1].name, 'house-fund');
+    const monthly = await provider.getSeries('house-fund', { granularity: 'monthly' });
+    assert.equal(monthly.length, 1);
+    assert.ok(Math.abs(monthly[0].return - 0.05) < 1e-12);
+    assert.deepEqual(await provider.getSeries('missing', { granularity: 'monthly' }), []);
+  });
+
+  test('provides nothing for a missing directory', async () => {
+    assert.deepEqual(await createFileSystemProvider(path.join(os.tmpdir(), 'no-such-price-dir')).listIndices(), []);
+  });
+
+  test('rejects malformed price files', async () => {
+    const read = (files: { [name: string]: string }) => createFileSystemProvider(tempDir(files)).listIndices();
+    await assert.rejects(read({ 'a.csv': 'when,price\n2020-01,1\n2020-02,2' }), /'date,close' header/);
+    await assert.rejects(read({ 'a.csv': 'date,close\n2020-01,1\n2020-02,-2' }), /Invalid price on line 3/);
+    await assert.rejects(read({ 'a.csv': 'date,close\n2020-01,1' }), /at least two months/);
+    await assert.rejects(read({ 'a.json': '{"prices": 1}' }), /'prices' list/);
+    await assert.rejects(read({ 'a.csv': 'date,close\n2020-01,1\n2020-02,2', 'A.json': '{"prices": [{"date": "2020-01", "close": 1}, {"date": "2020-02", "close": 2}]}' }), /More than one price file/);
+  });
+});
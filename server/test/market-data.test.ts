@@ -0,0 +1,162 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  DEFAULT_MARKET_INDEX,
+  MARKET_INDICES,
+  annualToMonthlyReturn,
+  convertAmount,
+  getAnnualCpi,
+  getAnnualReturn,
+  getAnnualReturns,
+  getCpiLevel,
+  getCpiYears,
+  getCurrencyReturn,
+  getMonthlyReturn,
+  getMonthlyReturnSeries,
+  isValidMarketIndex,
+  listMarketIndices,
+  loadMarketData,
+  reloadMarketIndex,
+  validateMarketData
+} from '../src/market-data';
+import { MARKET_INDEX_CATEGORIES, MarketDataProvider } from '../src/market-data-providers';
+import { loadBuiltInMarketData } from './helpers';
+
+before(loadBuiltInMarketData);
+
+// One index with a single flat year, from a provider of its own
+function testProvider(name: string, id: string, listed = true): MarketDataProvider {
+  return {
+    name,
+    listIndices: async () => listed ? [{ id, name: 'Test index', averageReturn: 0.05, currency: 'USD' }] : [],
+    getSeries: async (_index, range) => range.granularity === 'annual'
+      ? [{ date: '2020', return: 0.05 }]
+      : Array.from({ length: 12 }, (_, i) => ({ date: `2020-${String(i + 1).padStart(2, '0')}`, return: Math.pow(1.05, 1 / 12) - 1 }))
+  };
+}
+
+describe('market data repository', () => {
+  test('the bundled data loads consistently', () => {
+    assert.doesNotThrow(validateMarketData);
+    assert.ok(isValidMarketIndex(DEFAULT_MARKET_INDEX));
+    assert.equal(isValidMarketIndex('nope'), false);
+    assert.equal(isValidMarketIndex('toString'), false);
+  });
+
+  test('lists every loaded index with its catalog details', () => {
+    const listed = listMarketIndices();
+    assert.deepEqual(listed.map(index => index.id).sort(), Object.keys(MARKET_INDICES).sort());
+    const sp500 = listed.find(index => index.id === 'sp500');
+    assert.equal(sp500?.averageReturn, MARKET_INDICES.sp500.averageReturn);
+    assert.equal(sp500?.currency, 'USD');
+    assert.equal(sp500?.category, 'equity');
+  });
+
+  test('years outside the series fall back to the long-run average', () => {
+    const years = Object.keys(getAnnualReturns('sp500')).map(year => parseInt(year));
+    const first = Math.min(...years);
+    assert.equal(getAnnualReturn('sp500', first), getAnnualReturns('sp500')[first]);
+    assert.equal(getAnnualReturn('sp500', first - 10), MARKET_INDICES.sp500.averageReturn);
+    assert.throws(() => getAnnualReturns('nope'), /No return series/);
+  });
+
+  test('an index id can only be provided once', async () => {
+    await assert.rejects(loadMarketData([testProvider('duplicate', 'sp500')]), /already provided/);
+  });
+
+  test('reloading picks up new and dropped indices of the same provider only', async () => {
+    await reloadMarketIndex(testProvider('test provider', 'test-index'), 'test-index');
+    assert.equal(MARKET_INDICES['test-index'].name, 'Test index');
+    assert.equal(getAnnualReturn('test-index', 2020), 0.05);
+
+    await assert.rejects(reloadMarketIndex(testProvider('other provider', 'test-index'), 'test-index'), /belongs to/);
+    await reloadMarketIndex(testProvider('test provider', 'test-index', false), 'test-index');
+    assert.equal(isValidMarketIndex('test-index'), false);
+  });
+});
+
+describe('monthly returns', () => {
+  test('a year of monthly returns compounds to its annual figure', () => {
+    const compounded = Array.from({ length: 12 }, (_, i) => getMonthlyReturn('sp500', 2010, i + 1))
+      .reduce((growth, monthlyReturn) => growth * (1 + monthlyReturn), 1) - 1;
+    assert.ok(Math.abs(compounded - getAnnualReturns('sp500')[2010]) < 0.005);
+  });
+
+  test('the series is chronological and matches getMonthlyReturn', () => {
+    const series = getMonthlyReturnSeries('ftse100');
+    assert.deepEqual(series.map(point => point.month), series.map(point => point.month).sort());
+    const [year, monthOfYear] = series[5].month.split('-').map(part => parseInt(part));
+    assert.equal(getMonthlyReturn('ftse100', year, monthOfYear), series[5].return);
+  });
+
+  test('months without data fall back to the annual return converted geometrically', () => {
+    assert.equal(annualToMonthlyReturn(0), 0);
+    assert.ok(Math.abs(Math.pow(1 + annualToMonthlyReturn(0.1), 12) - 1.1) < 1e-12);
+    assert.equal(getMonthlyReturn('sp500', 1900, 6), annualToMonthlyReturn(MARKET_INDICES.sp500.averageReturn));
+  });
+});
+
+describe('CPI', () => {
+  test('monthly levels interpolate geometrically from the mid-year annual average', () => {
+    const year = getCpiYears('us')[5];
+    const growth = getAnnualCpi('us', year + 1) / getAnnualCpi('us', year);
+    assert.ok(Math.abs(getCpiLevel('us', year, 7) / getAnnualCpi('us', year) - Math.pow(growth, 0.5 / 12)) < 1e-9);
+  });
+
+  test('years past either end are extrapolated at the average inflation rate', () => {
+    const years = getCpiYears('us');
+    const first = years[0];
+    const last = years[years.length - 1];
+    const average = Math.pow(getAnnualCpi('us', last) / getAnnualCpi('us', first), 1 / (last - first));
+    assert.ok(Math.abs(getAnnualCpi('us', last + 2) / getAnnualCpi('us', last) - average * average) < 1e-9);
+    assert.ok(getAnnualCpi('us', first - 1) < getAnnualCpi('us', first));
+    assert.throws(() => getAnnualCpi('nowhere', 2000), /No CPI series/);
+  });
+});
+
+describe('currency returns', () => {
+  test("a year's move lands in its December, from one year-end rate to the next", () => {
+    assert.equal(getCurrencyReturn('USD', 'USD', 2015, 12), 0);
+    for (let month = 1; month < 12; month++) {
+      assert.equal(getCurrencyReturn('GBP', 'USD', 2015, month), 0);
+    }
+    const there = getCurrencyReturn('GBP', 'USD', 2015, 12);
+    assert.notEqual(there, 0);
+    assert.ok(Math.abs((1 + there) * (1 + getCurrencyReturn('USD', 'GBP', 2015, 12)) - 1) < 1e-12);
+  });
+
+  test('cross rates go through US dollars and are flat past the series', () => {
+    const cross = getCurrencyReturn('GBP', 'JPY', 2015, 12);
+    const viaDollars = (1 + getCurrencyReturn('GBP', 'USD', 2015, 12)) * (1 + getCurrencyReturn('USD', 'JPY', 2015, 12)) - 1;
+    assert.ok(Math.abs(cross - viaDollars) < 1e-12);
+    assert.equal(getCurrencyReturn('GBP', 'USD', 2100, 12), 0);
+  });
+
+  test('amounts convert at the previous year-end rate, through US dollars and back again', () => {
+    assert.equal(convertAmount(100, 'GBP', 'GBP', 2015), 100);
+    const dollars = convertAmount(100, 'GBP', 'USD', 2015);
+    assert.ok(dollars > 100);
+    assert.ok(Math.abs(convertAmount(dollars, 'USD', 'GBP', 2015) - 100) < 1e-9);
+    const yen = convertAmount(100, 'GBP', 'JPY', 2015);
+    assert.ok(Math.abs(yen - convertAmount(dollars, 'USD', 'JPY', 2015)) < 1e-6);
+    const nextYear = convertAmount(100, 'GBP', 'USD', 2016);
+    assert.ok(Math.abs(nextYear / dollars - 1 - getCurrencyReturn('GBP', 'USD', 2015, 12)) < 1e-12);
+  });
+});
+
+describe('asset classes', () => {
+  test('the catalog covers bonds, cash and alternatives alongside equities', () => {
+    const listed = listMarketIndices();
+    assert.ok(listed.every(index => index.category && MARKET_INDEX_CATEGORIES.includes(index.category)));
+    ['equity', 'bond', 'cash', 'alternative'].forEach(category =>
+      assert.ok(listed.some(index => index.category === category), category));
+    assert.equal(MARKET_INDICES.tbills.category, 'cash');
+    assert.equal(MARKET_INDICES.gold.category, 'alternative');
+  });
+
+  test('an index with a shorter history falls back to its average before it starts', () => {
+    const firstYear = Math.min(...Object.keys(getAnnualReturns('tips')).map(year => parseInt(year)));
+    assert.equal(firstYear, 1998);
+    assert.equal(getAnnualReturn('tips', 1995), MARKET_INDICES.tips.averageReturn);
+  });
+});
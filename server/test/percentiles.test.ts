@@ -0,0 +1,13 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { percentileValues } from '../src/percentiles';
+
+describe('percentileValues', () => {
+  test('interpolates between the closest ranks of unsorted values', () => {
+    assert.deepEqual(percentileValues([5, 3, 1, 4, 2]), { p5: 1.2, p25: 2, p50: 3, p75: 4, p95: 4.8 });
+  });
+
+  test('rounds to cents and handles a single value', () => {
+    assert.deepEqual(percentileValues(Float64Array.from([1.23456])), { p5: 1.23, p25: 1.23, p50: 1.23, p75: 1.23, p95: 1.23 });
+  });
+});
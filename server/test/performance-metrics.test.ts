@@ -0,0 +1,45 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { annualizeGrowth, xirr } from '../src/performance-metrics';
+import { calculateCompoundInterestWithDates } from '../src/compound-engine';
+import { loadBuiltInMarketData } from './helpers';
+
+before(loadBuiltInMarketData);
+
+describe('xirr', () => {
+  test('matches the spreadsheet day-count basis', () => {
+    const rate = xirr([{ date: '2020-01-01', amount: -1000 }, { date: '2021-01-01', amount: 1100 }]) as number;
+    assert.ok(Math.abs(rate - (Math.pow(1.1, 365 / 366) - 1)) < 1e-6);
+  });
+
+  test('weighs each flow by how long it was invested', () => {
+    const rate = xirr([
+      { date: '2019-01-01', amount: -1000 },
+      { date: '2020-01-01', amount: -1000 },
+      { date: '2021-01-01', amount: 2300 }
+    ]) as number;
+    assert.ok(rate > 0.09 && rate < 0.11);
+  });
+
+  test('is null without money both in and out, or without time between them', () => {
+    assert.equal(xirr([{ date: '2020-01-01', amount: -1000 }]), null);
+    assert.equal(xirr([{ date: '2020-01-01', amount: -1000 }, { date: '2020-01-01', amount: 1000 }]), null);
+  });
+});
+
+describe('annualizeGrowth', () => {
+  test('annualizes spans of a year or more and leaves shorter ones as they are', () => {
+    assert.ok(Math.abs(annualizeGrowth(1.21, '2020-01-01', '2021-12-31') - 0.1) < 0.001);
+    assert.ok(Math.abs(annualizeGrowth(1.05, '2020-01-01', '2020-07-01') - 0.05) < 1e-12);
+  });
+});
+
+describe('calculation summary', () => {
+  test('reports money- and time-weighted returns that agree for a single deposit', () => {
+    const { summary } = calculateCompoundInterestWithDates(
+      0, [{ date: '2010-01-01', amount: 10000, type: 'deposit' }], '2010-01-01', '2019-12-31', true, 'sp500'
+    );
+    assert.equal(typeof summary.moneyWeightedReturn, 'number');
+    assert.ok(Math.abs((summary.moneyWeightedReturn as number) - (summary.annualizedTimeWeightedReturn as number)) < 0.1);
+  });
+});
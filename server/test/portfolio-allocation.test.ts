@@ -0,0 +1,68 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  currentWeights,
+  isRebalanceDue,
+  splitDeposit,
+  splitWithdrawal,
+  validateAllocation,
+  validateRebalancing
+} from '../src/portfolio-allocation';
+import { calculateCompoundInterestWithDates } from '../src/compound-engine';
+import { loadBuiltInMarketData } from './helpers';
+
+before(loadBuiltInMarketData);
+
+describe('validateAllocation', () => {
+  test('accepts weights over known indices that sum to 1', () => {
+    assert.equal(validateAllocation({ sp500: 0.6, nasdaq: 0.4 }), null);
+  });
+
+  test('rejects unusable allocations', () => {
+    assert.equal(validateAllocation([]), 'Allocation must map market indices to weights');
+    assert.equal(validateAllocation({}), 'Allocation needs at least one market index');
+    assert.equal(validateAllocation({ nope: 1 }), 'Invalid market index in allocation: nope');
+    assert.match(validateAllocation({ sp500: 1.5, nasdaq: -0.5 }) as string, /between 0 and 1/);
+    assert.equal(validateAllocation({ sp500: 0.6, nasdaq: 0.3 }), 'Allocation weights must sum to 1');
+  });
+
+  test('checks the rebalancing policy and band', () => {
+    assert.equal(validateRebalancing('threshold', 0.1), null);
+    assert.match(validateRebalancing('weekly', undefined) as string, /Rebalancing must be one of/);
+    assert.match(validateRebalancing(undefined, 1) as string, /band/);
+  });
+});
+
+describe('cash flows and rebalancing', () => {
+  test('deposits follow the targets and withdrawals the current values', () => {
+    assert.deepEqual(splitDeposit(1000, [0.6, 0.4]), [600, 400]);
+    assert.deepEqual(splitWithdrawal(100, [300, 100]), [75, 25]);
+    assert.deepEqual(splitWithdrawal(100, [0, 0]), [0, 0]);
+    assert.deepEqual(currentWeights([300, 100]), [0.75, 0.25]);
+  });
+
+  test('each policy is due at its own month ends', () => {
+    const targets = [0.5, 0.5];
+    assert.equal(isRebalanceDue('quarterly', 6, [1, 1], targets, 0.05), true);
+    assert.equal(isRebalanceDue('quarterly', 5, [1, 1], targets, 0.05), false);
+    assert.equal(isRebalanceDue('annual', 12, [1, 1], targets, 0.05), true);
+    assert.equal(isRebalanceDue('none', 12, [9, 1], targets, 0.05), false);
+    assert.equal(isRebalanceDue('threshold', 5, [56, 44], targets, 0.05), true);
+    assert.equal(isRebalanceDue('threshold', 5, [54, 46], targets, 0.05), false);
+  });
+});
+
+describe('allocated calculations', () => {
+  test('report sleeves that add up to the portfolio and rebalance on schedule', () => {
+    const result = calculateCompoundInterestWithDates(
+      0, [{ date: '2010-01-01', amount: 10000, type: 'deposit' }], '2010-01-01', '2014-12-31', true, 'sp500',
+      { allocation: { sp500: 0.6, nasdaq: 0.4 }, rebalancing: 'annual' }
+    );
+    const breakdown = result.portfolio;
+    assert.ok(breakdown);
+    const sleeveTotal = breakdown.sleeves.reduce((sum, sleeve) => sum + sleeve.finalAmount, 0);
+    assert.ok(Math.abs(sleeveTotal - result.summary.finalAmount) < 0.05);
+    assert.ok(breakdown.rebalancingEvents.length >= 4);
+    assert.ok(breakdown.rebalancingEvents.every(event => event.date.slice(5, 7) === '12'));
+  });
+});
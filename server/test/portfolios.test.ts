@@ -0,0 +1,190 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { openDatabase } from '../src/database';
+import { createAuthStore } from '../src/auth';
+import { MAX_RECURRING_RULES } from '../src/recurring-transactions';
+import {
+  createPortfolioStore,
+  requirePortfolioOwner,
+  validatePortfolio,
+  validatePortfolioRecurringRules,
+  validatePortfolioTransactions,
+  validateScenario
+} from '../src/portfolios';
+import { loadBuiltInMarketData } from './helpers';
+import { mockRequest, mockResponse, runMiddleware } from './http';
+
+before(loadBuiltInMarketData);
+
+async function setup() {
+  const db = openDatabase(':memory:');
+  const auth = createAuthStore(db);
+  const portfolios = createPortfolioStore(db);
+  const ada = await auth.register({ email: 'ada@example.com', password: 'correct horse' });
+  const bob = await auth.register({ email: 'bob@example.com', password: 'battery staple' });
+  assert.ok(ada && bob);
+  return { db, portfolios, ada: ada.user, bob: bob.user };
+}
+
+describe('ownership', () => {
+  test('users only list their own portfolios', async () => {
+    const { portfolios, ada, bob } = await setup();
+    const own = portfolios.create(ada.id, { name: 'Ada ISA' });
+    portfolios.create(bob.id, { name: 'Bob 401k' });
+    assert.deepEqual(portfolios.list(ada.id).map(portfolio => portfolio.id), [own.id]);
+    assert.equal(portfolios.isOwnedBy(own.id, ada.id), true);
+    assert.equal(portfolios.isOwnedBy(own.id, bob.id), false);
+  });
+
+  test('requirePortfolioOwner hides other users\' portfolios behind a 404', async () => {
+    const { portfolios, ada, bob } = await setup();
+    const own = portfolios.create(ada.id, { name: 'Ada ISA' });
+    const middleware = requirePortfolioOwner(portfolios);
+
+    const owner = mockResponse();
+    owner.res.locals.user = ada;
+    assert.equal(runMiddleware(middleware, mockRequest({ params: { id: own.id } }), owner.res), true);
+
+    for (const id of [own.id, 'no-such-portfolio']) {
+      const other = mockResponse();
+      other.res.locals.user = bob;
+      assert.equal(runMiddleware(middleware, mockRequest({ params: { id } }), other.res), false);
+      assert.equal(other.statusCode, 404);
+      assert.deepEqual(other.body, { error: `No portfolio '${id}'` });
+    }
+  });
+});
+
+describe('claimUnowned', () => {
+  test('gives only unowned portfolios to the named account', async () => {
+    const { db, portfolios, ada, bob } = await setup();
+    const owned = portfolios.create(bob.id, { name: 'Bob 401k' });
+    const legacy = portfolios.create(bob.id, { name: 'Saved before accounts' });
+    db.prepare('UPDATE portfolios SET owner_id = NULL WHERE id = ?').run(legacy.id);
+
+    assert.equal(portfolios.claimUnowned(' ADA@example.com'), 1);
+    assert.deepEqual(portfolios.list(ada.id).map(portfolio => portfolio.id), [legacy.id]);
+    assert.equal(portfolios.isOwnedBy(owned.id, bob.id), true);
+    assert.equal(portfolios.claimUnowned('ada@example.com'), 0);
+  });
+
+  test('leaves portfolios unowned when there is no such account', async () => {
+    const { db, portfolios, bob } = await setup();
+    const legacy = portfolios.create(bob.id, { name: 'Saved before accounts' });
+    db.prepare('UPDATE portfolios SET owner_id = NULL WHERE id = ?').run(legacy.id);
+
+    assert.equal(portfolios.claimUnowned('nobody@example.com'), undefined);
+    assert.equal((db.prepare('SELECT owner_id FROM portfolios WHERE id = ?').get(legacy.id) as { owner_id: string | null }).owner_id, null);
+  });
+});
+
+describe('recurring rules', () => {
+  test('are stored with their portfolio, normalized', async () => {
+    const { portfolios, ada } = await setup();
+    const portfolio = portfolios.create(ada.id, { name: 'Ada ISA' });
+    assert.deepEqual(portfolios.listRecurringRules(portfolio.id), []);
+
+    const saved = portfolios.replaceRecurringRules(portfolio.id, [
+      { type: 'deposit', amount: 500.004, frequency: 'monthly', startDate: '2020-01-01T00:00:00Z', annualStepUp: 0.03 },
+      { type: 'withdrawal', amount: 100, frequency: 'annual', startDate: '2021-06-30', endDate: '2025-06-30' }
+    ]);
+    assert.deepEqual(saved, [
+      { type: 'deposit', amount: 500, frequency: 'monthly', startDate: '2020-01-01', annualStepUp: 0.03 },
+      { type: 'withdrawal', amount: 100, frequency: 'annual', startDate: '2021-06-30', endDate: '2025-06-30' }
+    ]);
+    assert.deepEqual(portfolios.listRecurringRules(portfolio.id), saved);
+
+    portfolios.replaceRecurringRules(portfolio.id, []);
+    assert.deepEqual(portfolios.listRecurringRules(portfolio.id), []);
+  });
+
+  test('validatePortfolioRecurringRules keeps amounts in the base currency', () => {
+    const rule = { type: 'deposit', amount: 500, frequency: 'monthly', startDate: '2020-01-01' };
+    assert.equal(validatePortfolioRecurringRules([]), null);
+    assert.equal(validatePortfolioRecurringRules([rule]), null);
+    assert.match(validatePortfolioRecurringRules([rule, { ...rule, currency: 'GBP' }]) as string, /^Recurring transaction 2 can't set a currency/);
+    assert.match(validatePortfolioRecurringRules({ rules: [rule] }) as string, /list of rules/);
+    assert.match(validatePortfolioRecurringRules(new Array(MAX_RECURRING_RULES + 1).fill(rule)) as string, /At most/);
+  });
+});
+
+describe('validation', () => {
+  test('validatePortfolio checks the name and defaults', () => {
+    assert.equal(validatePortfolio({ name: 'ISA', accountType: 'ira', baseCurrency: 'GBP', marketIndex: 'ftse100' }), null);
+    assert.match(validatePortfolio({ name: '' }) as string, /name/);
+    assert.match(validatePortfolio({ name: 'ISA', accountType: 'pension' }) as string, /accountType must be one of/);
+    assert.equal(validatePortfolio({ name: 'ISA', marketIndex: 'nope' }), 'Invalid market index');
+  });
+
+  test('validatePortfolioTransactions takes one transaction or a list', () => {
+    const transaction = { date: '2020-01-01', amount: 100, type: 'deposit' };
+    assert.equal(validatePortfolioTransactions(transaction), null);
+    assert.equal(validatePortfolioTransactions([transaction, transaction]), null);
+    assert.equal(validatePortfolioTransactions([], true), null);
+    assert.match(validatePortfolioTransactions([]) as string, /Send between 1 and/);
+    assert.equal(validatePortfolioTransactions(transaction, true), 'Send the full list of transactions');
+    assert.equal(validatePortfolioTransactions([transaction, { ...transaction, date: '2020-1-1' }]), 'Transaction 2: Transaction date must be a valid YYYY-MM-DD date');
+  });
+
+  test('validateScenario checks its settings as a calculation without transactions', () => {
+    const settings = { startDate: '2010-01-01', endDate: '2019-12-31', marketIndex: 'sp500' };
+    assert.equal(validateScenario({ name: 'Base case', settings }), null);
+    assert.match(validateScenario({ name: 'Base case', settings: { ...settings, transactions: [] } }) as string, /can't hold transactions/);
+    assert.equal(validateScenario({ name: 'Base case', settings: { ...settings, marketIndex: 'nope' } }), 'settings: Invalid market index');
+  });
+});
+
+describe('portfolio store', () => {
+  test('summarizes a portfolio from its transactions and scenarios', async () => {
+    const { portfolios, ada } = await setup();
+    const portfolio = portfolios.create(ada.id, { name: 'ISA', baseCurrency: 'GBP' });
+    assert.equal(portfolio.accountType, 'taxable');
+    assert.equal(portfolio.marketIndex, 'sp500');
+
+    portfolios.addTransactions(portfolio.id, [
+      { date: '2021-03-01', amount: 200, type: 'deposit' },
+      { date: '2020-01-01', amount: 100.005, type: 'deposit', description: '  first  ' }
+    ]);
+    portfolios.createScenario(portfolio.id, { name: 'Base case', settings: { startDate: '2020-01-01' } });
+
+    const summary = portfolios.get(portfolio.id);
+    assert.equal(summary?.transactionCount, 2);
+    assert.equal(summary?.scenarioCount, 1);
+    assert.equal(summary?.firstTransactionDate, '2020-01-01');
+    assert.equal(summary?.lastTransactionDate, '2021-03-01');
+    const [first] = portfolios.listTransactions(portfolio.id);
+    assert.equal(first.amount, 100.01);
+    assert.equal(first.description, 'first');
+  });
+
+  test('replacing the transactions keeps the ids it is given', async () => {
+    const { portfolios, ada } = await setup();
+    const portfolio = portfolios.create(ada.id, { name: 'ISA' });
+    const [kept, dropped] = portfolios.addTransactions(portfolio.id, [
+      { date: '2020-01-01', amount: 100, type: 'deposit' },
+      { date: '2020-02-01', amount: 100, type: 'deposit' }
+    ]);
+
+    const replaced = portfolios.replaceTransactions(portfolio.id, [
+      { id: kept.id, date: '2020-01-15', amount: 150, type: 'deposit' },
+      { date: '2020-03-01', amount: 50, type: 'withdrawal' }
+    ]);
+    assert.equal(replaced[0].id, kept.id);
+    assert.equal(replaced[0].createdAt, kept.createdAt);
+    assert.equal(replaced[0].amount, 150);
+    assert.ok(!replaced.some(transaction => transaction.id === dropped.id));
+  });
+
+  test('deleting a portfolio removes its transactions and scenarios', async () => {
+    const { db, portfolios, ada } = await setup();
+    const portfolio = portfolios.create(ada.id, { name: 'ISA' });
+    portfolios.addTransactions(portfolio.id, [{ date: '2020-01-01', amount: 100, type: 'deposit' }]);
+    portfolios.createScenario(portfolio.id, { name: 'Base case', settings: { startDate: '2020-01-01' } });
+
+    assert.equal(portfolios.remove(portfolio.id), true);
+    assert.equal(portfolios.remove(portfolio.id), false);
+    const count = (table: string) => (db.prepare(`SELECT COUNT(*) AS count FROM ${table}`).get() as { count: number }).count;
+    assert.equal(count('transactions'), 0);
+    assert.equal(count('scenarios'), 0);
+  });
+});
@@ -0,0 +1,68 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  MAX_RECURRING_OCCURRENCES,
+  MAX_RECURRING_RULES,
+  expandRecurringTransactions,
+  validateRecurringTransactions
+} from '../src/recurring-transactions';
+import { loadBuiltInMarketData } from './helpers';
+
+before(loadBuiltInMarketData);
+
+const rule = { type: 'deposit' as const, amount: 100, frequency: 'monthly' as const, startDate: '2020-01-31' };
+
+describe('validateRecurringTransactions', () => {
+  test('accepts well-formed rules', () => {
+    assert.equal(validateRecurringTransactions([]), null);
+    assert.equal(validateRecurringTransactions([rule, { ...rule, frequency: 'biweekly', annualStepUp: 0.03 }]), null);
+  });
+
+  test('names the rule that is wrong', () => {
+    assert.equal(validateRecurringTransactions({}), 'Recurring transactions must be a list of rules');
+    assert.equal(validateRecurringTransactions([rule, { ...rule, amount: 0 }]), 'Recurring transaction 2 amount must be a positive number');
+    assert.match(validateRecurringTransactions([{ ...rule, frequency: 'daily' }]) as string, /frequency must be one of weekly, biweekly, monthly/);
+    assert.match(validateRecurringTransactions([{ ...rule, endDate: '2019-12-31' }]) as string, /endDate/);
+  });
+
+  test('caps the rules and the occurrences they expand into', () => {
+    assert.match(validateRecurringTransactions(Array(MAX_RECURRING_RULES + 1).fill(rule)) as string, /At most/);
+
+    // 500 weekly occurrences each, exactly the cap over every rule
+    const weekly = { ...rule, frequency: 'weekly' as const, startDate: '2000-01-01', endDate: '2009-07-25' };
+    const rules = Array(MAX_RECURRING_OCCURRENCES / 500).fill(weekly);
+    assert.equal(expandRecurringTransactions([weekly], '2020-12-31').length, 500);
+    assert.equal(validateRecurringTransactions(rules, '2020-12-31'), null);
+    assert.match(validateRecurringTransactions([...rules.slice(1), { ...weekly, endDate: '2009-08-01' }], '2020-12-31') as string, /more than/);
+    // Counting stops at the calculation's end, like the expansion does
+    assert.equal(validateRecurringTransactions([...rules.slice(1), { ...weekly, endDate: '2009-08-01' }], '2009-07-31'), null);
+    assert.equal(validateRecurringTransactions([{ ...rule, startDate: '1900-01-31', frequency: 'monthly' }], '2020-12-31'), null);
+  });
+});
+
+describe('expandRecurringTransactions', () => {
+  test('counts month-end dates from the start so they do not drift', () => {
+    const dates = expandRecurringTransactions([rule], '2020-04-30').map(occurrence => occurrence.date);
+    assert.deepEqual(dates, ['2020-01-31', '2020-02-29', '2020-03-31', '2020-04-30']);
+  });
+
+  test('steps weekly rules by days and stops at the rule or overall end', () => {
+    const occurrences = expandRecurringTransactions([
+      { ...rule, frequency: 'weekly', startDate: '2020-01-01', endDate: '2020-01-20' },
+      { ...rule, frequency: 'quarterly', startDate: '2020-01-01', type: 'withdrawal' }
+    ], '2020-12-31');
+    assert.deepEqual(occurrences.filter(o => o.rule === 0).map(o => o.date), ['2020-01-01', '2020-01-08', '2020-01-15']);
+    assert.deepEqual(occurrences.filter(o => o.rule === 1).map(o => o.date), ['2020-01-01', '2020-04-01', '2020-07-01', '2020-10-01']);
+    assert.ok(occurrences.filter(o => o.rule === 1).every(o => o.type === 'withdrawal'));
+  });
+
+  test('steps the amount up on each anniversary of the start', () => {
+    const amounts = expandRecurringTransactions([{ ...rule, frequency: 'quarterly', startDate: '2020-03-15', annualStepUp: 0.1 }], '2022-03-15')
+      .map(occurrence => [occurrence.date, occurrence.amount]);
+    assert.deepEqual(amounts, [
+      ['2020-03-15', 100], ['2020-06-15', 100], ['2020-09-15', 100], ['2020-12-15', 100],
+      ['2021-03-15', 110], ['2021-06-15', 110], ['2021-09-15', 110], ['2021-12-15', 110],
+      ['2022-03-15', 121]
+    ]);
+  });
+});
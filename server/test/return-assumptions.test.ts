@@ -0,0 +1,61 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getAssumedAnnualReturn, validateReturnAssumption } from '../src/return-assumptions';
+import { calculateCompoundInterestWithDates } from '../src/compound-engine';
+import { MARKET_INDICES } from '../src/market-data';
+import { loadBuiltInMarketData } from './helpers';
+
+before(loadBuiltInMarketData);
+
+describe('validateReturnAssumption', () => {
+  test('accepts each kind of assumption', () => {
+    assert.equal(validateReturnAssumption({ annualRate: 0.05 }), null);
+    assert.equal(validateReturnAssumption({ yearlyRates: { 2020: -0.2, 2021: 0.1 } }), null);
+    assert.equal(validateReturnAssumption({ schedule: [{ rate: 0.07, throughYear: 2030 }, { rate: 0.04 }] }), null);
+  });
+
+  test('rejects unusable assumptions', () => {
+    assert.equal(validateReturnAssumption(null), 'Return assumption must be an object');
+    assert.match(validateReturnAssumption({}) as string, /needs an annualRate/);
+    assert.match(validateReturnAssumption({ annualRate: -1 }) as string, /annualRate/);
+    assert.equal(validateReturnAssumption({ yearlyRates: { 20: 0.1 } }), 'Invalid yearlyRates entry for 20');
+    assert.match(validateReturnAssumption({ schedule: [] }) as string, /non-empty/);
+    assert.match(validateReturnAssumption({ schedule: [{ rate: 0.05 }, { rate: 0.04 }] }) as string, /only the last segment/);
+    assert.match(validateReturnAssumption({ schedule: [{ rate: 0.05, throughYear: 2030 }, { rate: 0.04, throughYear: 2025 }] }) as string, /increasing/);
+  });
+});
+
+describe('getAssumedAnnualReturn', () => {
+  const assumption = {
+    annualRate: 0.03,
+    yearlyRates: { 2022: -0.1 },
+    schedule: [{ rate: 0.08, throughYear: 2025 }]
+  };
+
+  test('yearlyRates win over the schedule, which wins over annualRate', () => {
+    assert.equal(getAssumedAnnualReturn(assumption, 2022, 0.1), -0.1);
+    assert.equal(getAssumedAnnualReturn(assumption, 2023, 0.1), 0.08);
+    assert.equal(getAssumedAnnualReturn(assumption, 2026, 0.1), 0.03);
+  });
+
+  test('falls back to the supplied rate when nothing covers the year', () => {
+    assert.equal(getAssumedAnnualReturn({ yearlyRates: { 2022: 0.2 } }, 2023, 0.1), 0.1);
+  });
+});
+
+describe('calculations without historical data', () => {
+  const deposits = [{ date: '2000-01-01', amount: 10000, type: 'deposit' as const }];
+
+  test('grow at the assumed rate rather than the index history', () => {
+    const result = calculateCompoundInterestWithDates(0, deposits, '2000-01-01', '2009-12-31', false, 'sp500', {
+      returnAssumption: { annualRate: 0.05 }
+    });
+    assert.deepEqual(result.summary.returnAssumption, { annualRate: 0.05 });
+    assert.ok(Math.abs(result.summary.finalAmount / (10000 * Math.pow(1.05, 10)) - 1) < 0.01);
+  });
+
+  test('default to the index average when no assumption is given', () => {
+    const result = calculateCompoundInterestWithDates(0, deposits, '2000-01-01', '2009-12-31', false, 'sp500');
+    assert.deepEqual(result.summary.returnAssumption, { annualRate: MARKET_INDICES.sp500.averageReturn });
+  });
+});
@@ -0,0 +1,58 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateBenchmarkComparison, calculateRiskMetrics } from '../src/risk-metrics';
+import { calculateCompoundInterestWithDates } from '../src/compound-engine';
+import { loadBuiltInMarketData } from './helpers';
+
+before(loadBuiltInMarketData);
+
+const months = (returns: number[]) => returns.map((periodReturn, i) => ({ date: `2020-${String(i + 1).padStart(2, '0')}-01`, periodReturn }));
+
+describe('calculateRiskMetrics', () => {
+  test('finds the deepest drawdown, its peak, trough and recovery', () => {
+    const metrics = calculateRiskMetrics('2019-12-01', months([0.1, -0.5, 0.5, 0.5]));
+    assert.deepEqual(metrics.maxDrawdown, { drawdown: -50, peakDate: '2020-01-01', troughDate: '2020-02-01', recoveryDate: '2020-04-01' });
+    assert.deepEqual(metrics.drawdownSeries.map(point => point.drawdown), [0, -50, -25, 0]);
+  });
+
+  test('leaves recovery null while still under water, and has no drawdown for steady gains', () => {
+    assert.equal(calculateRiskMetrics('2019-12-01', months([0.1, -0.2])).maxDrawdown?.recoveryDate, null);
+    const steady = calculateRiskMetrics('2019-12-01', months([0.01, 0.01, 0.01]));
+    assert.equal(steady.maxDrawdown, null);
+    assert.equal(steady.annualizedVolatility, 0);
+    assert.equal(steady.sharpeRatio, null);
+  });
+
+  test('annualizes volatility from monthly returns', () => {
+    const metrics = calculateRiskMetrics('2019-12-01', months([0.02, -0.02, 0.02, -0.02]), 0);
+    const monthly = Math.sqrt((4 * 0.02 * 0.02) / 3);
+    assert.equal(metrics.annualizedVolatility, Math.round(monthly * Math.sqrt(12) * 10000) / 100);
+    assert.equal(metrics.riskFreeRate, 0);
+  });
+});
+
+describe('calculateBenchmarkComparison', () => {
+  test('has no tracking error against itself', () => {
+    const comparison = calculateBenchmarkComparison('sp500', 'S&P 500', months([0.01, -0.02, 0.03]), [0.01, -0.02, 0.03]);
+    assert.equal(comparison.excessReturn, 0);
+    assert.equal(comparison.trackingError, 0);
+    assert.equal(comparison.informationRatio, null);
+  });
+
+  test('reports the return over the benchmark', () => {
+    const comparison = calculateBenchmarkComparison('sp500', 'S&P 500', months([0.02, 0.02]), [0.01, 0.01]);
+    assert.equal(comparison.months, 2);
+    assert.ok(comparison.excessReturn > 0);
+  });
+});
+
+describe('calculations', () => {
+  test('include risk metrics and, when asked, a benchmark comparison', () => {
+    const result = calculateCompoundInterestWithDates(
+      0, [{ date: '2007-01-01', amount: 10000, type: 'deposit' }], '2007-01-01', '2012-12-31', true, 'sp500', { benchmark: 'nasdaq' }
+    );
+    assert.ok((result.risk?.maxDrawdown?.drawdown as number) < -30);
+    assert.equal(result.benchmark?.benchmark, 'nasdaq');
+    assert.equal(result.benchmark?.months, result.risk?.drawdownSeries.length);
+  });
+});
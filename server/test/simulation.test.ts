@@ -0,0 +1,78 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRandom } from '../src/random';
+import { MAX_SIMULATION_PATHS, runSimulation, validateSimulationRequest } from '../src/simulation';
+import { loadBuiltInMarketData } from './helpers';
+
+before(loadBuiltInMarketData);
+
+const request = { currentValue: 10000, horizonYears: 5, paths: 200, seed: 42, startDate: '2025-01-01' };
+
+describe('createRandom', () => {
+  test('repeats the same sequence for the same seed', () => {
+    const a = createRandom(7);
+    const b = createRandom(7);
+    const draws = Array.from({ length: 5 }, () => a.next());
+    assert.deepEqual(Array.from({ length: 5 }, () => b.next()), draws);
+    assert.ok(draws.every(draw => draw >= 0 && draw < 1));
+    assert.notEqual(createRandom(8).next(), draws[0]);
+  });
+
+  test('draws standard normals and integers in range', () => {
+    const random = createRandom(1);
+    const normals = Array.from({ length: 20000 }, () => random.normal());
+    const mean = normals.reduce((sum, value) => sum + value, 0) / normals.length;
+    const variance = normals.reduce((sum, value) => sum + (value - mean) * (value - mean), 0) / normals.length;
+    assert.ok(Math.abs(mean) < 0.05);
+    assert.ok(Math.abs(variance - 1) < 0.05);
+    assert.ok(Array.from({ length: 100 }, () => random.integer(3)).every(value => value >= 0 && value < 3));
+  });
+});
+
+describe('validateSimulationRequest', () => {
+  test('accepts a request within the limits', () => {
+    assert.equal(validateSimulationRequest(request), null);
+    assert.equal(validateSimulationRequest({ ...request, model: 'bootstrap', blockSize: 6 }), null);
+  });
+
+  test('rejects unusable fields', () => {
+    assert.match(validateSimulationRequest({ ...request, currentValue: -1 }) as string, /currentValue/);
+    assert.match(validateSimulationRequest({ ...request, horizonYears: 0 }) as string, /horizonYears/);
+    assert.match(validateSimulationRequest({ ...request, paths: MAX_SIMULATION_PATHS + 1 }) as string, /paths/);
+    assert.match(validateSimulationRequest({ ...request, model: 'bootstrap', mean: 0.05 }) as string, /normal and lognormal/);
+    assert.match(validateSimulationRequest({ ...request, contributionPlan: { amount: 100, frequency: 'weekly' } }) as string, /frequency/);
+  });
+});
+
+describe('runSimulation', () => {
+  test('is reproducible from its seed', () => {
+    assert.deepEqual(runSimulation(request), runSimulation(request));
+    assert.equal(runSimulation(request).seed, 42);
+  });
+
+  test('produces ordered percentile bands for every month', () => {
+    const result = runSimulation({ ...request, model: 'bootstrap' });
+    assert.equal(result.percentiles.length, 60);
+    assert.equal(result.percentiles[0].date, '2025-01-01');
+    assert.equal(result.blockSize, 12);
+    result.percentiles.forEach(point => assert.ok(point.p5 <= point.p25 && point.p25 <= point.p50 && point.p50 <= point.p75 && point.p75 <= point.p95));
+  });
+
+  test('without volatility every path grows at the mean', () => {
+    const result = runSimulation({ ...request, model: 'normal', mean: 0.06, volatility: 0 });
+    assert.ok(Math.abs(result.finalValue.p50 - 10000 * Math.pow(1.06, 5)) < 0.01);
+    assert.equal(result.finalValue.p5, result.finalValue.p95);
+  });
+
+  test('counts planned contributions and paths reaching the target', () => {
+    const result = runSimulation({
+      ...request,
+      contributionPlan: { amount: 300, frequency: 'quarterly' },
+      mean: 0,
+      volatility: 0,
+      targetValue: 16000
+    });
+    assert.equal(result.plannedNetContributions, 6000);
+    assert.equal(result.probabilityOfReachingTarget, 100);
+  });
+});
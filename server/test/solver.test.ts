@@ -0,0 +1,94 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { solve, validateSolveRequest } from '../src/solver';
+import { MAX_RECURRING_RULES } from '../src/recurring-transactions';
+import { loadBuiltInMarketData } from './helpers';
+
+before(loadBuiltInMarketData);
+
+const flat = { useHistoricalData: false, returnAssumption: { annualRate: 0 } };
+
+describe('validateSolveRequest', () => {
+  const request = { solveFor: 'contribution', targetValue: 100000, startDate: '2020-01-01', endDate: '2030-01-01' };
+
+  test('accepts each kind of solve', () => {
+    assert.equal(validateSolveRequest(request), null);
+    assert.equal(validateSolveRequest({ ...request, solveFor: 'targetDate', endDate: undefined }), null);
+  });
+
+  test('rejects unusable requests', () => {
+    assert.match(validateSolveRequest({ ...request, solveFor: 'years' }) as string, /solveFor must be one of/);
+    assert.equal(validateSolveRequest({ ...request, endDate: '2019-01-01' }), 'End date must be after start date');
+    assert.equal(validateSolveRequest({ ...request, contributionPlan: { type: 'withdrawal' } }), 'Solving for the contribution needs a deposit plan');
+    assert.match(validateSolveRequest({ ...request, solveFor: 'annualReturn', contributionPlan: {} }) as string, /contributionPlan.amount/);
+    assert.match(validateSolveRequest({ ...request, contributionStartDate: '2019-06-01' }) as string, /contributionStartDate/);
+  });
+
+  test('rejects recurring rules that expand past the cap up to the last date solved for', () => {
+    const weekly = { type: 'deposit', amount: 100, frequency: 'weekly', startDate: '2020-01-01' };
+    // 10 years of weekly rules fit, but a target date is searched for up to the simulation horizon
+    const rules = Array(MAX_RECURRING_RULES / 2).fill(weekly);
+    assert.equal(validateSolveRequest({ ...request, recurringTransactions: rules }), null);
+    assert.match(validateSolveRequest({ ...request, solveFor: 'targetDate', endDate: undefined, recurringTransactions: rules }) as string, /more than/);
+  });
+
+  test('rejects an unknown reporting currency', () => {
+    assert.equal(validateSolveRequest({ ...request, reportingCurrency: 'GBP' }), null);
+    assert.match(validateSolveRequest({ ...request, reportingCurrency: 'XYZ' }) as string, /Reporting currency must be one of/);
+    assert.match(validateSolveRequest({ ...request, transactions: [{ date: '2020-01-01', amount: 100, type: 'deposit', currency: 'XYZ' }] }) as string, /Transaction currency/);
+  });
+});
+
+describe('solve', () => {
+  test('runs and reports in the reporting currency, defaulting to the index currency', () => {
+    const request = { solveFor: 'contribution' as const, targetValue: 100000, startDate: '2010-01-01', endDate: '2019-12-31' };
+    const inDollars = solve(request);
+    const inPounds = solve({ ...request, reportingCurrency: 'GBP' });
+    assert.equal(inDollars.reportingCurrency, 'USD');
+    assert.equal(inPounds.reportingCurrency, 'GBP');
+    // The pound fell against the dollar over the decade, lifting S&P 500 returns measured in pounds
+    assert.ok((inPounds.contributionAmount as number) < (inDollars.contributionAmount as number));
+  });
+
+  test('converts transactions in another currency into the reporting currency', () => {
+    const request = { solveFor: 'contribution' as const, targetValue: 100000, startDate: '2010-01-01', endDate: '2019-12-31', ...flat };
+    const deposit = { date: '2010-01-01', amount: 10000, type: 'deposit' as const };
+    const inDollars = solve({ ...request, transactions: [deposit] });
+    const inPounds = solve({ ...request, transactions: [{ ...deposit, currency: 'GBP' }] });
+    // A pound bought more than a dollar, so less is left to contribute
+    assert.ok((inPounds.contributionAmount as number) < (inDollars.contributionAmount as number));
+  });
+
+  test('finds the monthly contribution that reaches the target', () => {
+    const result = solve({ solveFor: 'contribution', targetValue: 12000, startDate: '2020-01-01', endDate: '2020-12-31', ...flat });
+    assert.equal(result.reachable, true);
+    assert.equal(result.contributionFrequency, 'monthly');
+    assert.ok(Math.abs((result.contributionAmount as number) - 1000) <= 0.01);
+    assert.ok(result.achievedValue >= 12000);
+  });
+
+  test('finds the constant annual return that reaches the target', () => {
+    const result = solve({ solveFor: 'annualReturn', targetValue: 20000, initialAmount: 10000, startDate: '2010-01-01', endDate: '2019-12-31' });
+    assert.ok(Math.abs((result.annualReturn as number) - 7.18) < 0.1);
+    assert.ok(result.iterations > 1);
+  });
+
+  test('finds the first month end at or above the target', () => {
+    const result = solve({
+      solveFor: 'targetDate',
+      targetValue: 20000,
+      initialAmount: 10000,
+      startDate: '2020-01-01',
+      useHistoricalData: false,
+      returnAssumption: { annualRate: 0.1 }
+    });
+    assert.equal(result.reachable, true);
+    assert.match(result.targetDate as string, /^2027-/);
+  });
+
+  test('reports a target beyond the search limits as unreachable', () => {
+    const result = solve({ solveFor: 'annualReturn', targetValue: 1e12, initialAmount: 1000, startDate: '2020-01-01', endDate: '2020-12-31' });
+    assert.equal(result.reachable, false);
+    assert.ok(result.achievedValue < 1e12);
+  });
+});
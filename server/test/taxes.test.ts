@@ -0,0 +1,70 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createTaxLedger, validateTaxProfile } from '../src/taxes';
+import { calculateCompoundInterestWithDates } from '../src/compound-engine';
+import { loadBuiltInMarketData } from './helpers';
+
+before(loadBuiltInMarketData);
+
+const profile = { shortTermRate: 0.3, longTermRate: 0.15 };
+
+const close = (actual: number, expected: number) => assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} != ${expected}`);
+
+describe('validateTaxProfile', () => {
+  test('accepts decimal rates and rejects anything else', () => {
+    assert.equal(validateTaxProfile(profile), null);
+    assert.equal(validateTaxProfile('0.2'), 'Tax profile must be an object');
+    assert.equal(validateTaxProfile({ dividendTaxDrag: 1 }), 'dividendTaxDrag must be a decimal between 0 and 1');
+  });
+});
+
+describe('createTaxLedger', () => {
+  test('sells at average cost and taxes lots held under a year as short term', () => {
+    const ledger = createTaxLedger(profile);
+    ledger.addBasis('2020-01-01', 1000);
+    ledger.realize('2020-06-01', 500, 2000);
+    close(ledger.totalBasis(), 750);
+    const taxes = ledger.settleYear();
+    close(taxes.realizedGains, 250);
+    close(taxes.capitalGainsTax, 75);
+  });
+
+  test('taxes lots held over a year as long term', () => {
+    const ledger = createTaxLedger(profile);
+    ledger.addBasis('2018-01-01', 1000);
+    close(ledger.liquidationTax('2020-01-01', 2000), 150);
+    ledger.realize('2020-01-01', 2000, 2000);
+    close(ledger.settleYear().capitalGainsTax, 150);
+  });
+
+  test('carries a net loss forward against later gains', () => {
+    const ledger = createTaxLedger(profile);
+    ledger.addBasis('2020-01-01', 1000);
+    ledger.realize('2020-06-01', 500, 500);
+    close(ledger.settleYear().capitalGainsTax, 0);
+
+    ledger.addBasis('2021-01-01', 1000);
+    ledger.realize('2021-06-01', 1600, 1600);
+    close(ledger.settleYear().capitalGainsTax, 30);
+  });
+
+  test('taxes short-term gains as ordinary income when no short-term rate is given', () => {
+    const ledger = createTaxLedger({ ordinaryIncomeRate: 0.4 });
+    ledger.addBasis('2020-01-01', 1000);
+    ledger.realize('2020-06-01', 1500, 1500, 100);
+    close(ledger.settleYear().capitalGainsTax, 160);
+  });
+});
+
+describe('calculations with taxes', () => {
+  test('report the tax due on selling everything at the end', () => {
+    const { summary } = calculateCompoundInterestWithDates(
+      0, [{ date: '2010-01-01', amount: 10000, type: 'deposit' }], '2010-01-01', '2019-12-31', true, 'sp500',
+      { taxProfile: { ...profile, dividendTaxDrag: 0.003 } }
+    );
+    assert.ok(summary.taxes);
+    assert.ok(summary.taxes.dividendTax > 0);
+    assert.ok(summary.taxes.liquidationTax > 0);
+    assert.ok(Math.abs((summary.afterTaxFinalValue as number) - (summary.finalAmount - summary.taxes.liquidationTax)) < 0.05);
+  });
+});
@@ -0,0 +1,64 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { addDays, getMarketHolidays, getTradingDays, isTradingDay, shiftDate } from '../src/trading-calendar';
+import { calculateCompoundInterestWithDates } from '../src/compound-engine';
+import { loadBuiltInMarketData } from './helpers';
+
+before(loadBuiltInMarketData);
+
+describe('date arithmetic', () => {
+  test('shiftDate clamps the day to the target month', () => {
+    assert.equal(shiftDate('2024-01-31', 1), '2024-02-29');
+    assert.equal(shiftDate('2023-12-15', 2), '2024-02-15');
+    assert.equal(shiftDate('2024-03-31', -13), '2023-02-28');
+  });
+
+  test('addDays crosses month and year ends', () => {
+    assert.equal(addDays('2023-12-31', 1), '2024-01-01');
+    assert.equal(addDays('2024-03-01', -1), '2024-02-29');
+  });
+});
+
+describe('market holidays', () => {
+  test('include the NYSE holidays of a year', () => {
+    assert.deepEqual([...getMarketHolidays(2024)].sort(), [
+      '2024-01-01', '2024-01-15', '2024-02-19', '2024-03-29', '2024-05-27',
+      '2024-06-19', '2024-07-04', '2024-09-02', '2024-11-28', '2024-12-25'
+    ]);
+  });
+
+  test('move weekend holidays to the nearest weekday, except a Saturday New Year', () => {
+    const holidays = getMarketHolidays(2022);
+    assert.ok(holidays.has('2022-06-20'));
+    assert.ok(holidays.has('2022-12-26'));
+    assert.ok(!holidays.has('2022-01-01') && !getMarketHolidays(2021).has('2021-12-31'));
+    assert.ok(!getMarketHolidays(2021).has('2021-06-18'));
+  });
+
+  test('trading days skip weekends and holidays', () => {
+    assert.equal(isTradingDay(2024, 7, 4), false);
+    assert.equal(isTradingDay(2024, 7, 6), false);
+    assert.equal(isTradingDay(2024, 7, 5), true);
+    const yearDays = Array.from({ length: 12 }, (_, i) => getTradingDays(2024, i + 1).length).reduce((a, b) => a + b, 0);
+    assert.equal(yearDays, 252);
+  });
+});
+
+describe('daily granularity', () => {
+  const run = (date: string) => calculateCompoundInterestWithDates(
+    0, [{ date, amount: 10000, type: 'deposit' }], '2021-01-01', '2021-12-31', true, 'sp500', { granularity: 'daily' }
+  );
+
+  test('produces a point per trading day', () => {
+    const result = run('2021-01-04');
+    assert.equal(result.summary.granularity, 'daily');
+    const dates = (result.dailyData || []).map(point => point.date);
+    assert.ok(dates.every(date => isTradingDay(parseInt(date.slice(0, 4)), parseInt(date.slice(5, 7)), parseInt(date.slice(8, 10)))));
+  });
+
+  test('a deposit part way through a month only earns from its own date', () => {
+    const early = run('2021-03-01').summary.finalAmount;
+    const late = run('2021-03-25').summary.finalAmount;
+    assert.notEqual(early, late);
+  });
+});
@@ -0,0 +1,84 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createWithdrawalPlanner, validateDecumulationPlan } from '../src/withdrawal-strategies';
+import { calculateCompoundInterestWithDates } from '../src/compound-engine';
+import { loadBuiltInMarketData } from './helpers';
+
+before(loadBuiltInMarketData);
+
+const year = (portfolioValue: number, inflation = 0, priorYearReturn = 0, remainingYears = 30) =>
+  ({ portfolioValue, inflation, priorYearReturn, remainingYears });
+
+const close = (actual: number, expected: number) => assert.ok(Math.abs(actual - expected) < 1e-6, `${actual} != ${expected}`);
+
+describe('validateDecumulationPlan', () => {
+  test('accepts a plan inside the investment period', () => {
+    assert.equal(validateDecumulationPlan({ strategy: 'guytonKlinger', startDate: '2010-01-01', guardrail: 0.25 }, '2000-01-01', '2020-12-31'), null);
+  });
+
+  test('rejects unusable plans', () => {
+    assert.match(validateDecumulationPlan({ strategy: 'bucket' }, '2000-01-01', '2020-12-31') as string, /Withdrawal strategy must be one of/);
+    assert.match(validateDecumulationPlan({ strategy: 'constantPercentage', withdrawalRate: 0 }, '2000-01-01', '2020-12-31') as string, /withdrawalRate/);
+    assert.equal(
+      validateDecumulationPlan({ strategy: 'constantPercentage', startDate: '2021-01-01' }, '2000-01-01', '2020-12-31'),
+      'Decumulation startDate must fall inside the investment period'
+    );
+    assert.match(validateDecumulationPlan({ strategy: 'variablePercentage', expectedReturn: -1 }, '2000-01-01', '2020-12-31') as string, /expectedReturn/);
+  });
+});
+
+describe('createWithdrawalPlanner', () => {
+  test('constant inflation-adjusted withdrawals rise with prices', () => {
+    const planner = createWithdrawalPlanner({ strategy: 'constantInflationAdjusted' });
+    close(planner.nextYear(year(1000000)), 40000);
+    close(planner.nextYear(year(500000, 0.03)), 41200);
+  });
+
+  test('constant percentage withdrawals follow the portfolio', () => {
+    const planner = createWithdrawalPlanner({ strategy: 'constantPercentage', withdrawalRate: 0.05 });
+    close(planner.nextYear(year(1000000)), 50000);
+    close(planner.nextYear(year(800000)), 40000);
+  });
+
+  test('variable percentage withdrawals spend the portfolio down over the years left', () => {
+    const planner = createWithdrawalPlanner({ strategy: 'variablePercentage', expectedReturn: 0 });
+    close(planner.nextYear(year(100000, 0, 0, 4)), 25000);
+    close(planner.nextYear(year(75000, 0, 0, 1)), 75000);
+  });
+
+  test('Guyton-Klinger guardrails cut after losses and raise after gains', () => {
+    const cut = createWithdrawalPlanner({ strategy: 'guytonKlinger' });
+    cut.nextYear(year(1000000));
+    close(cut.nextYear(year(600000, 0.03, -0.4, 25)), 36000);
+
+    const raise = createWithdrawalPlanner({ strategy: 'guytonKlinger' });
+    raise.nextYear(year(1000000));
+    close(raise.nextYear(year(2000000, 0, 0.5, 25)), 44000);
+  });
+
+  test('Guyton-Klinger stops cutting near the end of the horizon', () => {
+    const planner = createWithdrawalPlanner({ strategy: 'guytonKlinger' });
+    planner.nextYear(year(1000000));
+    close(planner.nextYear(year(600000, 0.03, -0.4, 10)), 40000);
+  });
+});
+
+describe('calculations with decumulation', () => {
+  const run = (withdrawalRate: number) => calculateCompoundInterestWithDates(
+    1000000, [], '2000-01-01', '2019-12-31', true, 'sp500',
+    { decumulation: { strategy: 'constantInflationAdjusted', withdrawalRate } }
+  ).summary.decumulation;
+
+  test('report whether the money lasted', () => {
+    const modest = run(0.04);
+    assert.ok(modest);
+    assert.equal(modest.survived, true);
+    assert.equal(modest.depletionDate, null);
+    assert.equal(modest.initialWithdrawal, 40000);
+
+    const heavy = run(0.3);
+    assert.ok(heavy);
+    assert.equal(heavy.survived, false);
+    assert.match(heavy.depletionDate as string, /^200/);
+  });
+});